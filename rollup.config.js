@@ -2,7 +2,8 @@ import nodeResolve from "@rollup/plugin-node-resolve";
 import terser from "@rollup/plugin-terser";
 import typescript from '@rollup/plugin-typescript';
 
-export default {
+export default [
+  {
     input: 'src/pie_interpreter/index.ts',  // Entry file
     output: {
       file: 'dist/index.js',  // Output file
@@ -10,5 +11,16 @@ export default {
       sourcemap: true  // Generates a source map for debugging
     },
     plugins: [typescript(), nodeResolve(), terser()]  // Use the typescript plugin
-  };
-  
+  },
+  {
+    input: 'src/pie_interpreter/pie.ts',  // The command-line tool
+    output: {
+      file: 'dist/pie.js',
+      format: 'esm',
+      banner: '#!/usr/bin/env node',
+      sourcemap: true
+    },
+    external: ['fs', 'path', 'url'],
+    plugins: [typescript(), nodeResolve()]
+  }
+];
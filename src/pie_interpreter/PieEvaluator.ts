@@ -1,20 +1,34 @@
 import { BasicEvaluator } from "conductor/src/conductor/runner";
 import { IRunnerPlugin } from "conductor/src/conductor/runner/types";
-import { evaluatePie } from "./main";
+import { PieSession } from "./session";
+import { EvaluationLimits } from "./evaluator/limits";
+import { fetchModules, MemoryFiles } from "./modules";
+import { initCtx } from "./utils/context";
+
+// The milliseconds that a declaration may take before it is stopped,
+// so that a program that takes too long does not freeze the page.
+const declarationTime = 10000;
 
 export class PieEvaluator extends BasicEvaluator {
   private executionCount: number;
+  // The declarations of earlier chunks are kept in the session.
+  private session: PieSession;
+  // The modules that the chunks require, as they were fetched from the conductor.
+  private files = new Map<string, string>();
 
   constructor(conductor: IRunnerPlugin) {
     super(conductor);
     this.executionCount = 0;
+    this.session = new PieSession(initCtx, new MemoryFiles(this.files));
+    this.session.limits = new EvaluationLimits(Infinity, declarationTime);
   }
 
   async evaluateChunk(chunk: string): Promise<void> {
     this.executionCount++;
     try {
-      let result = evaluatePie(chunk);
-      this.conductor.sendOutput(`Result of expression: execution ${result}`);
+      await fetchModules(chunk, '', this.files, name => this.conductor.requestFile(name));
+      let result = this.session.evaluate(chunk);
+      this.conductor.sendOutput(result);
     } catch (error) {
       // Handle errors and send them to the REPL
       if (error instanceof Error) {
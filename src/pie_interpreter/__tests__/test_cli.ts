@@ -0,0 +1,139 @@
+import 'jest';
+
+import { runCli } from '../cli';
+
+const files: Record<string, string> = {
+  'good.pie': `(claim two Nat)
+(define two (add1 1))
+(add1 two)
+(claim later Nat)`,
+  'bad.pie': `(claim n Nat)
+(define n 'a)
+(add1 n)`,
+  'todo.pie': `(claim f (-> Nat Nat))
+(define f (λ (k) TODO))`,
+  'unreadable.pie': `(claim x`,
+  'shapeless.pie': `(claim two Nat)
+(define two (add1))`,
+  'typos.pie': `(claim one Nat
+(define one 1)
+(claim two Nat))
+(define two (add1))
+(claim three Nat)
+(define three 3)`,
+  'lib/nat.pie': `(claim double (-> Nat Nat))
+(define double (λ (n) (iter-Nat n 0 (λ (k) (add1 (add1 k))))))
+(provide double)`,
+  'uses-nat.pie': `(require "lib/nat.pie")
+(double 4)`,
+};
+
+// Run the command, giving its exit code and what it printed.
+function pie(...args: string[]): [number, string, string] {
+  let stdout = '';
+  let stderr = '';
+  const code = runCli(args, {
+    readFile: path => {
+      if (!(path in files)) {
+        throw new Error('no such file');
+      }
+      return files[path];
+    },
+    stdout: str => { stdout += str; },
+    stderr: str => { stderr += str; },
+  });
+  return [code, stdout, stderr];
+}
+
+describe("The pie command", () => {
+
+  it("Checks a file", () => {
+    expect(pie('check', 'good.pie')).toEqual([0, '', '']);
+    const [code, stdout, stderr] = pie('check', 'bad.pie');
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toMatch(/^bad\.pie:2:11: error \[type-mismatch\]: /);
+    expect(stderr).toMatch(/\nbad\.pie:3:1: info \[skipped\]: Skipped, because n has an error\.\n  bad\.pie:2:1: n is declared here\.\n/);
+  });
+
+  it("Reports goals without failing", () => {
+    const [code, _, stderr] = pie('check', 'todo.pie');
+    expect(code).toBe(0);
+    expect(stderr).toMatch(/^todo\.pie:2:18: TODO:\n k : Nat\n-+\n Nat\n$/);
+  });
+
+  it("Prints the values of expressions", () => {
+    expect(pie('run', 'good.pie')).toEqual([0, '3: Nat\n', '']);
+    expect(pie('run', 'bad.pie')[0]).toBe(1);
+  });
+
+  it("Normalizes a definition", () => {
+    expect(pie('normalize', 'good.pie', 'two')).toEqual([0, '(the Nat 2)\n', '']);
+    expect(pie('normalize', 'good.pie', 'later')).toEqual([1, '', 'pie: later is claimed but not defined.\n']);
+    expect(pie('normalize', 'good.pie', 'three')[0]).toBe(1);
+  });
+
+  it("Prints the steps of a reduction", () => {
+    expect(pie('step', 'good.pie', '(add1 two)')).toEqual([0, '(add1 ⟦two⟧)\n  δ two\n3\n', '']);
+    expect(pie('step', 'good.pie', '(add1 three)'))
+      .toEqual([1, '', 'pie: Unknown variable three\n']);
+    const steps = JSON.parse(pie('step', 'good.pie', 'two', '--call-by-value', '--json')[1]);
+    expect(steps).toEqual({
+      ok: true,
+      steps: [{ rule: 'δ', name: 'two', expression: 'two', redex: 'two' }],
+      normal: '2',
+    });
+  });
+
+  it("Prints JSON", () => {
+    const [code, stdout] = pie('run', 'good.pie', '--json');
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({
+      ok: true, diagnostics: [], goals: [], values: [{ value: '3', type: 'Nat' }]
+    });
+    const bad = JSON.parse(pie('check', '--json', 'bad.pie')[1]);
+    expect(bad.ok).toBe(false);
+    expect(bad.diagnostics.map(d => [d.severity, d.code, d.file, d.line]))
+      .toEqual([['error', 'type-mismatch', 'bad.pie', 2], ['info', 'skipped', 'bad.pie', 3]]);
+    const todo = JSON.parse(pie('check', 'todo.pie', '--json')[1]);
+    expect(todo.goals).toEqual([expect.objectContaining({ line: 2, hypotheses: ['k : Nat'], type: 'Nat' })]);
+    expect(JSON.parse(pie('normalize', 'good.pie', 'two', '--json')[1]))
+      .toEqual({ ok: true, name: 'two', type: 'Nat', value: '2' });
+  });
+
+  it("Rejects wrong commands and missing files", () => {
+    expect(pie()[0]).toBe(2);
+    expect(pie('frobnicate', 'good.pie')[0]).toBe(2);
+    expect(pie('normalize', 'good.pie')[0]).toBe(2);
+    expect(pie('check', 'missing.pie')).toEqual([2, '', 'pie: cannot read missing.pie: no such file\n']);
+  });
+
+  it("Reports files that are not Pie programs", () => {
+    const [code, _, stderr] = pie('check', 'unreadable.pie');
+    expect(code).toBe(1);
+    expect(stderr).toBe("unreadable.pie:1:9: error [syntax-error]: Expected ')'\n");
+  });
+
+  it("Reports malformed forms where they are written", () => {
+    const [code, _, stderr] = pie('check', 'shapeless.pie');
+    expect(code).toBe(1);
+    expect(stderr).toBe(
+      'shapeless.pie:2:13: error [syntax-error]: add1 is missing the argument n. It is written (add1 n).\n'
+    );
+  });
+
+  it("Reads required modules relative to the file", () => {
+    expect(pie('run', 'uses-nat.pie')).toEqual([0, '8: Nat\n', '']);
+  });
+
+  it("Reports every syntax error in a file", () => {
+    const [code, _, stderr] = pie('check', 'typos.pie');
+    expect(code).toBe(1);
+    expect(stderr.split('\n').filter(line => line.includes('[syntax-error]'))).toEqual([
+      "typos.pie:1:15: error [syntax-error]: Expected ')'",
+      "typos.pie:3:16: error [syntax-error]: Unexpected ')'",
+      'typos.pie:4:13: error [syntax-error]: add1 is missing the argument n. It is written (add1 n).',
+    ]);
+  });
+
+});
@@ -0,0 +1,68 @@
+import 'jest';
+
+import { EvaluationLimits } from '../evaluator/limits';
+import { checkPie, evaluatePie } from '../main';
+import { preludeContext } from '../prelude';
+
+describe("Conversion", () => {
+
+  it("Functions, pairs and sole are compared by η", () => {
+    const report = checkPie(`(claim fun-η (Π ((f (→ Nat Nat))) (= (→ Nat Nat) f (λ (x) (f x)))))
+(define fun-η (λ (f) (same f)))
+(claim pair-η (Π ((p (Pair Nat Atom))) (= (Pair Nat Atom) p (cons (car p) (cdr p)))))
+(define pair-η (λ (p) (same p)))
+(claim sole-η (Π ((t Trivial)) (= Trivial t sole)))
+(define sole-η (λ (t) (same t)))`);
+    expect(report.diagnostics).toEqual([]);
+  });
+
+  it("Neutral expressions are compared part by part", () => {
+    const report = checkPie(`(claim same-step
+  (Π ((n Nat))
+    (= Nat (iter-Nat n 0 (λ (k) (add1 k))) (iter-Nat n 0 (λ (j) (add1 j))))))
+(define same-step (λ (n) (same (iter-Nat n 0 (λ (k) (add1 k))))))
+(claim other-base
+  (Π ((n Nat))
+    (= Nat (iter-Nat n 0 (λ (k) (add1 k))) (iter-Nat n 1 (λ (k) (add1 k))))))
+(define other-base (λ (n) (same (iter-Nat n 0 (λ (k) (add1 k))))))`);
+    expect(report.declarations.map(decl => decl.status)).toEqual(['ok', 'ok', 'ok', 'error']);
+    expect(report.diagnostics[0].code).toBe('not-the-same');
+  });
+
+  it("The types of neutral cong expressions are compared", () => {
+    const report = checkPie(`(claim same-cong
+  (Π ((n Nat) (m Nat) (p (= Nat n m)))
+    (= (= Nat (add1 n) (add1 m))
+       (cong p (the (→ Nat Nat) (λ (k) (add1 k))))
+       (cong p (the (→ Nat Nat) (λ (j) (add1 j)))))))
+(define same-cong (λ (n m p) (same (cong p (the (→ Nat Nat) (λ (k) (add1 k)))))))`);
+    expect(report.declarations.map(decl => decl.status)).toEqual(['ok', 'ok']);
+  });
+
+  it("A definition is compared with itself without being normalized", () => {
+    const { context } = checkPie('(claim big Nat) (define big (* 100 100))', { ctx: preludeContext() });
+    const limits = new EvaluationLimits(100);
+    const shared = checkPie('(check-same (List Nat) (:: big nil) (:: big nil))',
+      { ctx: context, limits });
+    expect(shared.diagnostics).toEqual([]);
+    const unshared = checkPie('(check-same (List Nat) (:: big nil) (:: 10000 nil))',
+      { ctx: context, limits });
+    expect(unshared.diagnostics[0].code).toBe('evaluation-limit');
+  });
+
+  it("Values with different constructors are reported as before", () => {
+    const report = checkPie(`(check-same (Either Nat Atom) (left 1) (right 'a))`);
+    expect(report.diagnostics.map(diagnostic => diagnostic.toString())).toEqual([
+      ":1:1: error [not-the-same]: The terms (left 1) and (right 'a) are not the same (Either Nat Atom)."
+    ]);
+  });
+
+  it("Implicit arguments are found by conversion", () => {
+    const src = `(claim id (Π ({A U}) (-> A A)))
+                 (define id (λ (x) x))
+                 (claim twice (→ (→ Nat Nat) (→ Nat Nat)))
+                 (define twice (λ (f) (λ (n) ((id f) ((id f) n)))))
+                 ((twice (λ (n) (add1 n))) 3)`;
+    expect(evaluatePie(src)).toContain('5: Nat\n');
+  });
+});
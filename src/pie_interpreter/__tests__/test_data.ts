@@ -0,0 +1,151 @@
+import 'jest';
+
+import { evaluatePie } from '../main';
+import { DataDeclaration, pieDeclarationParser, schemeParse } from '../parser/parser';
+import { addDataToContext } from '../typechecker/data';
+import { stop } from '../types/utils';
+import { initCtx } from '../utils/context';
+
+function normalize(src: string): string {
+  return src.replace(/\s+/g, ' ').trim();
+}
+
+// The message of the error found when checking a single data declaration.
+function dataError(src: string): string {
+  const decl = pieDeclarationParser.parseDeclaration(schemeParse(src)[0]);
+  const result = addDataToContext(initCtx, decl as DataDeclaration);
+  expect(result).toBeInstanceOf(stop);
+  return (result as stop).message.message.join('');
+}
+
+describe("User-declared datatypes", () => {
+
+  it("Bool and its eliminator", () => {
+    const src = `(data Bool () ()
+                   (true () Bool)
+                   (false () Bool))
+                 (claim not (-> Bool Bool))
+                 (define not
+                   (λ (b)
+                     (ind-Bool b (λ (b) Bool) false true)))
+                 (not true)
+                 (not (not true))`;
+    const output = evaluatePie(src);
+    expect(output).toContain('false: Bool\n');
+    expect(output).toContain('true: Bool\n');
+  });
+
+  it("Parameterised lists compute their length", () => {
+    const src = `(data MyList ((E U)) ()
+                   (my-nil () (MyList E))
+                   (my-cons ((e E) (es (MyList E))) (MyList E)))
+                 (claim my-length (Π ((E U)) (-> (MyList E) Nat)))
+                 (define my-length
+                   (λ (E es)
+                     (ind-MyList E es
+                       (λ (_) Nat)
+                       0
+                       (λ (e es ih) (add1 ih)))))
+                 (my-length Atom (my-cons Atom 'a (my-cons Atom 'b (my-nil Atom))))`;
+    expect(evaluatePie(src)).toContain('2: Nat\n');
+  });
+
+  it("Indexed families have dependent motives", () => {
+    const src = `(data Fin () ((n Nat))
+                   (fzero ((n Nat)) (Fin (add1 n)))
+                   (fsucc ((n Nat) (i (Fin n))) (Fin (add1 n))))
+                 (claim fin->nat (Π ((n Nat)) (-> (Fin n) Nat)))
+                 (define fin->nat
+                   (λ (n i)
+                     (ind-Fin n i
+                       (λ (k j) Nat)
+                       (λ (k) 0)
+                       (λ (k j ih) (add1 ih)))))
+                 (fin->nat 3 (fsucc 2 (fsucc 1 (fzero 0))))
+                 (the (Fin 3) (fsucc 2 (fzero 1)))`;
+    const output = evaluatePie(src);
+    expect(output).toContain('2: Nat\n');
+    expect(output).toContain('(fsucc 2 (fzero 1)): (Fin 3)\n');
+  });
+
+  it("Constructor indices are checked", () => {
+    const src = `(data Fin () ((n Nat))
+                   (fzero ((n Nat)) (Fin (add1 n)))
+                   (fsucc ((n Nat) (i (Fin n))) (Fin (add1 n))))
+                 (the (Fin 0) (fzero 0))`;
+    expect(() => evaluatePie(src)).toThrow();
+  });
+
+  it("Less-Than has two indices", () => {
+    const src = `(data Less-Than () ((j Nat) (k Nat))
+                   (zero-smallest ((n Nat)) (Less-Than zero (add1 n)))
+                   (add1-smaller ((j Nat) (k Nat) (j<k (Less-Than j k)))
+                     (Less-Than (add1 j) (add1 k))))
+                 (the (Less-Than 1 3) (add1-smaller 0 2 (zero-smallest 1)))`;
+    expect(evaluatePie(src))
+      .toContain('(add1-smaller 0 2 (zero-smallest 1)): (Less-Than 1 3)\n');
+  });
+
+  it("Infinitely branching trees recur under Π", () => {
+    const src = `(data Ord () ()
+                   (ord-zero () Ord)
+                   (ord-suc ((o Ord)) Ord)
+                   (ord-lim ((f (-> Nat Ord))) Ord))
+                 (claim finite (-> Nat Ord))
+                 (define finite
+                   (λ (n) (iter-Nat n ord-zero (λ (o) (ord-suc o)))))
+                 (claim depth-at (-> Ord Nat Nat))
+                 (define depth-at
+                   (λ (o)
+                     (ind-Ord o
+                       (λ (_) (-> Nat Nat))
+                       (λ (n) 0)
+                       (λ (o ih) (λ (n) (add1 (ih n))))
+                       (λ (f ih) (λ (n) (ih n n))))))
+                 (depth-at (ord-lim finite) 4)`;
+    expect(evaluatePie(src)).toContain('4: Nat\n');
+  });
+
+  it("Stuck eliminators read back as neutral applications", () => {
+    const src = `(data Bool () ()
+                   (true () Bool)
+                   (false () Bool))
+                 (the (-> Bool Nat) (λ (b) (ind-Bool b (λ (_) Nat) 1 0)))`;
+    expect(normalize(evaluatePie(src)))
+      .toContain('(λ (b) (ind-Bool b (λ (_) Nat) 1 0)): (→ Bool Nat)');
+  });
+
+  it("Negative occurrences are rejected", () => {
+    const src = `(data Bad () ()
+                   (bad ((f (-> Bad Nat))) Bad))`;
+    expect(dataError(src)).toMatch(/not strictly positive/);
+  });
+
+  it("Parameters must be uniform", () => {
+    const src = `(data Weird ((A U)) ()
+                   (weird ((w (Weird Nat))) (Weird A)))`;
+    expect(dataError(src)).toMatch(/Expected the parameter A/);
+  });
+
+  it("Fields and indices cannot have the name of a parameter", () => {
+    expect(dataError(`(data T ((A U)) ()
+                        (mk ((A Nat)) (T A)))`))
+      .toMatch(/A is a parameter of T, so it cannot be bound again/);
+    expect(dataError(`(data T ((A U)) ((A Nat))
+                        (mk () (T A zero)))`))
+      .toMatch(/A is a parameter of T/);
+  });
+
+  it("Constructors must construct the declared type", () => {
+    const src = `(data Bool () ()
+                   (true () Nat))`;
+    expect(dataError(src)).toMatch(/must construct Bool/);
+  });
+
+  it("Fields must be in U", () => {
+    const src = `(data Box () ()
+                   (box ((A U)) Box))`;
+    expect(dataError(src)).toMatch(/must be in U, but U is in U1/);
+  });
+
+});
@@ -0,0 +1,74 @@
+import 'jest';
+
+import { checkPie } from '../main';
+import { preludeContext } from '../prelude';
+import { prettyPrintCore } from '../unparser/pretty';
+import * as C from '../types/core';
+
+/*
+  Numbers and lists far deeper than the JavaScript stack, which must
+  be evaluated, read back, compared and printed without recursion.
+*/
+const deep = 100000;
+
+const big = `(claim big (List Atom))
+(define big (iter-Nat ${deep} (the (List Atom) nil) (λ (l) (:: 'a l))))
+`;
+
+function outputs(program: string): (string | null)[] {
+  const report = checkPie(program, { ctx: preludeContext() });
+  expect(report.diagnostics.map(diagnostic => diagnostic.toString())).toEqual([]);
+  return report.declarations.map(decl => decl.output);
+}
+
+describe("Deep terms", () => {
+
+  it("Large numbers are added and compared", () => {
+    expect(outputs(`(+ ${deep} ${deep})
+(check-same Nat (+ ${deep / 2} ${deep / 2}) ${deep})`)).toEqual([`${2 * deep}: Nat\n`, null]);
+  });
+
+  it("Long lists are eliminated and compared", () => {
+    expect(outputs(big + `(length Atom big)
+(check-same (List Atom) big (append Atom big nil))`).slice(2)).toEqual([`${deep}: Nat\n`, null]);
+  });
+
+  it("Long vectors are eliminated", () => {
+    expect(outputs(big + '(length Atom (vec->list Atom (length Atom big) (list->vec Atom big)))').slice(2))
+      .toEqual([`${deep}: Nat\n`]);
+  });
+
+  it("Many add1s around a variable are read back and compared", () => {
+    const [output] = outputs(`(the (→ Nat Nat) (λ (n) (+ ${deep} n)))
+(check-same (→ Nat Nat) (λ (n) (+ ${deep} n)) (λ (j) (+ ${deep} j)))`);
+    expect(output!.startsWith('(λ (n)\n  (add1 (add1 ')).toBe(true);
+    expect(output!.split('(add1 ')).toHaveLength(deep + 1);
+  });
+
+  it("Long lists are printed", () => {
+    const [, , output] = outputs(big + 'big');
+    const lines = output!.split('\n');
+    expect(lines.slice(0, 3)).toEqual(["(:: 'a", "  (:: 'a", "  (:: 'a"]);
+    expect(lines).toHaveLength(deep + 2);
+    expect(lines[deep]).toBe('  nil' + ')'.repeat(deep) + ': (List Atom)');
+  });
+
+  it("Long lists are printed in messages", () => {
+    const report = checkPie(big + '(check-same (List Atom) big nil)', { ctx: preludeContext() });
+    const message = report.diagnostics[0].message.toString();
+    expect(message.startsWith(`The terms (:: 'a (:: 'a`)).toBe(true);
+    expect(message.endsWith(`nil${')'.repeat(deep)} and nil are not the same (List Atom).`)).toBe(true);
+  });
+
+  it("Chains of the same form are indented as one", () => {
+    const list = new C.ListCons(new C.Quote('first-of-many'),
+      new C.ListCons(new C.Quote('second-of-many'),
+        new C.ListCons(new C.Quote('third-of-many'), new C.Nil())));
+    expect(prettyPrintCore(new C.Cons(new C.Zero(), list), { width: 30 })).toBe(
+      `(cons 0
+  (:: 'first-of-many
+  (:: 'second-of-many
+  (:: 'third-of-many nil))))`);
+  });
+
+});
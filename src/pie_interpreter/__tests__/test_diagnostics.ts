@@ -0,0 +1,148 @@
+import 'jest';
+
+import { checkPie, evaluatePie } from '../main';
+import { Parser } from '../parser/parser';
+import { checkSame, represent } from '../typechecker/represent';
+import * as C from '../types/core';
+import { Diagnostic, go, stop } from '../types/utils';
+import { addClaimToContext, addDefineToContext, Context, initCtx } from '../utils/context';
+
+// The diagnostic of a failed result.
+function diagnosticOf(result: unknown): Diagnostic {
+  expect(result).toBeInstanceOf(stop);
+  return (result as stop).diagnostic;
+}
+
+function claim(ctx: Context, name: string, type: string) {
+  return addClaimToContext(ctx, name, Parser.parsePie(name).location, Parser.parsePie(type));
+}
+
+describe("Diagnostics", () => {
+
+  it("Unknown variables are reported with their location", () => {
+    const diagnostic = diagnosticOf(represent(initCtx, Parser.parsePie('(add1 x)')));
+    expect(diagnostic.severity).toBe('error');
+    expect(diagnostic.code).toBe('unknown-variable');
+    expect(diagnostic.message.toString()).toBe('Unknown variable x');
+    expect(diagnostic.location.startLine).toBe(1);
+  });
+
+  it("Type mismatches keep the types as Core expressions", () => {
+    const diagnostic = diagnosticOf(represent(initCtx, Parser.parsePie('(the Atom 3)')));
+    expect(diagnostic.code).toBe('type-mismatch');
+    const types = diagnostic.message.message.filter(part => part instanceof C.Core);
+    expect(types.map(type => (type as C.Core).prettyPrint())).toEqual(['Atom', 'Nat']);
+    expect(diagnostic.message.toString()).toBe('Expected Atom but got Nat');
+  });
+
+  it("The types in messages are printed as they are in output", () => {
+    const report = checkPie(`(claim k (-> Nat Nat Nat))
+(define k (λ (a b) a))
+(the Atom k)`);
+    expect(report.diagnostics[0].toString())
+      .toBe(':3:11: error [type-mismatch]: Expected Atom but got (→ Nat Nat Nat)');
+    const sameness = checkPie('(check-same (-> Nat Nat Nat) (λ (a b) a) (λ (a b) b))');
+    expect(sameness.diagnostics[0].message.toString())
+      .toBe('The terms (λ (a b) a) and (λ (a b) b) are not the same (→ Nat Nat Nat).');
+  });
+
+  it("Claims and definitions return their diagnostics", () => {
+    const claimed = (claim(initCtx, 'n', 'Nat') as go<Context>).result;
+    expect(diagnosticOf(claim(claimed, 'n', 'Atom')).code).toBe('name-in-use');
+    expect(diagnosticOf(
+      addDefineToContext(claimed, 'm', Parser.parsePie('m').location, Parser.parsePie('3'))
+    ).code).toBe('no-claim');
+    expect(diagnosticOf(
+      addDefineToContext(claimed, 'n', Parser.parsePie('n').location, Parser.parsePie("'a"))
+    ).code).toBe('type-mismatch');
+  });
+
+  it("Sameness checks succeed or report the two terms", () => {
+    const where = Parser.parsePie('Nat').location;
+    const [nat, two] = ['Nat', '2'].map(src => Parser.parsePie(src));
+    expect(checkSame(initCtx, where, nat, two, Parser.parsePie('(add1 1)'))).toBeInstanceOf(go);
+    const diagnostic = diagnosticOf(checkSame(initCtx, where, nat, two, Parser.parsePie('3')));
+    expect(diagnostic.code).toBe('not-the-same');
+    expect(diagnostic.message.toString()).toBe('The terms 2 and 3 are not the same Nat.');
+  });
+
+  it("Every unsolved implicit argument is given as a related location", () => {
+    const ctx = (claim(initCtx, 'ignore', '(Π ({A U} {D U}) (-> Nat Nat))') as go<Context>).result;
+    const defined = (addDefineToContext(
+      ctx, 'ignore', Parser.parsePie('ignore').location, Parser.parsePie('(λ (n) n)')
+    ) as go<Context>).result;
+    const diagnostic = diagnosticOf(represent(defined, Parser.parsePie('(ignore 3)')));
+    expect(diagnostic.code).toBe('unsolved-implicit');
+    expect(diagnostic.related.length).toBe(1);
+    expect(diagnostic.related[0].message.toString()).toMatch(/D is introduced here/);
+  });
+
+  it("evaluatePie reports the rendered diagnostic", () => {
+    expect(() => evaluatePie('(the Atom 3)'))
+      .toThrow(/:1:\d+: error \[type-mismatch\]: Expected Atom but got Nat/);
+  });
+
+});
+
+describe("Keep-going mode", () => {
+
+  const src = `(claim one Nat)
+               (define one 'a)
+               (claim two Nat)
+               (define two (add1 one))
+               (claim three Nat)
+               (define three 3)
+               (check-same Nat three 4)
+               three
+               (add1 two)`;
+
+  it("Every declaration is given a status", () => {
+    const report = checkPie(src);
+    expect(report.ok).toBe(false);
+    expect(report.declarations.map(decl => [decl.kind, decl.name, decl.status])).toEqual([
+      ['claim', 'one', 'ok'],
+      ['define', 'one', 'error'],
+      ['claim', 'two', 'ok'],
+      ['define', 'two', 'skipped'],
+      ['claim', 'three', 'ok'],
+      ['define', 'three', 'ok'],
+      ['check-same', null, 'error'],
+      ['expression', null, 'ok'],
+      ['expression', null, 'skipped'],
+    ]);
+  });
+
+  it("Errors and skipped declarations have diagnostics", () => {
+    const report = checkPie(src);
+    expect(report.diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code])).toEqual([
+      ['error', 'type-mismatch'],
+      ['info', 'skipped'],
+      ['error', 'not-the-same'],
+      ['info', 'skipped'],
+    ]);
+    const skipped = report.declarations[3].diagnostics[0];
+    expect(skipped.message.toString()).toBe('Skipped, because one has an error.');
+    expect(skipped.related[0].location.startLine).toBe(2);
+  });
+
+  it("The declarations that succeed still have outputs", () => {
+    const report = checkPie(src);
+    expect(report.declarations[7].output).toBe('3: Nat\n');
+    expect(report.output).toContain('three= 3\n');
+  });
+
+  it("A broken data declaration breaks its constructors and eliminator", () => {
+    const report = checkPie(`(data Bool () ()
+                                (true () Bool)
+                                (false () Nat))
+                              (claim b Bool)
+                              (ind-Bool true (λ (b) Nat) 0 1)
+                              (claim n Nat)`);
+    expect(report.declarations.map(decl => decl.status)).toEqual(['error', 'skipped', 'skipped', 'ok']);
+  });
+
+  it("evaluatePie stops at the first error", () => {
+    expect(() => evaluatePie(src)).toThrow(/:2:\d+: error \[type-mismatch\]/);
+  });
+
+});
@@ -0,0 +1,86 @@
+import 'jest';
+
+import { evaluatePie } from '../main';
+import { Parser } from '../parser/parser';
+import { represent } from '../typechecker/represent';
+import { Renaming } from '../typechecker/utils';
+import * as C from '../types/core';
+import { go, stop } from '../types/utils';
+import { prettyPrintCore } from '../unparser/pretty';
+import { addClaimToContext, addDefineToContext, Context, initCtx } from '../utils/context';
+
+function normalize(src: string): string {
+  return src.replace(/\s+/g, ' ').trim();
+}
+
+const flip = `(claim flip
+                (Π ({A U} {D U})
+                  (-> (Pair A D) (Pair D A))))
+              (define flip
+                (λ (p) (cons (cdr p) (car p))))`;
+
+// Claim and define name in ctx.
+function define(ctx: Context, name: string, type: string, expr: string): Context {
+  const loc = Parser.parsePie(name).location;
+  const claimed = addClaimToContext(ctx, name, loc, Parser.parsePie(type));
+  const defined = addDefineToContext((claimed as go<Context>).result, name, loc, Parser.parsePie(expr));
+  return (defined as go<Context>).result;
+}
+
+describe("Implicit arguments", () => {
+
+  it("Implicit arguments are found from the explicit ones", () => {
+    const src = `${flip}
+                 (flip (cons 'a 3))`;
+    expect(normalize(evaluatePie(src))).toContain("(cons 3 'a): (Pair Nat Atom)");
+  });
+
+  it("Implicit arguments are found from the expected type", () => {
+    const src = `(claim id (Π ({A U}) (-> A A)))
+                 (define id (λ (x) x))
+                 (claim five (-> Nat Nat))
+                 (define five (λ (n) (id 5)))
+                 (five 0)`;
+    expect(evaluatePie(src)).toContain('5: Nat\n');
+  });
+
+  it("Implicit arguments may be given in braces", () => {
+    const src = `(claim id (Π ({A U}) (-> A A)))
+                 (define id (λ ({B} x) x))
+                 (id {Atom} 'a)
+                 (the (-> Nat Nat) (id {(-> Nat Nat)} (λ (x) x)))`;
+    const output = normalize(evaluatePie(src));
+    expect(output).toContain("'a: Atom");
+    expect(output).toContain('(λ (x) x): (→ Nat Nat)');
+    expect(output).toContain('id: (Π ({A U}) (→ A A))');
+  });
+
+  it("Functions with implicit arguments are used in other definitions", () => {
+    const src = `${flip}
+                 (claim twice-flip (Π ({A U} {D U}) (-> (Pair A D) (Pair A D))))
+                 (define twice-flip (λ (p) (flip (flip p))))
+                 (twice-flip (cons 'a 'b))`;
+    expect(normalize(evaluatePie(src))).toContain("(cons 'a 'b): (Pair Atom Atom)");
+  });
+
+  it("Unsolved implicit arguments are reported with their location", () => {
+    const ctx = define(initCtx, 'ignore', '(Π ({A U}) (-> Nat Nat))', '(λ (n) n)');
+    const result = represent(ctx, Parser.parsePie(`(ignore 3)`));
+    expect(result).toBeInstanceOf(stop);
+    const message = (result as stop).message.message.join('');
+    expect(message).toMatch(/Unable to infer the implicit argument\(s\) A : U \(at 1:1\)/);
+    expect((result as stop).where.syntax.start.line).toBe(1);
+  });
+
+  it("Solved implicit arguments are shown on request", () => {
+    const ctx = define(initCtx, 'flip',
+      '(Π ({A U} {D U}) (-> (Pair A D) (Pair D A)))',
+      '(λ (p) (cons (cdr p) (car p)))');
+    const out = Parser.parsePie(`(flip (cons 'a 3))`).synth(ctx, new Map() as Renaming);
+    const expr = (out as go<C.The>).result.expr;
+    expect(prettyPrintCore(expr)).toBe("(flip (cons 'a 3))");
+    expect(prettyPrintCore(expr, { showImplicits: true }))
+      .toBe("(flip {Atom} {Nat} (cons 'a 3))");
+  });
+
+});
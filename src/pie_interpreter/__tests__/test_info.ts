@@ -0,0 +1,64 @@
+import 'jest';
+
+import { checkPie } from '../main';
+import { withPieInfo } from '../typechecker/utils';
+import { prettyPrintCore } from '../unparser/pretty';
+
+const program = `(claim f (-> Nat Nat))
+(define f
+  (λ (n)
+    (add1 n)))
+(f 2)
+(claim g (-> Nat Nat))
+(define g (λ (n) n))`;
+
+describe("The information index", () => {
+
+  const info = checkPie(program).info;
+
+  it("Gives the type of the innermost expression at a position", () => {
+    const [where, type] = info.typeAt(5, 2)!;
+    expect(where.syntax.start).toEqual({ line: 5, column: 2 });
+    expect(prettyPrintCore(type)).toBe('(→ Nat Nat)');
+    expect(prettyPrintCore(info.typeAt(5, 1)![1])).toBe('Nat');
+    expect(prettyPrintCore(info.typeAt(4, 11)![1])).toBe('Nat');
+  });
+
+  it("Knows nothing about positions outside the program", () => {
+    expect(info.typeAt(40, 1)).toBeNull();
+    expect(info.entriesAt(40, 1)).toEqual([]);
+  });
+
+  it("Lists every fact about a position, innermost first", () => {
+    const whats = info.entriesAt(5, 2).map(entry => entry.what);
+    expect(whats[0]).toBe('definition');
+    expect(whats[whats.length - 1][0]).toBe('has-type');
+  });
+
+  it("Finds the binder of a local variable", () => {
+    expect(info.bindingSite('n', 4, 11)!.syntax.start.line).toBe(3);
+    expect(info.bindingSite('n', 7, 18)!.syntax.start.line).toBe(7);
+  });
+
+  it("Finds the claim of a global name", () => {
+    expect(info.bindingSite('f', 5, 2)!.syntax.start).toEqual({ line: 1, column: 1 });
+    expect(info.bindingSite('g', 5, 2)!.syntax.start).toEqual({ line: 6, column: 1 });
+    expect(info.bindingSite('h', 5, 2)).toBeNull();
+  });
+
+  it("Does not find binders whose scope has ended", () => {
+    const shadowed = checkPie(`(claim n Nat)(define n 5)(claim h (Pair (-> Nat Nat) Nat))
+(define h (cons (λ (n) n) n))`).info;
+    expect(shadowed.bindingSite('n', 2, 24)!.syntax.start).toEqual({ line: 2, column: 21 });
+    expect(shadowed.bindingSite('n', 2, 27)!.syntax.start).toEqual({ line: 1, column: 1 });
+  });
+
+  it("Reads back expected types only when they are asked for", () => {
+    const sent: unknown[] = [];
+    withPieInfo((where, what) => sent.push(what), () => checkPie('(the (-> Nat Nat) (λ (n) n))'));
+    expect(sent.some(what => typeof what === 'function')).toBe(true);
+    const lazy = checkPie('(the (-> Nat Nat) (λ (n) n))').info;
+    expect(prettyPrintCore(lazy.typeAt(1, 26)![1])).toBe('Nat');
+  });
+
+});
@@ -0,0 +1,86 @@
+import 'jest';
+
+import { EvaluationLimits, stopAtLimit, withLimits } from '../evaluator/limits';
+import { checkPie } from '../main';
+import { preludeContext } from '../prelude';
+import { PieSession } from '../session';
+import { go, stop } from '../types/utils';
+import { Location, Syntax } from '../utils/locations';
+import { Position } from '../../scheme_parser/transpiler/types/location';
+
+describe("Evaluation limits", () => {
+
+  it("An evaluation that takes too many steps is reported", () => {
+    const report = checkPie(`(claim n Nat)
+(define n 3)
+(* 100 100)
+(+ n n)`, { ctx: preludeContext(), source: 'big.pie', limits: new EvaluationLimits(1000) });
+    expect(report.declarations.map(decl => decl.status)).toEqual(['ok', 'ok', 'error', 'ok']);
+    expect(report.diagnostics.map(diagnostic => diagnostic.toString())).toEqual([
+      'big.pie:3:1: error [evaluation-limit]: Evaluation limit exceeded: this takes more than 1000 steps.'
+    ]);
+    expect(report.declarations[3].output).toBe('6: Nat\n');
+  });
+
+  it("The limit is reported at the expression that exceeds it", () => {
+    const report = checkPie(`(claim p (= Nat (* 100 100) 10000))
+(define p (same 10000))`, { ctx: preludeContext(), source: 'p.pie', limits: new EvaluationLimits(1000) });
+    const [diagnostic] = report.diagnostics;
+    expect(diagnostic.code).toBe('evaluation-limit');
+    expect([diagnostic.location.startLine, diagnostic.location.startColumn]).toEqual([2, 11]);
+  });
+
+  it("An evaluation that takes too long is reported", () => {
+    const report = checkPie('(* 1000 1000)',
+      { ctx: preludeContext(), limits: new EvaluationLimits(Infinity, 10) });
+    expect(report.diagnostics[0].message.toString())
+      .toBe('Evaluation limit exceeded: this takes more than 10 ms.');
+  });
+
+  it("Nothing more is checked once evaluation is cancelled", () => {
+    const controller = new AbortController();
+    controller.abort();
+    const report = checkPie('(claim n Nat) (define n 1)', {
+      ctx: preludeContext(),
+      limits: new EvaluationLimits(Infinity, Infinity, controller.signal),
+    });
+    expect(report.declarations).toHaveLength(1);
+    expect(report.diagnostics[0].message.toString())
+      .toBe('Evaluation limit exceeded: evaluation was cancelled.');
+  });
+
+  it("Nested limits can only be stricter", () => {
+    const report = withLimits(new EvaluationLimits(500), () =>
+      checkPie('(* 100 100)', { ctx: preludeContext(), limits: new EvaluationLimits(1000000) }));
+    expect(report.diagnostics[0].message.toString())
+      .toBe('Evaluation limit exceeded: this takes more than 500 steps.');
+  });
+
+  it("A declaration that exceeded its limits is checked again", () => {
+    const limits = new EvaluationLimits(100);
+    const first = checkPie('(* 20 20)', { ctx: preludeContext(), limits });
+    expect(first.ok).toBe(false);
+    limits.steps = Infinity;
+    const second = checkPie('(* 20 20)', { ctx: preludeContext(), previous: first, limits });
+    expect(second.declarations[0].output).toBe('400: Nat\n');
+  });
+
+  it("Overflowing the stack is reported", () => {
+    const here = new Location(new Syntax(new Position(1, 1), new Position(1, 2), 'deep.pie'), false);
+    const result = stopAtLimit(here, () => {
+      throw new RangeError('Maximum call stack size exceeded');
+    });
+    expect((result as stop).diagnostic.toString())
+      .toBe('deep.pie:1:1: error [evaluation-limit]: Evaluation limit exceeded: this is nested too deeply to evaluate.');
+    expect(stopAtLimit(here, () => new go(1))).toEqual(new go(1));
+  });
+
+  it("Sessions evaluate within their limits", () => {
+    const session = new PieSession(preludeContext());
+    session.limits = new EvaluationLimits(1000);
+    expect(session.evaluate('(* 100 100)')).toMatch(/^Error: .*\[evaluation-limit\]/);
+    expect(session.evaluate(':norm (* 100 100)')).toMatch(/^Error: .*\[evaluation-limit\]/);
+    expect(session.evaluate(':norm (* 2 2)')).toBe('4\n');
+  });
+
+});
@@ -0,0 +1,129 @@
+import 'jest';
+
+import { checkPie, evaluatePie } from '../main';
+import { fetchModules, MemoryFiles, ModuleLoader, resolvePath } from '../modules';
+
+// A loader for the modules, which counts how many times each is read.
+function loader(modules: Record<string, string>): [ModuleLoader, Map<string, number>] {
+  const reads = new Map<string, number>();
+  const files = new MemoryFiles(new Map(Object.entries(modules)));
+  return [new ModuleLoader({
+    resolve: (from, path) => files.resolve(from, path),
+    read: name => {
+      reads.set(name, (reads.get(name) ?? 0) + 1);
+      return files.read(name);
+    },
+  }), reads];
+}
+
+const arith = `(claim + (-> Nat Nat Nat))
+(define + (λ (j k) (iter-Nat j k (λ (n) (add1 n)))))
+(claim step (-> Nat Nat))
+(define step (λ (n) (add1 n)))
+(provide +)`;
+
+describe("Modules", () => {
+
+  it("Provided names can be used by the modules that require them", () => {
+    const [modules] = loader({ 'lib/arith.pie': arith });
+    const src = `(require "lib/arith.pie")
+(+ 2 3)`;
+    expect(evaluatePie(src, modules)).toContain('5: Nat\n');
+  });
+
+  it("Names that are not provided stay in their module", () => {
+    const [modules] = loader({ 'arith.pie': arith });
+    const report = checkPie('(require "arith.pie")\n(step 1)', { source: 'main.pie', modules });
+    expect(report.declarations.map(decl => decl.status)).toEqual(['ok', 'error']);
+    expect(report.diagnostics[0].code).toBe('unknown-variable');
+  });
+
+  it("Each module is checked once", () => {
+    const [modules, reads] = loader({
+      'arith.pie': arith,
+      'a.pie': '(require "arith.pie")\n(claim a Nat)\n(define a (+ 1 1))\n(provide a)',
+      'b.pie': '(require "arith.pie")\n(claim b Nat)\n(define b (+ 2 2))\n(provide b)',
+    });
+    const src = `(require "a.pie")
+(require "b.pie")
+(require "arith.pie")
+(+ a b)`;
+    expect(evaluatePie(src, modules)).toContain('6: Nat\n');
+    expect(reads.get('arith.pie')).toBe(1);
+  });
+
+  it("Modules that require themselves are reported", () => {
+    const [modules] = loader({
+      'dir/a.pie': '(require "b.pie")',
+      'dir/b.pie': '(require "../dir/a.pie")',
+    });
+    const report = checkPie('(require "dir/a.pie")', { source: 'main.pie', modules });
+    const diagnostic = report.diagnostics[0];
+    expect(diagnostic.code).toBe('module');
+    expect(diagnostic.message.toString()).toBe('dir/a.pie has errors.');
+    expect(diagnostic.related.map(info => info.message.toString())).toEqual([
+      'b.pie has errors.',
+    ]);
+    expect(diagnostic.related[0].location.source).toBe('dir/a.pie');
+    const [direct] = loader({ 'a.pie': '(require "b.pie")', 'b.pie': '(require "a.pie")' });
+    const inner = checkPie('(require "b.pie")', { source: 'a.pie', modules: direct });
+    expect(inner.diagnostics[0].related[0].message.toString())
+      .toBe('a.pie requires itself: a.pie → b.pie → a.pie.');
+  });
+
+  it("Problems with required modules are reported at the require", () => {
+    const [modules] = loader({
+      'bad.pie': "(claim x Nat)\n(define x 'a)\n(provide x)",
+      'claimed.pie': '(claim y Nat)\n(provide y)',
+      'arith.pie': arith,
+    });
+    const check = (src: string) =>
+      checkPie(src, { source: 'main.pie', modules }).diagnostics.map(d => d.toString());
+    expect(check('(require "missing.pie")')).toEqual([
+      'main.pie:1:1: error [module]: Cannot read missing.pie: There is no module called missing.pie.',
+    ]);
+    expect(check('(require "bad.pie")')[0]).toMatch(
+      /^main\.pie:1:1: error \[module\]: bad\.pie has errors\.\n  bad\.pie:2:11: /
+    );
+    expect(check('(require "claimed.pie")')).toEqual([
+      'main.pie:1:1: error [module]: y is provided by claimed.pie, but it is not defined there.',
+    ]);
+    expect(check('(claim + Nat)\n(require "arith.pie")')).toEqual([
+      'main.pie:2:1: error [name-in-use]: + is provided by arith.pie, but it is already declared.',
+    ]);
+    expect(check('(provide z)')).toEqual([
+      'main.pie:1:10: error [unknown-variable]: z is provided, but it has not been declared.',
+    ]);
+  });
+
+  it("Modules cannot be required without files to read them from", () => {
+    const report = checkPie('(require "arith.pie")');
+    expect(report.diagnostics[0].code).toBe('module');
+  });
+
+  it("Modules are fetched with the modules that they require", async () => {
+    const remote = new Map([
+      ['main.pie', '(require "lib/arith.pie")'],
+      ['lib/arith.pie', '(require "steps.pie")\n(require "missing.pie")'],
+      ['lib/steps.pie', arith],
+    ]);
+    const fetched: string[] = [];
+    const files = new Map([['lib/missing.pie', 'stale']]);
+    await fetchModules('(require "main.pie")', '', files, async name => {
+      fetched.push(name);
+      return remote.get(name);
+    });
+    expect(fetched).toEqual(['main.pie', 'lib/arith.pie', 'lib/steps.pie', 'lib/missing.pie']);
+    expect([...files.keys()].sort()).toEqual(['lib/arith.pie', 'lib/steps.pie', 'main.pie']);
+  });
+
+  it("Paths are resolved relative to the requiring file", () => {
+    expect(resolvePath('a/b.pie', 'c.pie')).toBe('a/c.pie');
+    expect(resolvePath('a/b.pie', '../c.pie')).toBe('c.pie');
+    expect(resolvePath('b.pie', './lib/../c.pie')).toBe('c.pie');
+    expect(resolvePath('b.pie', '../c.pie')).toBe('../c.pie');
+    expect(resolvePath('/a/b.pie', '../../c.pie')).toBe('/c.pie');
+    expect(resolvePath('file:///home/b.pie', 'lib/c.pie')).toBe('file:///home/lib/c.pie');
+  });
+
+});
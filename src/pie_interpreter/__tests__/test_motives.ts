@@ -0,0 +1,97 @@
+import 'jest';
+
+import { evaluatePie } from '../main';
+import { Parser } from '../parser/parser';
+import { represent } from '../typechecker/represent';
+import { go, stop } from '../types/utils';
+import { addClaimToContext, addDefineToContext, Context, initCtx } from '../utils/context';
+
+function normalize(src: string): string {
+  return src.replace(/\s+/g, ' ').trim();
+}
+
+// The message of the error found when representing expr in ctx.
+function errorIn(ctx: Context, expr: string): string {
+  const result = represent(ctx, Parser.parsePie(expr));
+  expect(result).toBeInstanceOf(stop);
+  expect((result as stop).code).toBe('motive');
+  return (result as stop).message.toString();
+}
+
+describe("Motive inference", () => {
+
+  it("ind-Nat abstracts its target out of the expected type", () => {
+    const src = `(claim as (Π ((n Nat)) (Vec Atom n)))
+                 (define as
+                   (λ (n)
+                     (ind-Nat n
+                       vecnil
+                       (λ (k ih) (vec:: 'a ih)))))
+                 (as 2)`;
+    expect(normalize(evaluatePie(src))).toContain("(vec:: 'a (vec:: 'a vecnil)): (Vec Atom 2)");
+  });
+
+  it("ind-List finds a constant motive", () => {
+    const src = `(claim len (Π ((E U) (es (List E))) Nat))
+                 (define len
+                   (λ (E es)
+                     (ind-List es
+                       0
+                       (λ (e es ih) (add1 ih)))))
+                 (len Atom (:: 'a (:: 'b nil)))`;
+    expect(evaluatePie(src)).toContain('2: Nat\n');
+  });
+
+  it("ind-Vec abstracts both the length and the target", () => {
+    const src = `(claim vec->list (Π ((E U) (l Nat) (es (Vec E l))) (List E)))
+                 (define vec->list
+                   (λ (E l es)
+                     (ind-Vec l es
+                       nil
+                       (λ (k h t ih) (:: h ih)))))
+                 (vec->list Atom 2 (vec:: 'a (vec:: 'b vecnil)))`;
+    expect(normalize(evaluatePie(src))).toContain("(:: 'a (:: 'b nil)): (List Atom)");
+  });
+
+  it("ind-Either finds its motive in checking mode", () => {
+    const src = `(claim size (-> (Either Atom Nat) Nat))
+                 (define size
+                   (λ (x)
+                     (ind-Either x
+                       (λ (l) 0)
+                       (λ (r) r))))
+                 (size (right 4))`;
+    expect(evaluatePie(src)).toContain('4: Nat\n');
+  });
+
+  it("The motive is required when the type is not known", () => {
+    expect(errorIn(initCtx, `(ind-Nat 2 0 (λ (k ih) (add1 ih)))`))
+      .toMatch(/motive of ind-Nat can only be left out when its type is known/);
+  });
+
+  it("The target must be a variable", () => {
+    expect(errorIn(initCtx, `(the Nat (ind-Nat 2 0 (λ (k ih) (add1 ih))))`))
+      .toMatch(/Cannot find the motive for ind-Nat, because the target 2 is not a variable/);
+  });
+
+  it("Defined names cannot be abstracted", () => {
+    const loc = Parser.parsePie('two').location;
+    const claimed = addClaimToContext(initCtx, 'two', loc, Parser.parsePie('Nat'));
+    const ctx = (addDefineToContext(
+      (claimed as go<Context>).result, 'two', loc, Parser.parsePie('2')
+    ) as go<Context>).result;
+    expect(errorIn(ctx, `(the Nat (ind-Nat two 0 (λ (k ih) (add1 ih))))`))
+      .toMatch(/two is not a variable bound by λ, Π or Σ/);
+  });
+
+  it("An inferred motive is checked as the motive written out is", () => {
+    const inferred = `(claim f (-> Nat U))
+                      (define f (λ (n) (ind-Nat n Nat (λ (k ih) Atom))))`;
+    const explicit = `(claim f (-> Nat U))
+                      (define f (λ (n) (ind-Nat n (λ (n) U) Nat (λ (k ih) Atom))))`;
+    for (const src of [inferred, explicit]) {
+      expect(() => evaluatePie(src)).toThrow(/Expected U but got U1: universe level 1 exceeds level 0/);
+    }
+  });
+
+});
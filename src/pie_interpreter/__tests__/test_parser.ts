@@ -1,5 +1,8 @@
 import 'jest';
-import { schemeParse, Parser, pieDeclarationParser, Claim, Declaration, SamenessCheck} from '../parser/parser';
+import { schemeParse, Parser, pieDeclarationParser, Claim, Declaration, SamenessCheck, MalformedDeclaration } from '../parser/parser';
+import { checkPie } from '../main';
+import * as S from '../types/source';
+import { ArityError, PieExpectedFormError, PieMissingFormError, UnsupportedFeatureError } from '../parser/parser-error';
 
 function testParser(input: string) {
   const parser = new Parser();
@@ -88,4 +91,223 @@ test("Test parsing result atom", () => {
   //     expect(result).toEqual(Claim)
   //   });
 
-  // });
\ No newline at end of file
+  // });
+describe("Source locations", () => {
+
+  const span = (loc: { syntax: { start: object, end: object, source: string } }) =>
+    [loc.syntax.source, loc.syntax.start, loc.syntax.end];
+
+  it("Each expression is located at its own characters", () => {
+    const add1 = Parser.parsePie('(add1\n  foo)', 'a.pie');
+    expect(add1).toBeInstanceOf(S.Add1);
+    expect(span(add1.location)).toEqual(['a.pie', { line: 1, column: 1 }, { line: 2, column: 6 }]);
+    if (add1 instanceof S.Add1) {
+      expect(span(add1.base.location)).toEqual(['a.pie', { line: 2, column: 3 }, { line: 2, column: 5 }]);
+    }
+  });
+
+  it("Binders are located at the names that they bind", () => {
+    const lambda = Parser.parsePie('(λ (x {y}) x)');
+    expect(lambda).toBeInstanceOf(S.Lambda);
+    if (lambda instanceof S.Lambda) {
+      expect(lambda.binders.map(b => [b.varName, b.implicit, b.location.syntax.start, b.location.syntax.end]))
+        .toEqual([
+          ['x', false, { line: 1, column: 5 }, { line: 1, column: 5 }],
+          ['y', true, { line: 1, column: 7 }, { line: 1, column: 9 }],
+        ]);
+    }
+    const pi = Parser.parsePie('(Π ((Ab U)) Ab)');
+    expect(pi).toBeInstanceOf(S.Pi);
+    if (pi instanceof S.Pi) {
+      expect(span(pi.binders[0].binder.location)).toEqual(['', { line: 1, column: 6 }, { line: 1, column: 7 }]);
+    }
+  });
+
+  it("Declarations name the file that they are in", () => {
+    const claim = pieDeclarationParser.parseDeclaration(
+      schemeParse('\n  (claim x\n    Nat)')[0], 'b.pie'
+    ) as Claim;
+    expect(span(claim.location)).toEqual(['b.pie', { line: 2, column: 3 }, { line: 3, column: 8 }]);
+  });
+
+  it("Diagnostics point at the file, line and column", () => {
+    const report = checkPie(`(claim x Nat)\n(define x 'a)`, { source: 'c.pie' });
+    expect(report.diagnostics[0].toString()).toMatch(/^c\.pie:2:11: error \[type-mismatch\]/);
+  });
+
+});
+
+describe("The shapes of forms", () => {
+
+  // The error that parsing a program throws.
+  function parseError(src: string): PieMissingFormError | ArityError | PieExpectedFormError {
+    try {
+      Parser.parsePie(src, 'd.pie');
+    } catch (e) {
+      if (e instanceof PieMissingFormError || e instanceof ArityError || e instanceof PieExpectedFormError) {
+        return e;
+      }
+      throw e;
+    }
+    throw new Error(`${src} was parsed`);
+  }
+
+  it("Forms with too few parts are missing the next part", () => {
+    const add1 = parseError('(add1)');
+    expect(add1).toBeInstanceOf(PieMissingFormError);
+    expect(add1.description).toBe('add1 is missing the argument n. It is written (add1 n).');
+    const indNat = parseError('(ind-Nat x\n  m)');
+    expect(indNat).toBeInstanceOf(PieMissingFormError);
+    expect(indNat.form).toBe('ind-Nat');
+    expect(indNat.expected).toBe('the argument step');
+    expect(indNat.location.syntax.source).toBe('d.pie');
+    expect(indNat.location.syntax.start).toEqual({ line: 1, column: 1 });
+    expect(parseError('add1').description).toBe('add1 is missing its arguments. It is written (add1 n).');
+    expect(parseError('(→ Nat)').expected).toBe('its result type');
+  });
+
+  it("Forms with too many parts are reported at the first extra part", () => {
+    const the = parseError('(the Nat zero zero)');
+    expect(the).toBeInstanceOf(ArityError);
+    expect(the.description).toBe('the expects 2 arguments, but got 3. It is written (the type expr).');
+    expect(the.location.syntax.start).toEqual({ line: 1, column: 15 });
+    expect(parseError('(ind-Nat a b c d e)').expected).toBe('3 or 4 arguments');
+  });
+
+  it("Binders are checked", () => {
+    const lambda = parseError('(λ x x)');
+    expect(lambda).toBeInstanceOf(PieExpectedFormError);
+    expect(lambda.description).toBe('λ expects a list of variables (x ...), but got x.');
+    expect(lambda.location.syntax.start).toEqual({ line: 1, column: 4 });
+    const pi = parseError('(Π (x Nat) x)');
+    expect(pi).toBeInstanceOf(PieExpectedFormError);
+    expect(pi.description).toBe('Π expects a binding (x A), but got x.');
+    expect(parseError('(Σ ((zero Nat)) Nat)').description).toBe('Σ expects a variable, but got zero.');
+    const empty = parseError('(λ () zero)');
+    expect(empty).toBeInstanceOf(PieExpectedFormError);
+    if (empty instanceof PieExpectedFormError) {
+      expect(empty.got).toBe('()');
+    }
+  });
+
+  it("Parts of the wrong kind are reported", () => {
+    expect(parseError("(quote (a b))").description).toBe('quote expects an atom, but got (a b).');
+    expect(parseError('(Nat)').description).toBe('Expected Nat, but got (Nat).');
+    expect(parseError('(f)').description).toBe('f is missing an argument. It is written (f arg ...).');
+    expect(parseError('(add1 -2)').description).toBe('Expected a natural number, but got -2.');
+  });
+
+  it("Applications of compound expressions are not mistaken for forms", () => {
+    const app = Parser.parsePie('((add1 x) y)');
+    expect(app).toBeInstanceOf(S.Application);
+    if (app instanceof S.Application) {
+      expect(app.func).toBeInstanceOf(S.Add1);
+    }
+  });
+
+  it("Declarations are checked", () => {
+    const declare = (src: string) => () => pieDeclarationParser.parseDeclaration(schemeParse(src)[0]);
+    expect(declare('(claim x)')).toThrow('claim is missing the argument type. It is written (claim name type).');
+    expect(declare('(define 1 2)')).toThrow('define expects a variable, but got 1.');
+    expect(declare('(data D ((x)) ())')).toThrow('data expects a binding (x A), but got (x).');
+  });
+
+});
+
+describe("Reading programs with syntax errors", () => {
+
+  const program = `(claim one Nat
+(define one 1)
+(claim two Nat))
+(define two (add1 one))
+(claim three Nat)
+(define three (add1))`;
+
+  it("Each top-level form is read on its own", () => {
+    const forms = pieDeclarationParser.parseProgram(program, 'e.pie');
+    expect(forms.map(form => form.declaration.constructor.name)).toEqual([
+      'MalformedDeclaration', 'Definition', 'Claim', 'MalformedDeclaration',
+      'Definition', 'Claim', 'MalformedDeclaration',
+    ]);
+    const malformed = forms[0].declaration as MalformedDeclaration;
+    expect([malformed.form, malformed.name]).toEqual(['claim', 'one']);
+    expect(malformed.location.syntax).toEqual({
+      source: 'e.pie', start: { line: 1, column: 1 }, end: { line: 1, column: 14 }
+    });
+  });
+
+  it("Every syntax error is reported", () => {
+    const report = checkPie(program, { source: 'e.pie' });
+    expect(report.diagnostics.filter(d => d.code === 'syntax-error').map(d => d.toString())).toEqual([
+      "e.pie:1:15: error [syntax-error]: Expected ')'",
+      "e.pie:3:16: error [syntax-error]: Unexpected ')'",
+      'e.pie:6:15: error [syntax-error]: add1 is missing the argument n. It is written (add1 n).',
+    ]);
+    expect(report.declarations.map(decl => decl.status)).toEqual([
+      'error', 'skipped', 'ok', 'error', 'skipped', 'ok', 'error',
+    ]);
+  });
+
+  it("Unterminated strings are reported", () => {
+    const report = checkPie('(claim x Nat)\n"x', { source: 'f.pie' });
+    expect(report.declarations.map(decl => decl.status)).toEqual(['ok', 'error']);
+    expect(report.diagnostics[0].toString()).toBe('f.pie:2:2: error [syntax-error]: Unexpected EOF');
+  });
+
+  it("Unterminated block comments are reported", () => {
+    const report = checkPie('(claim x Nat)\n#| oops\n(define x 1)\n(add1 x)', { source: 'h.pie' });
+    expect(report.declarations.map(decl => decl.status)).toEqual(['ok', 'error']);
+    expect(report.diagnostics.map(d => d.toString())).toEqual([
+      'h.pie:2:1: error [syntax-error]: Unterminated block comment',
+    ]);
+  });
+
+});
+
+describe("Racket Pie files", () => {
+
+  it("Files may begin with #lang pie", () => {
+    const src = `;; Chapter 1
+#lang pie
+(claim one Nat)
+(define one (add1 zero))`;
+    expect(schemeParse(src).length).toBe(2);
+    expect(checkPie(src).ok).toBe(true);
+  });
+
+  it("Other languages are reported", () => {
+    expect(() => schemeParse('#lang racket\n(+ 1 2)')).toThrow(UnsupportedFeatureError);
+    const report = checkPie('#lang racket\n(claim x Nat)', { source: 'g.pie' });
+    expect(report.diagnostics.map(d => d.toString())).toEqual([
+      'g.pie:1:1: error [syntax-error]: Pie does not support #lang racket. '
+      + 'Pie files begin with #lang pie, or with no #lang line.',
+    ]);
+  });
+
+  it("Brackets are parentheses and block comments nest", () => {
+    const src = `#lang pie
+#| The first #| and nested |# comment |#
+(claim id (Π ([A U]) (→ A A)))
+(define id (λ (A x) x))
+[id Nat 3]`;
+    expect(checkPie(src).output).toContain('3: Nat\n');
+  });
+
+  it("Racket data that Pie does not have is reported", () => {
+    const unsupported = (src: string) => {
+      try {
+        Parser.parsePie(src);
+      } catch (e) {
+        expect(e).toBeInstanceOf(UnsupportedFeatureError);
+        return e.feature;
+      }
+      throw new Error(`${src} was parsed`);
+    };
+    expect(unsupported('(the Atom "abc")')).toBe('strings');
+    expect(unsupported('#t')).toBe('#t and #f');
+    expect(unsupported('(car (cons 1 . 2))')).toBe('dotted pairs');
+    expect(unsupported('`a')).toBe('quasiquotation');
+    expect(unsupported('#(1 2)')).toBe('vector literals');
+  });
+
+});
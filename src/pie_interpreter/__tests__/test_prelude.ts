@@ -0,0 +1,64 @@
+import 'jest';
+
+import { checkPie } from '../main';
+import { preludeChapters, preludeContext, preludeNames } from '../prelude';
+import { PieSession } from '../session';
+
+describe("The prelude", () => {
+
+  it("Every chapter of the prelude is checked", () => {
+    expect(preludeContext().size).toBe(preludeNames().length);
+    for (const { chapter } of preludeChapters) {
+      expect(preludeNames(chapter).length).toBeGreaterThan(0);
+    }
+  });
+
+  it("Names are listed with the chapter that introduces them", () => {
+    expect(preludeNames(3)).toEqual([['+', 3], ['*', 3]]);
+    expect(preludeNames(9).map(([x]) => x)).toEqual(expect.arrayContaining(['incr=add1', 'double', 'twice']));
+    expect(preludeNames(9).map(([x]) => x)).not.toContain('list->vec');
+  });
+
+  it("Programs can use the prelude", () => {
+    const report = checkPie(`
+      (claim four (Vec Nat 4))
+      (define four (vec-append Nat 2 2 (vec:: 1 (vec:: 2 vecnil)) (vec:: 3 (vec:: 4 vecnil))))
+      (length Nat (vec->list Nat 4 four))
+      (* 3 (twice 2))
+      (list->vec Atom (:: 'a (:: 'b nil)))`, { ctx: preludeContext() });
+    expect(report.ok).toBe(true);
+    expect(report.declarations.map(decl => decl.output).filter(out => out !== null)).toEqual([
+      '4: Nat\n',
+      '12: Nat\n',
+      `(vec:: 'a (vec:: 'b vecnil)): (Vec Atom 2)\n`,
+    ]);
+  });
+
+  it("The prelude is given to a session only when it asks for it", () => {
+    const session = new PieSession();
+    expect(session.evaluate('(+ 1 1)')).toMatch(/^Error: /);
+    expect(session.evaluate(':prelude')).toBe('There are no names from the prelude in scope.\n');
+    expect(session.evaluate(':prelude 4')).toBe('The session is reset, with the prelude through chapter 4.\n');
+    expect(session.evaluate('(+ 1 1)')).toBe('2: Nat\n');
+    expect(session.evaluate(':prelude')).toBe(
+      'Chapter 3, Eliminate All Natural Numbers!: + *\n' +
+      'Chapter 4, Easy as Pie: elim-Pair flip twin\n'
+    );
+    expect(session.evaluate('(length Nat nil)')).toMatch(/^Error: .*length/);
+    session.evaluate(':prelude on');
+    expect(session.evaluate('(length Atom (:: \'a nil))')).toBe('1: Nat\n');
+    expect(session.evaluate(':prelude off')).toBe('The session is reset, without the prelude.\n');
+    expect(session.evaluate('(claim + Atom)')).toBe('');
+    expect(session.evaluate(':prelude 2.5')).toBe('Error: :prelude expects on, off, or the number of a chapter.\n');
+  });
+
+  it("A reset session keeps its prelude", () => {
+    const session = new PieSession();
+    session.evaluate(':prelude on');
+    session.evaluate('(claim n Nat)');
+    session.evaluate(':reset');
+    expect(session.evaluate(':claims')).toBe('There are no pending claims.\n');
+    expect(session.evaluate('(double 3)')).toBe('6: Nat\n');
+  });
+
+});
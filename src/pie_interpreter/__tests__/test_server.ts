@@ -0,0 +1,221 @@
+import 'jest';
+
+import { PassThrough } from 'stream';
+import { checkPie } from '../main';
+import { MemoryFiles, ModuleFiles } from '../modules';
+import { Connection, RpcMessage } from '../server/connection';
+import { LspHover, LspLocation, PieLanguageServer, PublishDiagnosticsParams } from '../server/server';
+
+// A server with a client at the other end of its streams.
+function startServer(files: ModuleFiles | null = null) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const connection = new Connection(input, output);
+  const exits: number[] = [];
+  new PieLanguageServer(connection, code => exits.push(code), files);
+  connection.listen();
+  const received: RpcMessage[] = [];
+  let buffer = Buffer.alloc(0);
+  output.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    let match;
+    while ((match = /^Content-Length: (\d+)\r\n\r\n/.exec(buffer.toString('latin1'))) !== null) {
+      const start = match[0].length;
+      const end = start + Number(match[1]);
+      if (buffer.length < end) {
+        break;
+      }
+      received.push(JSON.parse(buffer.subarray(start, end).toString('utf8')));
+      buffer = buffer.subarray(end);
+    }
+  });
+  let id = 0;
+  const send = (message: object) => {
+    const content = JSON.stringify({ jsonrpc: '2.0', ...message });
+    input.write(`Content-Length: ${Buffer.byteLength(content)}\r\n\r\n${content}`);
+  };
+  const request = (method: string, params: unknown) => {
+    const thisId = ++id;
+    send({ id: thisId, method, params });
+    return received.find(message => message.id === thisId)!;
+  };
+  const notify = (method: string, params: unknown) => send({ method, params });
+  return { request, notify, received, exits };
+}
+
+const uri = 'file:///example.pie';
+
+// The params of a publishDiagnostics notification.
+function published(message: RpcMessage): PublishDiagnosticsParams {
+  expect(message.method).toBe('textDocument/publishDiagnostics');
+  return message.params as PublishDiagnosticsParams;
+}
+
+const program = `(claim two Nat)
+(define two
+  (add1 1))
+(claim f (-> Nat Nat))
+(define f (λ (n) TODO))
+(add1 two)`;
+
+describe("The language server", () => {
+
+  it("Reads messages that arrive in pieces", () => {
+    const input = new PassThrough();
+    const connection = new Connection(input, new PassThrough());
+    const methods: string[] = [];
+    connection.onNotification('a', () => methods.push('a'));
+    connection.onNotification('b', () => methods.push('b'));
+    const message = (method: string) => {
+      const content = JSON.stringify({ jsonrpc: '2.0', method, params: { é: 1 } });
+      return Buffer.from(`Content-Length: ${Buffer.byteLength(content)}\r\n\r\n${content}`);
+    };
+    const first = message('a');
+    const both = Buffer.concat([first, message('b')]);
+    connection.receive(both.subarray(0, 10));
+    connection.receive(both.subarray(10, first.length + 5));
+    expect(methods).toEqual(['a']);
+    connection.receive(both.subarray(first.length + 5));
+    expect(methods).toEqual(['a', 'b']);
+  });
+
+  it("Answers malformed messages and failing handlers without stopping", () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const connection = new Connection(input, output);
+    const written: string[] = [];
+    output.on('data', (chunk: Buffer) => written.push(chunk.toString('utf8')));
+    connection.onNotification('fails', () => {
+      throw new Error('broken');
+    });
+    connection.onRequest('ping', () => 'pong');
+    const frame = (content: string) => `Content-Length: ${Buffer.byteLength(content)}\r\n\r\n${content}`;
+    connection.receive(frame('{bad'));
+    connection.receive(frame(JSON.stringify({ jsonrpc: '2.0', method: 'fails', params: {} })));
+    connection.receive(frame(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })));
+    const messages: RpcMessage[] = written.map(text => JSON.parse(text.slice(text.indexOf('{'))));
+    expect(messages[0]).toMatchObject({ id: null, error: { code: -32700 } });
+    expect(messages[1]).toMatchObject({ method: 'window/logMessage', params: { type: 1, message: 'fails: broken' } });
+    expect(messages[2]).toMatchObject({ id: 1, result: 'pong' });
+  });
+
+  it("Tells the client what it can do", () => {
+    const { request } = startServer();
+    expect((request('initialize', {}).result as { capabilities: object }).capabilities)
+      .toMatchObject({ textDocumentSync: 1, hoverProvider: true, definitionProvider: true });
+  });
+
+  it("Answers unknown requests with an error", () => {
+    const { request } = startServer();
+    expect(request('no/such/method', {}).error!.code).toBe(-32601);
+  });
+
+  it("Publishes the diagnostics and goals of a document", () => {
+    const { notify, received } = startServer();
+    notify('textDocument/didOpen', {
+      textDocument: { uri, languageId: 'pie', version: 1, text: program + `\n(the Atom 5)` }
+    });
+    expect(received.length).toBe(1);
+    const diagnostics = published(received[0]).diagnostics;
+    const error = diagnostics.find(d => d.severity === 1)!;
+    expect(error.range.start.line).toBe(6);
+    expect(error.code).toBe('type-mismatch');
+    const goal = diagnostics.find(d => d.severity === 3)!;
+    expect(goal.range.start.line).toBe(4);
+    expect(goal.message).toMatch(/n : Nat\n-+\n (Nat)/);
+  });
+
+  it("Reports a program that cannot be read", () => {
+    const { notify, received } = startServer();
+    notify('textDocument/didOpen', { textDocument: { uri, text: '(claim x' } });
+    const diagnostics = published(received[0]).diagnostics;
+    expect(diagnostics.length).toBe(1);
+    expect(diagnostics[0].severity).toBe(1);
+  });
+
+  it("Re-checks a document when it changes", () => {
+    const { notify, received } = startServer();
+    notify('textDocument/didOpen', { textDocument: { uri, text: program } });
+    notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: program.replace('TODO', 'n') }]
+    });
+    expect(received.length).toBe(2);
+    expect(published(received[0]).diagnostics.length).toBe(1);
+    expect(published(received[1]).diagnostics).toEqual([]);
+    notify('textDocument/didClose', { textDocument: { uri } });
+    expect(published(received[2]).diagnostics).toEqual([]);
+  });
+
+  it("Re-checks the documents that require a document when it changes", () => {
+    const { notify, received } = startServer(new MemoryFiles(new Map()));
+    const lib = '(claim one Nat)\n(define one 1)\n(provide one)';
+    const main = 'file:///main.pie';
+    notify('textDocument/didOpen', { textDocument: { uri: 'file:///lib.pie', text: lib } });
+    notify('textDocument/didOpen', {
+      textDocument: { uri: main, text: '(require "lib.pie")\n(claim two Nat)\n(define two (add1 one))' }
+    });
+    notify('textDocument/didChange', {
+      textDocument: { uri: 'file:///lib.pie' },
+      contentChanges: [{ text: lib.replace('(define one 1)', "(define one 'one)") }]
+    });
+    const errors = received
+      .map(published)
+      .filter(params => params.uri === main)
+      .map(params => params.diagnostics.filter(d => d.severity === 1).length);
+    expect(errors).toEqual([0, 2]);
+  });
+
+  it("Shows the type of the expression under the cursor", () => {
+    const { notify, request } = startServer();
+    notify('textDocument/didOpen', { textDocument: { uri, text: program } });
+    const hover = request('textDocument/hover', {
+      textDocument: { uri }, position: { line: 5, character: 8 }
+    }).result as LspHover;
+    expect(hover.contents.value).toBe('```pie\nNat\n```');
+    const goal = request('textDocument/hover', {
+      textDocument: { uri }, position: { line: 4, character: 18 }
+    }).result as LspHover;
+    expect(goal.contents.value).toMatch(/TODO:/);
+    expect(goal.range).toEqual({
+      start: { line: 4, character: 17 }, end: { line: 4, character: 21 }
+    });
+    const nothing = request('textDocument/hover', {
+      textDocument: { uri }, position: { line: 40, character: 0 }
+    });
+    expect(nothing.result).toBeNull();
+  });
+
+  it("Goes to the claim of a name", () => {
+    const { notify, request } = startServer();
+    notify('textDocument/didOpen', { textDocument: { uri, text: program } });
+    const definition = request('textDocument/definition', {
+      textDocument: { uri }, position: { line: 5, character: 7 }
+    }).result as LspLocation;
+    expect(definition.uri).toBe(uri);
+    expect(definition.range.start).toEqual({ line: 0, character: 0 });
+  });
+
+  it("Exits cleanly only after a shutdown", () => {
+    const first = startServer();
+    first.notify('exit', null);
+    expect(first.exits).toEqual([1]);
+    const second = startServer();
+    expect(second.request('shutdown', null).result).toBeNull();
+    second.notify('exit', null);
+    expect(second.exits).toEqual([0]);
+  });
+
+});
+
+describe("Incremental checking", () => {
+
+  it("Reuses the reports of the declarations before an edit", () => {
+    const before = checkPie(program);
+    const after = checkPie(program.replace('TODO', 'n'), { previous: before });
+    expect(after.declarations.map((decl, k) => decl === before.declarations[k]))
+      .toEqual([true, true, true, false, false]);
+    expect(after.ok).toBe(true);
+  });
+
+});
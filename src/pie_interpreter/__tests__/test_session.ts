@@ -0,0 +1,146 @@
+import 'jest';
+
+import { MemoryFiles } from '../modules';
+import { initCtx } from '../utils/context';
+import { PieSession } from '../session';
+
+describe("REPL sessions", () => {
+
+  it("Declarations are kept from one chunk to the next", () => {
+    const session = new PieSession();
+    expect(session.evaluate('(claim two Nat)')).toBe('');
+    expect(session.evaluate('(define two 2)')).toBe('');
+    expect(session.evaluate('(add1 two)')).toBe('3: Nat\n');
+  });
+
+  it("Only the results of the new chunk are printed", () => {
+    const session = new PieSession();
+    session.evaluate(`(claim one Nat)
+                      (define one 1)
+                      one`);
+    expect(session.evaluate(`'a`)).toBe(`'a: Atom\n`);
+  });
+
+  it("The declarations before an error are kept", () => {
+    const session = new PieSession();
+    const output = session.evaluate(`(claim n Nat)
+                                     (define n 'a)
+                                     (claim m Nat)`);
+    expect(output).toMatch(/^Error: .*\[type-mismatch\]/);
+    expect(session.pendingClaims().map(([x]) => x)).toEqual(['n']);
+  });
+
+  it("Pending claims are listed", () => {
+    const session = new PieSession();
+    session.evaluate(`(claim f (List Nat))
+                      (claim g Atom)
+                      (define g 'g)`);
+    expect(session.evaluate(':claims')).toBe('f : (List Nat)\n');
+  });
+
+  it("The most recent declaration can be undone", () => {
+    const session = new PieSession();
+    session.evaluate('(claim n Nat)');
+    session.evaluate('(define n 4)');
+    expect(session.evaluate(':undo')).toBe('The most recent declaration is undone.\n');
+    expect(session.evaluate(':claims')).toBe('n : Nat\n');
+    session.evaluate('(define n 5)');
+    expect(session.evaluate('n')).toBe('5: Nat\n');
+    session.undo();
+    session.undo();
+    expect(session.evaluate(':undo')).toBe('There is nothing to undo.\n');
+  });
+
+  it("Modules can be required", () => {
+    const files = new Map([['two.pie', '(claim two Nat)\n(define two 2)\n(provide two)']]);
+    const session = new PieSession(initCtx, new MemoryFiles(files));
+    expect(session.evaluate('(require "two.pie")')).toBe('');
+    expect(session.evaluate('(add1 two)')).toBe('3: Nat\n');
+    expect(session.evaluate(':undo')).toBe('The most recent declaration is undone.\n');
+    expect(session.evaluate('two')).toMatch(/^Error: .*Unknown variable two/);
+    files.set('two.pie', '(claim two Nat)\n(define two 3)\n(provide two)');
+    session.evaluate(':reset');
+    expect(session.evaluate('(require "two.pie") (add1 two)')).toBe('4: Nat\n');
+    expect(new PieSession().evaluate('(require "two.pie")')).toMatch(/^Error: .*\[module\]/);
+  });
+
+  it("A reset session forgets every declaration", () => {
+    const session = new PieSession();
+    session.evaluate('(claim n Nat)');
+    session.evaluate(':reset');
+    expect(session.evaluate(':claims')).toBe('There are no pending claims.\n');
+    expect(session.evaluate('(claim n Atom)')).toBe('');
+  });
+
+});
+
+describe("REPL commands", () => {
+
+  function session(): PieSession {
+    const session = new PieSession();
+    session.evaluate(`(claim double (-> Nat Nat))
+                      (define double (λ (n) (iter-Nat n 0 (λ (k) (add1 (add1 k))))))
+                      (claim four Nat)
+                      (define four (double 2))
+                      (claim later Atom)`);
+    return session;
+  }
+
+  it(":type gives the type of an expression", () => {
+    expect(session().evaluate(':type (double four)')).toBe('Nat\n');
+    expect(session().evaluate(':type (the (Pair Nat Atom) (cons four later))'))
+      .toMatch(/^Error: .*Unknown variable later/);
+  });
+
+  it(":norm gives the normal form of an expression", () => {
+    expect(session().evaluate(':norm (double four)')).toBe('8\n');
+    expect(session().evaluate(':norm')).toBe('Error: :norm expects an expression.\n');
+  });
+
+  it("Expressions that cannot be read are reported", () => {
+    expect(session().evaluate(':type (add1')).toBe('Error: Unexpected EOF\n');
+    expect(session().evaluate(':norm )')).toBe("Error: Unexpected ')'\n");
+  });
+
+  it(":whnf only finds the outermost constructor", () => {
+    const s = session();
+    expect(s.evaluate(':whnf (the (Pair Nat Nat) (cons (double 1) four))')).toBe('(cons (double 1) four)\n');
+    expect(s.evaluate(':whnf (add1 (double four))')).toBe('(add1 (double four))\n');
+    expect(s.evaluate(':whnf (the (-> Nat Nat) (λ (n) (double n)))')).toBe('(λ (n) (double n))\n');
+  });
+
+  it(":ctx and :print show the context", () => {
+    const s = session();
+    expect(s.evaluate(':ctx')).toBe('double : (→ Nat Nat)\nfour : Nat\nlater : Atom\n');
+    expect(s.evaluate(':print four')).toBe('four : Nat\nfour = 4\n');
+    expect(s.evaluate(':print later')).toBe('later : Atom\nlater is not yet defined.\n');
+    expect(s.evaluate(':print five')).toBe('Error: five is not in the context.\n');
+  });
+
+  it(":step shows each step to the normal form", () => {
+    const s = session();
+    expect(s.evaluate(':step four')).toBe(
+      '⟦four⟧\n  δ four\n(⟦double⟧ 2)\n  δ double\n' +
+      '⟦((λ (n) (iter-Nat n (the Nat 0) (λ (k) (add1 (add1 k))))) 2)⟧\n  β\n' +
+      '⟦(iter-Nat 2 (the Nat 0) (λ (k) (add1 (add1 k))))⟧\n  ι iter-Nat\n' +
+      '⟦((λ (k) (add1 (add1 k))) (iter-Nat 1 (the Nat 0) (λ (k) (add1 (add1 k)))))⟧\n  β\n' +
+      '(add1 (add1 ⟦(iter-Nat 1 (the Nat 0) (λ (k) (add1 (add1 k))))⟧))\n  ι iter-Nat\n' +
+      '(add1 (add1 ⟦((λ (k) (add1 (add1 k))) (iter-Nat 0\n' +
+      '  (the Nat 0)\n' +
+      '  (λ (k) (add1 (add1 k)))))⟧))\n  β\n' +
+      '(add1 (add1 (add1 (add1 ⟦(iter-Nat 0 (the Nat 0) (λ (k) (add1 (add1 k))))⟧))))\n  ι iter-Nat\n' +
+      '4\n'
+    );
+    expect(s.evaluate(":step 'a")).toBe("'a\n");
+  });
+
+  it(":strategy chooses the order that :step reduces in", () => {
+    const s = session();
+    expect(s.evaluate(':strategy')).toBe('The strategy is normal-order.\n');
+    expect(s.evaluate(':step ((the (-> Nat Nat) (λ (n) n)) (double 1))').split('\n')[1]).toBe('  β');
+    expect(s.evaluate(':strategy call-by-value')).toBe('The strategy is call-by-value.\n');
+    expect(s.evaluate(':step ((the (-> Nat Nat) (λ (n) n)) (double 1))').split('\n')[1]).toBe('  δ double');
+    expect(s.evaluate(':strategy lazy')).toBe('Error: :strategy expects normal-order or call-by-value.\n');
+  });
+
+});
@@ -0,0 +1,75 @@
+import 'jest';
+
+import { prettyPrintSteps, reductionSteps, Strategy } from '../evaluator/steps';
+import { checkPie } from '../main';
+import { Parser } from '../parser/parser';
+import { preludeContext } from '../prelude';
+import { elaborate } from '../typechecker/represent';
+import { Core, The } from '../types/core';
+import { go } from '../types/utils';
+import { prettyPrintCore } from '../unparser/pretty';
+import { Context } from '../utils/context';
+
+function elaborated(ctx: Context, str: string): Core {
+  return ((elaborate(ctx, Parser.parsePie(str)) as go<The>).result).expr;
+}
+
+function rules(ctx: Context, str: string, strategy: Strategy = 'normal-order'): string[] {
+  return [...reductionSteps(ctx, elaborated(ctx, str), strategy)]
+    .map(step => step.rule + (step.name === null ? '' : ` ${step.name}`));
+}
+
+describe("Reduction steps", () => {
+
+  it("Definitions are unfolded, λs applied and eliminators taken apart", () => {
+    const ctx = preludeContext();
+    expect(rules(ctx, '(+ 2 3)')).toEqual([
+      'δ +', 'β', 'β',
+      'ι iter-Nat', 'β', 'ι iter-Nat', 'β', 'ι iter-Nat',
+    ]);
+    const output = prettyPrintSteps(ctx, elaborated(ctx, '(+ 2 3)')).split('\n');
+    expect(output[0]).toBe('(⟦+⟧ 2 3)');
+    expect(output[1]).toBe('  δ +');
+    expect(output[6]).toBe('⟦(iter-Nat 2 (the Nat 3) (λ (k) (add1 k)))⟧');
+    expect(output[output.length - 2]).toBe('5');
+  });
+
+  it("Arguments are reduced first when reducing by value", () => {
+    const ctx = preludeContext();
+    const expr = '((the (-> Nat Nat) (λ (x) x)) (+ 1 1))';
+    expect(rules(ctx, expr)[0]).toBe('β');
+    expect(rules(ctx, expr, 'call-by-value')[0]).toBe('δ +');
+    expect(rules(ctx, expr, 'call-by-value').slice(-1)).toEqual(['β']);
+  });
+
+  it("Variables are renamed rather than captured", () => {
+    const ctx = preludeContext();
+    const steps = [...reductionSteps(ctx, elaborated(ctx, '(the (-> Nat Nat) (λ (j) (+ j 1)))'))];
+    expect(prettyPrintCore(steps[steps.length - 1].after))
+      .toBe('(λ (j) (iter-Nat j (the Nat 1) (λ (k) (add1 k))))');
+  });
+
+  it("Eliminators of declared datatypes take steps", () => {
+    const report = checkPie(`
+      (data Fin () ((n Nat))
+        (fzero ((n Nat)) (Fin (add1 n)))
+        (fsucc ((n Nat) (i (Fin n))) (Fin (add1 n))))
+      (claim fin->nat (Π ((n Nat)) (-> (Fin n) Nat)))
+      (define fin->nat
+        (λ (n i)
+          (ind-Fin n i (λ (k j) Nat) (λ (k) 0) (λ (k j ih) (add1 ih)))))`);
+    const ctx = report.context;
+    const expr = elaborated(ctx, '(fin->nat 2 (fsucc 1 (fzero 0)))');
+    const steps = [...reductionSteps(ctx, expr)];
+    expect(steps.filter(step => step.name === 'ind-Fin' && step.rule === 'ι')).toHaveLength(2);
+    expect(prettyPrintCore(steps[steps.length - 1].after)).toBe('1');
+  });
+
+  it("Long reductions are cut short", () => {
+    const ctx = preludeContext();
+    const output = prettyPrintSteps(ctx, elaborated(ctx, '(* 10 10)'), 'normal-order', 5);
+    expect(output.split('\n').filter(line => /^  [δβι]/.test(line))).toHaveLength(5);
+    expect(output).toMatch(/… and more, after 5 steps\.\n$/);
+  });
+
+});
@@ -0,0 +1,136 @@
+import 'jest';
+
+import { mkdtempSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PieWatcher, watchPie } from '../watch';
+
+function startWatcher(files = new Map<string, string>()): [PieWatcher, () => string] {
+  let out = '';
+  const watcher = new PieWatcher({
+    readFile: path => files.get(path) ?? '',
+    stdout: str => { out += str; },
+    stderr: str => { out += str; },
+  });
+  return [watcher, () => {
+    const printed = out;
+    out = '';
+    return printed;
+  }];
+}
+
+const proof = `(claim two Nat)
+(define two 2)
+(claim f (-> Nat Nat))
+(define f (λ (n) TODO))`;
+
+describe("Watch mode", () => {
+
+  it("Summarizes the errors and goals of a file", () => {
+    const [watcher, printed] = startWatcher();
+    expect(watcher.update('a.pie', proof + `\n(the Atom 1)`)).toBe(true);
+    expect(printed()).toMatch(new RegExp(
+      '^a\\.pie: 1 error, 1 goal \\(checked 5 of 5 declarations\\)\n' +
+      '  a\\.pie:5:\\d+: error \\[type-mismatch\\]: .*\n' +
+      '  a\\.pie:4:\\d+: goal Nat\n' +
+      '1 error and 1 goal in 1 file\\.\n$'
+    ));
+  });
+
+  it("Checks only from the first edited declaration", () => {
+    const [watcher, printed] = startWatcher();
+    watcher.update('a.pie', proof);
+    printed();
+    watcher.update('a.pie', proof.replace('TODO', 'n'));
+    expect(printed()).toBe('a.pie: ok (checked 1 of 4 declarations)\n0 errors and 0 goals in 1 file.\n');
+  });
+
+  it("Does not check a file that has not changed", () => {
+    const [watcher, printed] = startWatcher();
+    watcher.update('a.pie', proof);
+    watcher.update('b.pie', '(claim x Nat)');
+    printed();
+    expect(watcher.update('a.pie', proof)).toBe(false);
+    expect(printed()).toBe('');
+    watcher.forget('b.pie');
+    expect(printed()).toBe('b.pie: removed\n0 errors and 1 goal in 1 file.\n');
+  });
+
+  it("Checks the files that require a module again when it changes", () => {
+    const lib = '(claim one Nat)\n(define one 1)\n(provide one)';
+    const files = new Map([['lib.pie', lib]]);
+    const [watcher, printed] = startWatcher(files);
+    watcher.update('lib.pie', lib);
+    watcher.update('main.pie', '(require "lib.pie")\n(claim two Nat)\n(define two (add1 one))');
+    printed();
+    files.set('lib.pie', lib.replace('(define one 1)', "(define one 'one)"));
+    watcher.update('lib.pie', files.get('lib.pie')!);
+    const lines = printed().split('\n');
+    expect(lines[0]).toBe('lib.pie: 1 error, 0 goals (checked 2 of 3 declarations)');
+    expect(lines.filter(line => line.startsWith('main.pie:'))).toEqual([
+      'main.pie: 2 errors, 0 goals (checked 3 of 3 declarations)'
+    ]);
+  });
+
+  it("Reports files that are not Pie programs", () => {
+    const [watcher, printed] = startWatcher();
+    watcher.update('a.pie', '(claim');
+    expect(printed()).toBe(
+      'a.pie: 1 error, 0 goals (checked 1 of 1 declaration)\n'
+      + "  a.pie:1:7: error [syntax-error]: Expected ')'\n"
+      + '1 error and 0 goals in 1 file.\n'
+    );
+  });
+
+  it("Checks every Pie file in a directory when it starts", () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pie-watch-'));
+    try {
+      writeFileSync(join(dir, 'a.pie'), proof);
+      writeFileSync(join(dir, 'b.pie'), '(claim x Nat)\n(define x 1)');
+      writeFileSync(join(dir, 'notes.txt'), 'not Pie');
+      let out = '';
+      const stop = watchPie(dir, {
+        readFile: path => readFileSync(path, 'utf8'),
+        stdout: str => { out += str; },
+        stderr: str => { out += str; },
+      });
+      stop();
+      expect(out).toContain(`${join(dir, 'a.pie')}: 0 errors, 1 goal`);
+      expect(out).toContain(`${join(dir, 'b.pie')}: ok`);
+      expect(out).toMatch(/0 errors and 1 goal in 2 files\.\n$/);
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("Checks a file again after it is saved by replacing it", async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pie-watch-'));
+    const file = join(dir, 'a.pie');
+    try {
+      writeFileSync(file, proof);
+      let out = '';
+      const stop = watchPie(file, {
+        readFile: path => readFileSync(path, 'utf8'),
+        stdout: str => { out += str; },
+        stderr: str => { out += str; },
+      });
+      try {
+        for (const text of [proof.replace('TODO', 'n'), proof.replace('TODO', 'two')]) {
+          writeFileSync(join(dir, 'a.pie.tmp'), text);
+          renameSync(join(dir, 'a.pie.tmp'), file);
+          await new Promise(resolve => setTimeout(resolve, 500));
+        }
+      } finally {
+        stop();
+      }
+      expect(out.split('\n').filter(line => line.startsWith(file))).toEqual([
+        `${file}: 0 errors, 1 goal (checked 4 of 4 declarations)`,
+        `${file}: ok (checked 1 of 4 declarations)`,
+        `${file}: ok (checked 1 of 4 declarations)`,
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+});
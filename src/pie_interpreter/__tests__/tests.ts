@@ -1,10 +1,12 @@
 import 'jest';
 
 import { Parser } from '../parser/parser';
-import { go } from '../types/utils';
+import { go, stop } from '../types/utils';
 import { initCtx } from '../utils/context';
 import { normType, represent } from '../typechecker/represent';
 import * as C from '../types/core';
+import { evaluatePie } from '../main';
+import { prettyPrintCore } from '../unparser/pretty';
 
 
 const parsePie = Parser.parsePie;
@@ -121,7 +123,7 @@ describe("Pie language tests", () => {
 
   it("which-Nat with zero argument", () => {
     const src = parsePie('(which-Nat 0 2 (lambda (x) x))');
-    const actual = new go(new C.The(new C.Nat(), new C.Add1(new C.Add1(new C.Zero()))));
+    const actual = new go(new C.The(new C.Nat(), new C.NatLit(2n)));
     const context = new Map();
     expect(represent(context, src)).toEqual(actual);
   });
@@ -177,7 +179,7 @@ describe("Higher-order function tests", () => {
           new C.Lambda('f', 
             new C.WhichNat(
               new C.VarName('x'),
-              new C.The(new C.Nat(), new C.Add1(new C.Add1(new C.Zero()))),
+              new C.The(new C.Nat(), new C.NatLit(2n)),
               new C.Lambda('n', new C.Application(new C.VarName('f'), new C.VarName('n')))
             )
           )
@@ -228,7 +230,7 @@ describe("Advanced Pie language features", () => {
 
   it("ind-Nat with constant values", () => {
     const src = parsePie('(ind-Nat (add1 (add1 zero)) (lambda (x) Nat) (add1 zero) (lambda (n-1 ih) (add1 ih)))');
-    const actual = new go(new C.The(new C.Nat(), new C.Add1(new C.Add1(new C.Add1(new C.Zero())))));
+    const actual = new go(new C.The(new C.Nat(), new C.NatLit(3n)));
     //console.log('result', util.inspect(represent(initCtx, src), false, null, true));
     const context = new Map();
     expect(represent(context, src)).toEqual(actual);
@@ -530,3 +532,165 @@ describe("Atom and Pair tests", () => {
   }); */
 
 }); 
+
+describe("Natural number literals", () => {
+
+  it("Large numeral is elaborated without add1 layers", () => {
+    const src = parsePie('(the Nat 1000000)');
+    const actual = new go(new C.The(new C.Nat(), new C.NatLit(1000000n)));
+    expect(represent(initCtx, src)).toEqual(actual);
+  });
+
+  it("which-Nat peels one add1 off a large numeral", () => {
+    const src = parsePie('(which-Nat 1000000 0 (lambda (n-1) n-1))');
+    const actual = new go(new C.The(new C.Nat(), new C.NatLit(999999n)));
+    expect(represent(initCtx, src)).toEqual(actual);
+  });
+
+  it("Numerals and add1 chains are the same Nat", () => {
+    const src = parsePie('(the (= Nat 3 (add1 (add1 (add1 zero)))) (same 3))');
+    const actual = `(the (= Nat 3 3) (same 3))`;
+    expect(normalize((represent(initCtx, src) as go<C.Core>).result.prettyPrint())).toEqual(actual);
+  });
+
+  it("add1 around a numeral reads back as a numeral", () => {
+    const src = parsePie('(rec-Nat 2 100000 (λ (n-1 ih) (add1 ih)))');
+    const actual = new go(new C.The(new C.Nat(), new C.NatLit(100002n)));
+    expect(represent(initCtx, src)).toEqual(actual);
+  });
+
+});
+
+describe("ind-Vec on neutral vectors", () => {
+
+  it("The entry in the step is an entry, not a vector", () => {
+    const src = `(claim firsts (Π ((n Nat) (es (Vec (→ Nat Nat) n))) (List Nat)))
+                 (define firsts
+                   (λ (n es)
+                     (ind-Vec n es (λ (k xs) (List Nat)) nil (λ (k e es ih) (:: (e 0) ih)))))`;
+    expect(normalize(evaluatePie(src))).toContain('(e 0)');
+  });
+
+  it("The base has the type of the motive at zero", () => {
+    const src = `(claim copy (Π ((es (Vec Atom 2))) (Vec Atom 2)))
+                 (define copy
+                   (λ (es)
+                     (ind-Vec 2 es (λ (k xs) (Vec Atom k)) vecnil (λ (k e es ih) (vec:: e ih)))))`;
+    expect(normalize(evaluatePie(src))).toContain('(Vec Atom k)) vecnil (λ (k e es₁ ih) (vec:: e ih))');
+  });
+
+  it("The types of the length and the target may be delayed", () => {
+    const src = `(claim Id (→ U U))
+                 (define Id (λ (X) X))
+                 (claim len (Π ((n Nat) (es (Id (Vec Atom n)))) Nat))
+                 (define len (λ (n es) (ind-Vec n es (λ (k xs) Nat) 0 (λ (k e es ih) (add1 ih)))))`;
+    expect(normalize(evaluatePie(src)))
+      .toContain('len= (λ (n es) (ind-Vec n es (λ (k xs) Nat) 0 (λ (k e es₁ ih) (add1 ih))))');
+  });
+
+});
+
+describe("Universe hierarchy", () => {
+
+  it("U is a U1", () => {
+    const src = parsePie('(the U1 U)');
+    const actual = new go(new C.The(new C.Universe(1), new C.Universe(0)));
+    expect(represent(initCtx, src)).toEqual(actual);
+  });
+
+  it("U0 is the same as U", () => {
+    const src = parsePie('(the (= U1 U0 U) (same U))');
+    const actual = `(the (= U1 U U) (same U))`;
+    expect(normalize((represent(initCtx, src) as go<C.Core>).result.prettyPrint())).toEqual(actual);
+  });
+
+  it("Quantifying over U gives a type in U1", () => {
+    const src = parsePie('(the U1 (Π ((A U)) (-> A A)))');
+    const actual = `(the U1 (Π (A U) (Π (x A) A)))`;
+    expect(normalize((represent(initCtx, src) as go<C.Core>).result.prettyPrint())).toEqual(actual);
+  });
+
+  it("Universes are cumulative", () => {
+    const src = parsePie('(the U3 (Pair U1 (-> U U)))');
+    const actual = `(the U3 (Σ (a U1) (Π (x U) U)))`;
+    expect(normalize((represent(initCtx, src) as go<C.Core>).result.prettyPrint())).toEqual(actual);
+  });
+
+  it("Functions into U are covariant in their result", () => {
+    const src = parsePie('(the (-> Nat U1) (the (-> Nat U) (λ (n) Nat)))');
+    const actual = `(the (Π (x Nat) U1) (λ (n) Nat))`;
+    expect(normalize((represent(initCtx, src) as go<C.Core>).result.prettyPrint())).toEqual(actual);
+  });
+
+  it("Type constructors can be claimed", () => {
+    const src = `(claim Maybe (-> U U))
+                 (define Maybe (λ (A) (Either A Trivial)))
+                 (the (Maybe Nat) (left 3))`;
+    expect(evaluatePie(src)).toContain('(left 3): (Either Nat Trivial)\n');
+  });
+
+  it("U is not a U", () => {
+    const src = parsePie('(the U U)');
+    const result = represent(initCtx, src);
+    expect(result).toBeInstanceOf(stop);
+    expect((result as stop).message.toString()).toMatch(/universe level 1 exceeds level 0/);
+  });
+
+});
+
+describe("TODO goals", () => {
+
+  it("Each TODO is reported with its local hypotheses", () => {
+    const src = `(claim f (Π ((n Nat) (A U)) (-> A (Pair A Nat))))
+(define f (λ (n A a) (cons a TODO)))`;
+    const output = evaluatePie(src);
+    expect(output).toMatch(/2:\d+: TODO:\n n : Nat\n A : U\n a : A\n-{10}\n Nat\n/);
+  });
+
+  it("Every TODO is reported", () => {
+    const src = `(claim g (-> Nat Atom))
+(define g (λ (n) TODO))
+(claim h Nat)
+(define h TODO)`;
+    const output = evaluatePie(src);
+    expect(output).toMatch(/2:\d+: TODO:\n n : Nat\n-{10}\n Atom\n/);
+    expect(output).toMatch(/4:\d+: TODO:\n-{10}\n Nat\n/);
+  });
+
+});
+
+describe("Pretty printing", () => {
+
+  function print(expr: string, width?: number): string {
+    const core = (represent(initCtx, parsePie(expr)) as go<C.The>).result;
+    return prettyPrintCore(core.expr, { width });
+  }
+
+  it("Numerals are folded", () => {
+    expect(prettyPrintCore(new C.Add1(new C.Add1(new C.Zero())))).toBe('2');
+    expect(prettyPrintCore(new C.Add1(new C.Add1(new C.VarName('n'))))).toBe('(add1 (add1 n))');
+  });
+
+  it("Nested binders are collapsed", () => {
+    expect(print('(the (-> Nat Nat Nat) (λ (x) (λ (y) x)))')).toBe('(λ (x y) x)');
+    expect(print('(Π ((A U) (a A)) (= A a a))')).toBe('(Π ((A U) (a A)) (= A a a))');
+    expect(print('(Σ ((A U) (a A)) (= A a a))')).toBe('(Σ ((A U) (a A)) (= A a a))');
+  });
+
+  it("Unused variables are not shown", () => {
+    expect(print('(Π ((A U) (n Nat)) (-> A Nat A))')).toBe('(Π ((A U)) (→ Nat A Nat A))');
+    expect(print('(Σ ((n Nat)) Atom)')).toBe('(Pair Nat Atom)');
+  });
+
+  it("Long expressions are broken across lines", () => {
+    const expr = '(Π ((A U) (B U) (C U)) (-> (-> A B) (-> B C) (Either A (Pair B C)) C))';
+    expect(print(expr)).toBe('(Π ((A U) (B U) (C U)) (→ (→ A B) (→ B C) (Either A (Pair B C)) C))');
+    expect(print(expr, 40)).toBe(
+`(Π ((A U) (B U) (C U))
+  (→ (→ A B)
+    (→ B C)
+    (Either A (Pair B C))
+    C))`);
+  });
+
+});
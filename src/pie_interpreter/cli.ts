@@ -0,0 +1,277 @@
+import { checkPie, PieReport } from './main';
+import { readBack } from './evaluator/utils';
+import { prettyPrintSteps, reductionSteps, Step, Strategy } from './evaluator/steps';
+import { ModuleLoader, resolvePath } from './modules';
+import { Parser } from './parser/parser';
+import { parseFailure } from './parser/parser-error';
+import { elaborate } from './typechecker/represent';
+import { Core, The } from './types/core';
+import { Diagnostic, DiagnosticCode, go, Perhaps, Severity, stop } from './types/utils';
+import { prettyPrintCore } from './unparser/pretty';
+import { Goal, localHypotheses, prettyPrintGoal } from './unparser/goals';
+import { Claim, Define } from './utils/context';
+import { SourceLocation } from './utils/locations';
+
+/*
+  ## The command line ##
+
+    pie check <file> [--json]             Check a file.
+    pie run <file> [--json]               Check a file and print the
+                                          value of each expression.
+    pie normalize <file> <name> [--json]  Print the normal form of a
+                                          definition.
+    pie step <file> <expression> [--call-by-value] [--json]
+                                          Print each step from an
+                                          expression to its normal
+                                          form, in normal order or by
+                                          value.
+    pie watch <file or directory>         Check files whenever they
+                                          are saved.
+    pie lsp                               Run the language server.
+
+  Every problem is reported at file:line:column. The exit code is 0
+  when the file is fine, 1 when it has errors, and 2 when the command
+  itself is wrong or the file cannot be read.
+
+  With --json, the report is printed as a single JSON object instead.
+*/
+
+// The most steps that step prints.
+const stepLimit = 100;
+
+export interface CliIO {
+  readFile(path: string): string;
+  stdout(str: string): void;
+  stderr(str: string): void;
+}
+
+export const usage = `Usage:
+  pie check <file> [--json]
+  pie run <file> [--json]
+  pie normalize <file> <name> [--json]
+  pie step <file> <expression> [--call-by-value] [--json]
+  pie watch <file or directory>
+  pie lsp
+`;
+
+export function runCli(args: string[], io: CliIO): number {
+  const json = args.includes('--json');
+  const strategy: Strategy = args.includes('--call-by-value') ? 'call-by-value' : 'normal-order';
+  const [command, file, ...rest] = args.filter(arg => arg !== '--json' && arg !== '--call-by-value');
+  const arity = command === 'normalize' || command === 'step' ? 1 : 0;
+  if (!['check', 'run', 'normalize', 'step'].includes(command) || file === undefined || rest.length !== arity) {
+    io.stderr(usage);
+    return 2;
+  }
+  let text: string;
+  try {
+    text = io.readFile(file);
+  } catch (e) {
+    io.stderr(`pie: cannot read ${file}: ${e instanceof Error ? e.message : e}\n`);
+    return 2;
+  }
+  let report: PieReport;
+  try {
+    report = checkPie(text, { source: file, modules: fileModules(io) });
+  } catch (e) {
+    // The file could not be read as a Pie program.
+    const { line, column, message } = parseFailure(e);
+    if (json) {
+      io.stdout(JSON.stringify({
+        ok: false,
+        diagnostics: [{ severity: 'error', file, line, column, message }]
+      }) + '\n');
+    } else {
+      io.stderr(`${file}:${line}:${column}: error: ${message}\n`);
+    }
+    return 1;
+  }
+  if (command === 'normalize') {
+    return normalize(report, file, rest[0], json, io);
+  } else if (command === 'step') {
+    return step(report, file, rest[0], strategy, json, io);
+  }
+  const values = command === 'run'
+    ? report.declarations.filter(decl => decl.normal !== null).map(decl => decl.normal!)
+    : [];
+  if (json) {
+    const out: ReportJson = {
+      ok: report.ok,
+      diagnostics: report.diagnostics.map(diagnosticToJson),
+      goals: report.goals.map(goalToJson),
+    };
+    if (command === 'run') {
+      out.values = values.map(the => ({
+        value: prettyPrintCore(the.expr),
+        type: prettyPrintCore(the.type),
+      }));
+    }
+    io.stdout(JSON.stringify(out) + '\n');
+  } else {
+    for (const diagnostic of report.diagnostics) {
+      io.stderr(`${diagnostic}\n`);
+    }
+    for (const goal of report.goals) {
+      io.stderr(`${file}:${prettyPrintGoal(goal)}`);
+    }
+    for (const the of values) {
+      io.stdout(`${prettyPrintCore(the.expr)}: ${prettyPrintCore(the.type)}\n`);
+    }
+  }
+  return report.ok ? 0 : 1;
+}
+
+// Report a failure of normalize or step.
+function failure(file: string, message: string, json: boolean, io: CliIO): number {
+  if (json) {
+    io.stdout(JSON.stringify({ ok: false, diagnostics: [{ severity: 'error', file, message }] }) + '\n');
+  } else {
+    io.stderr(`pie: ${message}\n`);
+  }
+  return 1;
+}
+
+// Report the errors of a file whose definitions are needed.
+function hasErrors(report: PieReport, file: string, json: boolean, io: CliIO): number {
+  for (const diagnostic of report.diagnostics) {
+    io.stderr(`${diagnostic}\n`);
+  }
+  return failure(file, `${file} has errors.`, json, io);
+}
+
+function normalize(report: PieReport, file: string, name: string, json: boolean, io: CliIO): number {
+  const fail = (message: string) => failure(file, message, json, io);
+  if (!report.ok) {
+    return hasErrors(report, file, json, io);
+  }
+  const ctx = report.context;
+  const binder = ctx.get(name);
+  if (binder instanceof Claim) {
+    return fail(`${name} is claimed but not defined.`);
+  } else if (!(binder instanceof Define)) {
+    return fail(`${name} is not defined in ${file}.`);
+  }
+  const normal = new The(binder.type.readBackType(ctx), readBack(ctx, binder.type, binder.value));
+  if (json) {
+    const [type, value] = [prettyPrintCore(normal.type), prettyPrintCore(normal.expr)];
+    io.stdout(JSON.stringify({ ok: true, name, type, value }) + '\n');
+  } else {
+    io.stdout(`${prettyPrintCore(normal)}\n`);
+  }
+  return 0;
+}
+
+function step(
+  report: PieReport,
+  file: string,
+  expr: string,
+  strategy: Strategy,
+  json: boolean,
+  io: CliIO
+): number {
+  if (!report.ok) {
+    return hasErrors(report, file, json, io);
+  }
+  const ctx = report.context;
+  let result: Perhaps<The>;
+  try {
+    result = elaborate(ctx, Parser.parsePie(expr));
+  } catch (e) {
+    return failure(file, parseFailure(e).message, json, io);
+  }
+  if (result instanceof stop) {
+    return failure(file, result.diagnostic.message.toString(), json, io);
+  }
+  const the = (result as go<The>).result;
+  if (!json) {
+    io.stdout(prettyPrintSteps(ctx, the.expr, strategy, stepLimit));
+    return 0;
+  }
+  const steps: Step[] = [];
+  let normal: Core | null = the.expr;
+  for (const step of reductionSteps(ctx, the.expr, strategy)) {
+    if (steps.length === stepLimit) {
+      normal = null;
+      break;
+    }
+    steps.push(step);
+    normal = step.after;
+  }
+  io.stdout(JSON.stringify({
+    ok: true,
+    steps: steps.map(step => ({
+      rule: step.rule,
+      name: step.name,
+      expression: prettyPrintCore(step.before),
+      redex: prettyPrintCore(step.redex),
+    })),
+    // Left out when there are more steps than are shown.
+    normal: normal === null ? null : prettyPrintCore(normal),
+  }) + '\n');
+  return 0;
+}
+
+// Modules that are read from files, with paths relative to the file that requires them.
+export function fileModules(io: CliIO): ModuleLoader {
+  return new ModuleLoader({ resolve: resolvePath, read: path => io.readFile(path) });
+}
+
+// The report of check and run with --json.
+interface ReportJson {
+  ok: boolean;
+  diagnostics: DiagnosticJson[];
+  goals: GoalJson[];
+  // The value of each expression, which only run gives.
+  values?: { value: string, type: string }[];
+}
+
+interface SpanJson {
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+interface DiagnosticJson extends SpanJson {
+  severity: Severity;
+  code: DiagnosticCode;
+  message: string;
+  related: (SpanJson & { message: string })[];
+}
+
+interface GoalJson extends SpanJson {
+  hypotheses: string[];
+  type: string;
+}
+
+function spanToJson(loc: SourceLocation): SpanJson {
+  return {
+    file: loc.source,
+    line: loc.startLine,
+    column: loc.startColumn,
+    endLine: loc.endLine,
+    endColumn: loc.endColumn,
+  };
+}
+
+function diagnosticToJson(diagnostic: Diagnostic): DiagnosticJson {
+  return {
+    severity: diagnostic.severity,
+    code: diagnostic.code,
+    ...spanToJson(diagnostic.location),
+    message: diagnostic.message.toString(),
+    related: diagnostic.related.map(info => ({
+      ...spanToJson(info.location),
+      message: info.message.toString(),
+    })),
+  };
+}
+
+function goalToJson(goal: Goal): GoalJson {
+  return {
+    ...spanToJson(goal.location.locationToSrcLoc()),
+    hypotheses: localHypotheses(goal.context),
+    type: prettyPrintCore(goal.type),
+  };
+}
@@ -2,14 +2,49 @@ import * as V from "../types/value";
 import * as N from "../types/neutral";
 import { HigherOrderClosure } from '../types/utils';
 import { natEqual } from './utils';
+import { applyMotive, bindTelescope, DataDescription } from '../types/data';
+import { spendStep } from './limits';
 
 /*
   ### The Evaluators ###
 
   Functions whose names begin with "do-" are helpers that implement
   the corresponding eliminator.
+
+  The eliminators for numbers, lists and vectors walk their targets
+  with loops rather than by recursion, so that numbers and lists too
+  deep for the JavaScript stack can be eliminated: first the add1s or
+  ::s at the top of the target are found, then the base is found for
+  what is under them, and then the step is applied once for each
+  layer, from the inside out.
 */
 
+// The add1s at the top of a number, from the outside in, and what is under them.
+function add1Layers(target: V.Value): [V.Add1[], V.Value] {
+  const layers: V.Add1[] = [];
+  let rest = target;
+  let restNow = rest.now();
+  while (restNow instanceof V.Add1) {
+    layers.push(restNow);
+    rest = restNow.smaller;
+    restNow = rest.now();
+  }
+  return [layers, rest];
+}
+
+// The ::s at the top of a list, from the outside in, and what is under them.
+function consLayers(target: V.Value): [V.ListCons[], V.Value] {
+  const layers: V.ListCons[] = [];
+  let rest = target;
+  let restNow = rest.now();
+  while (restNow instanceof V.ListCons) {
+    layers.push(restNow);
+    rest = restNow.tail;
+    restNow = rest.now();
+  }
+  return [layers, rest];
+}
+
 /**
  * 
  * @param operator 
@@ -19,6 +54,7 @@ import { natEqual } from './utils';
 export function doApp(operator: V.Value, operand: V.Value): V.Value {
   const operatorNow = operator.now();
   if (operatorNow instanceof V.Lambda) {
+    spendStep();
     return operatorNow.body.valOfClosure(operand);
   } else if (operatorNow instanceof V.Neutral) {
     const typeNow = operatorNow.type.now();
@@ -27,7 +63,8 @@ export function doApp(operator: V.Value, operand: V.Value): V.Value {
         typeNow.resultType.valOfClosure(operand),
         new N.Application(
           operatorNow.neutral,
-          new N.Norm(typeNow.argType, operand)
+          new N.Norm(typeNow.argType, operand),
+          typeNow.implicit
         )
       );
     }
@@ -71,14 +108,18 @@ export function doWhichNat(target: V.Value, baseType: V.Value, base: V.Value, st
 }
 
 export function doIterNat(target: V.Value, baseType: V.Value, base: V.Value, step: V.Value): V.Value {
+  const [layers, rest] = add1Layers(target);
+  let result = iterNatBase(rest, baseType, base, step);
+  for (let k = layers.length - 1; k >= 0; k--) {
+    result = doApp(step, result);
+  }
+  return result;
+}
+
+function iterNatBase(target: V.Value, baseType: V.Value, base: V.Value, step: V.Value): V.Value {
   const targetNow = target.now();
   if (targetNow instanceof V.Zero) {
     return base;
-  } else if (targetNow instanceof V.Add1) {
-    return doApp(
-      step,
-      doIterNat(targetNow.smaller, baseType, base, step)
-    );
   } else if (targetNow instanceof V.Neutral) {
     const typeNow = targetNow.type.now();
     if (typeNow instanceof V.Nat) {
@@ -99,14 +140,18 @@ export function doIterNat(target: V.Value, baseType: V.Value, base: V.Value, ste
 }
 
 export function doRecNat(target: V.Value, baseType: V.Value, base: V.Value, step: V.Value): V.Value {
+  const [layers, rest] = add1Layers(target);
+  let result = recNatBase(rest, baseType, base, step);
+  for (let k = layers.length - 1; k >= 0; k--) {
+    result = doApp(doApp(step, layers[k].smaller), result);
+  }
+  return result;
+}
+
+function recNatBase(target: V.Value, baseType: V.Value, base: V.Value, step: V.Value): V.Value {
   const targetNow = target.now();
   if (targetNow instanceof V.Zero) {
     return base;
-  } else if (targetNow instanceof V.Add1) {
-    return doApp(
-      doApp(step, targetNow.smaller),
-      doRecNat(targetNow.smaller, baseType, base, step),
-    );
   } else if (targetNow instanceof V.Neutral) {
     const typeNow = targetNow.type.now();
     if (typeNow instanceof V.Nat) {
@@ -140,14 +185,18 @@ export function doRecNat(target: V.Value, baseType: V.Value, base: V.Value, step
 }
 
 export function doIndNat(target: V.Value, motive: V.Value, base: V.Value, step: V.Value): V.Value {
+  const [layers, rest] = add1Layers(target);
+  let result = indNatBase(rest, motive, base, step);
+  for (let k = layers.length - 1; k >= 0; k--) {
+    result = doApp(doApp(step, layers[k].smaller), result);
+  }
+  return result;
+}
+
+function indNatBase(target: V.Value, motive: V.Value, base: V.Value, step: V.Value): V.Value {
   const targetNow = target.now();
   if (targetNow instanceof V.Zero) {
     return base;
-  } else if (targetNow instanceof V.Add1) {
-    return doApp(
-      doApp(step, targetNow.smaller),
-      doIndNat(targetNow.smaller, motive, base, step)
-    );
   } else if (targetNow instanceof V.Neutral) {
     const typeNow = targetNow.type.now();
     if (typeNow instanceof V.Nat) {
@@ -225,20 +274,18 @@ export function doCdr(pair: V.Value): V.Value {
 
 
 export function doIndList(target: V.Value, motive: V.Value, base: V.Value, step: V.Value): V.Value {
+  const [layers, rest] = consLayers(target);
+  let result = indListBase(rest, motive, base, step);
+  for (let k = layers.length - 1; k >= 0; k--) {
+    result = doApp(doApp(doApp(step, layers[k].head), layers[k].tail), result);
+  }
+  return result;
+}
+
+function indListBase(target: V.Value, motive: V.Value, base: V.Value, step: V.Value): V.Value {
   const targetNow = target.now();
   if (targetNow instanceof V.Nil) {
     return base;
-  } else if (targetNow instanceof V.ListCons) {
-    return doApp(
-      doApp(
-        doApp(
-          step,
-          targetNow.head
-        ),
-        targetNow.tail
-      ),
-      doIndList(targetNow.tail, motive, base, step)
-    );
   } else if (targetNow instanceof V.Neutral) {
     const typeNow = targetNow.type.now();
     if (typeNow instanceof V.List) {
@@ -286,18 +333,18 @@ export function doIndList(target: V.Value, motive: V.Value, base: V.Value, step:
 }
 
 export function doRecList(target: V.Value, baseType: V.Value, base: V.Value, step: V.Value): V.Value {
+  const [layers, rest] = consLayers(target);
+  let result = recListBase(rest, baseType, base, step);
+  for (let k = layers.length - 1; k >= 0; k--) {
+    result = doApp(doApp(doApp(step, layers[k].head), layers[k].tail), result);
+  }
+  return result;
+}
+
+function recListBase(target: V.Value, baseType: V.Value, base: V.Value, step: V.Value): V.Value {
   const targetNow = target.now();
   if (targetNow instanceof V.Nil) {
     return base;
-  } else if (targetNow instanceof V.ListCons) {
-    const head = targetNow.head;
-    const tail = targetNow.tail;
-    return doApp(
-      doApp(
-        doApp(step, head),
-        tail),
-      doRecList(tail, baseType, base, step)
-    );
   } else if (targetNow instanceof V.Neutral) {
     const typeNow = targetNow.type.now();
     if (typeNow instanceof V.List) {
@@ -601,7 +648,7 @@ export function indVecStepType(Ev: V.Value, mot: V.Value): V.Value {
     new HigherOrderClosure(
       (k) => new V.Pi(
         "e",
-        new V.Vec(Ev, k),
+        Ev,
         new HigherOrderClosure(
           (e) => new V.Pi(
             "es",
@@ -628,30 +675,33 @@ export function indVecStepType(Ev: V.Value, mot: V.Value): V.Value {
 
 
 export function doIndVec(len: V.Value, vec: V.Value, motive: V.Value, base: V.Value, step: V.Value): V.Value {
+  // The add1s at the top of the length and the vec::s at the top of the vector.
+  const layers: [V.Add1, V.VecCons][] = [];
+  let lenNow = len.now();
+  let vecNow = vec.now();
+  while (lenNow instanceof V.Add1 && vecNow instanceof V.VecCons) {
+    layers.push([lenNow, vecNow]);
+    len = lenNow.smaller;
+    vec = vecNow.tail;
+    lenNow = len.now();
+    vecNow = vec.now();
+  }
+  let result = indVecBase(len, vec, motive, base, step);
+  for (let k = layers.length - 1; k >= 0; k--) {
+    const [lenLayer, vecLayer] = layers[k];
+    result = doApp(doApp(doApp(doApp(step, lenLayer.smaller), vecLayer.head), vecLayer.tail), result);
+  }
+  return result;
+}
+
+function indVecBase(len: V.Value, vec: V.Value, motive: V.Value, base: V.Value, step: V.Value): V.Value {
   const lenNow = len.now();
   const vecNow = vec.now();
   if (lenNow instanceof V.Zero && vecNow instanceof V.VecNil) {
     return base;
-  } else if (lenNow instanceof V.Add1 && vecNow instanceof V.VecCons) {
-    return doApp(
-      doApp(
-        doApp(
-          doApp(step, lenNow.smaller),
-          vecNow.head
-        ),
-        doTail(vec)
-      ),
-      doIndVec(
-        lenNow.smaller,
-        vecNow.tail,
-        motive,
-        base,
-        step
-      )
-    );
   } else if (lenNow instanceof V.Neutral && vecNow instanceof V.Neutral
-    && lenNow.type instanceof V.Nat && vecNow.type instanceof V.Vec) {
-    const entryType = vecNow.type.entryType;
+    && lenNow.type.now() instanceof V.Nat && vecNow.type.now() instanceof V.Vec) {
+    const entryType = (vecNow.type.now() as V.Vec).entryType;
     return new V.Neutral(
       doApp(doApp(motive, len), vec),
       new N.IndVec12(
@@ -681,11 +731,11 @@ export function doIndVec(len: V.Value, vec: V.Value, motive: V.Value, base: V.Va
         ),
         new N.Norm(
           indVecStepType(
-            vecNow.type.entryType, motive), step)
+            entryType, motive), step)
       )
     );
-  } else if (natEqual(lenNow, len) && vecNow instanceof V.Neutral && vecNow.type instanceof V.Vec) {
-    const entryType = vecNow.type.entryType;
+  } else if (natEqual(lenNow, len) && vecNow instanceof V.Neutral && vecNow.type.now() instanceof V.Vec) {
+    const entryType = (vecNow.type.now() as V.Vec).entryType;
     return new V.Neutral(
       doApp(doApp(motive, len), vec),
       new N.IndVec2(
@@ -709,8 +759,8 @@ export function doIndVec(len: V.Value, vec: V.Value, motive: V.Value, base: V.Va
         ),
         new N.Norm(
           doApp(
-            doApp(motive, new V.Nat()),
-            new V.VecNil
+            doApp(motive, new V.Zero()),
+            new V.VecNil()
           ),
           base),
         new N.Norm(
@@ -772,4 +822,142 @@ export function doIndEither(target: V.Value, motive: V.Value, left: V.Value, rig
     }
   }
   throw new Error(`invalid input for indEither: ${[target, motive, left, right]}`);
+}
+
+/*
+  The eliminator of a user-declared datatype applies the method for
+  the target's constructor to the constructor's fields, followed by
+  the inductive hypotheses for its recursive fields. The eliminations
+  that wait for the hypotheses of their recursive fields are kept on
+  a stack of their own, so that deep values can be eliminated.
+*/
+export function doIndData(
+  desc: DataDescription,
+  params: V.Value[],
+  indices: V.Value[],
+  target: V.Value,
+  motive: V.Value,
+  methods: V.Value[]
+): V.Value {
+  return finishIndData(
+    eliminateData(desc, params, indices, target, motive, methods),
+    desc, motive, methods
+  );
+}
+
+/*
+  The elimination of a constructor: the method applied to the fields
+  and to the hypotheses found so far, and the arity, type and value
+  of each recursive field whose hypothesis is yet to be found.
+*/
+class DataElimination {
+  constructor(
+    public result: V.Value,
+    public recursive: [number, V.Value, V.Value][]
+  ) { }
+}
+
+function finishIndData(
+  found: V.Value | DataElimination,
+  desc: DataDescription,
+  motive: V.Value,
+  methods: V.Value[]
+): V.Value {
+  const waiting: DataElimination[] = [];
+  for (;;) {
+    if (found instanceof DataElimination) {
+      waiting.push(found);
+    } else if (waiting.length === 0) {
+      return found;
+    } else {
+      const top = waiting[waiting.length - 1];
+      top.result = doApp(top.result, found);
+    }
+    const top = waiting[waiting.length - 1];
+    const next = top.recursive.shift();
+    if (next === undefined) {
+      waiting.pop();
+      found = top.result;
+    } else {
+      const [arity, type, field] = next;
+      found = inductiveHypothesis(desc, arity, type, field, motive, methods);
+    }
+  }
+}
+
+function eliminateData(
+  desc: DataDescription,
+  params: V.Value[],
+  indices: V.Value[],
+  target: V.Value,
+  motive: V.Value,
+  methods: V.Value[]
+): V.Value | DataElimination {
+  const targetNow = target.now();
+  if (targetNow instanceof V.Constructor && targetNow.desc === desc) {
+    const ctor = desc.constructors[targetNow.index];
+    const env = bindTelescope(
+      bindTelescope(desc.env, desc.params, targetNow.params),
+      ctor.fields,
+      targetNow.fields
+    );
+    const result = targetNow.fields.reduce(
+      (method, field) => doApp(method, field),
+      methods[targetNow.index]
+    );
+    const recursive: [number, V.Value, V.Value][] = [];
+    ctor.recursive.forEach((arity, k) => {
+      if (arity !== null) {
+        recursive.push([arity, ctor.fields[k][1].valOf(env), targetNow.fields[k]]);
+      }
+    });
+    return new DataElimination(result, recursive);
+  } else if (targetNow instanceof V.Neutral) {
+    const paramTypes = desc.paramTypes(params);
+    const indexTypes = desc.indexTypes(params, indices);
+    return new V.Neutral(
+      applyMotive(motive, indices, target),
+      new N.IndData(
+        desc,
+        params.map((p, k) => new N.Norm(paramTypes[k], p)),
+        indices.map((i, k) => new N.Norm(indexTypes[k], i)),
+        targetNow.neutral,
+        new N.Norm(desc.motiveType(params), motive),
+        methods.map(
+          (m, k) => new N.Norm(desc.methodType(params, motive, k), m)
+        )
+      )
+    );
+  }
+  throw new Error(`invalid input for ${desc.eliminatorName()}: ${[target, motive, ...methods]}`);
+}
+
+function inductiveHypothesis(
+  desc: DataDescription,
+  arity: number,
+  type: V.Value,
+  field: V.Value,
+  motive: V.Value,
+  methods: V.Value[]
+): V.Value | DataElimination {
+  const typeNow = type.now();
+  if (arity === 0 && typeNow instanceof V.Datatype) {
+    return eliminateData(
+      desc, typeNow.params, typeNow.indices, field, motive, methods
+    );
+  } else if (arity > 0 && typeNow instanceof V.Pi) {
+    return new V.Lambda(
+      typeNow.argName,
+      new HigherOrderClosure(
+        (y) => finishIndData(
+          inductiveHypothesis(
+            desc, arity - 1, typeNow.resultType.valOfClosure(y),
+            doApp(field, y), motive, methods
+          ),
+          desc, motive, methods
+        )
+      )
+    );
+  }
+  throw new Error(`Not a recursive field of ${desc.name}: ${type}`);
 }
\ No newline at end of file
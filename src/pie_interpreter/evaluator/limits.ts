@@ -0,0 +1,154 @@
+import { Message, Perhaps, stop } from '../types/utils';
+import { Location } from '../utils/locations';
+
+/*
+  ## Evaluation limits ##
+
+  Every Pie program terminates, but some take longer than anyone would
+  wait for: (expt 10 10) on unary numbers takes ten billion steps. So
+  that such a program is reported rather than left to freeze the page
+  or the editor that runs it, evaluation and read-back can be given
+  limits: at most so many steps, at most so many milliseconds, and an
+  AbortSignal that stops them once it is aborted. Because evaluation
+  does not give way to the event loop, a signal can only be aborted
+  before evaluation starts or by the code that evaluation calls.
+
+  Evaluation spends a step each time that it applies a λ, finds the
+  value of a delayed expression, or reads back a value. An evaluation
+  that goes past its limits throws EvaluationLimitExceeded, which
+  becomes a diagnostic at the expression that was being checked. A
+  computation so deep that it overflows the stack is reported in the
+  same way.
+
+  Limits nest: within withLimits, further limits can only make the
+  limits stricter, and the steps that are taken count against both.
+*/
+
+export class EvaluationLimits {
+  constructor(
+    // The most steps that each declaration may take.
+    public steps: number = Infinity,
+    // The most milliseconds that each declaration may take.
+    public time: number = Infinity,
+    // Once this is aborted, nothing more is evaluated.
+    public signal: AbortSignal | null = null,
+  ) { }
+}
+
+export const noLimits = new EvaluationLimits();
+
+export type LimitReason = 'steps' | 'time' | 'cancelled' | 'depth';
+
+export class EvaluationLimitExceeded extends Error {
+  constructor(public reason: LimitReason, limit: number = Infinity) {
+    super(limitMessage(reason, limit));
+  }
+}
+
+function limitMessage(reason: LimitReason, limit: number): string {
+  switch (reason) {
+    case 'steps':
+      return `Evaluation limit exceeded: this takes more than ${limit} steps.`;
+    case 'time':
+      return `Evaluation limit exceeded: this takes more than ${limit} ms.`;
+    case 'cancelled':
+      return 'Evaluation limit exceeded: evaluation was cancelled.';
+    case 'depth':
+      return 'Evaluation limit exceeded: this is nested too deeply to evaluate.';
+  }
+}
+
+class Budget {
+  // Steps between looking at the clock and at the signals.
+  private static interval = 1024;
+  private untilCheck = Budget.interval;
+
+  constructor(
+    public steps: number,
+    // The limits that the steps and the deadline come from, for reporting them.
+    public stepLimit: number,
+    public deadline: number,
+    public time: number,
+    public signals: AbortSignal[],
+  ) { }
+
+  public spend(): void {
+    if (--this.steps < 0) {
+      throw new EvaluationLimitExceeded('steps', this.stepLimit);
+    }
+    if (--this.untilCheck === 0) {
+      this.untilCheck = Budget.interval;
+      this.check();
+    }
+  }
+
+  public check(): void {
+    if (this.signals.some(signal => signal.aborted)) {
+      throw new EvaluationLimitExceeded('cancelled');
+    } else if (Date.now() > this.deadline) {
+      throw new EvaluationLimitExceeded('time', this.time);
+    }
+  }
+}
+
+let budget: Budget | null = null;
+
+// Evaluate within limits, as well as within the limits that are already in force.
+export function withLimits<T>(limits: EvaluationLimits, thunk: () => T): T {
+  const outer = budget;
+  const inner = new Budget(limits.steps, limits.steps, Date.now() + limits.time, limits.time,
+    limits.signal === null ? [] : [limits.signal]);
+  if (outer !== null) {
+    if (outer.steps < inner.steps) {
+      inner.steps = outer.steps;
+      inner.stepLimit = outer.stepLimit;
+    }
+    if (outer.deadline < inner.deadline) {
+      inner.deadline = outer.deadline;
+      inner.time = outer.time;
+    }
+    inner.signals = outer.signals.concat(inner.signals);
+  }
+  const start = inner.steps;
+  budget = inner;
+  try {
+    inner.check();
+    return thunk();
+  } finally {
+    budget = outer;
+    if (outer !== null && start !== Infinity) {
+      outer.steps -= start - inner.steps;
+    }
+  }
+}
+
+// Take a step of evaluation, if the limits allow it.
+export function spendStep(): void {
+  budget?.spend();
+}
+
+/*
+  The evaluation limit that e reports having exceeded, or null if it
+  is some other error.
+*/
+export function exceededLimit(e: unknown): EvaluationLimitExceeded | null {
+  if (e instanceof EvaluationLimitExceeded) {
+    return e;
+  } else if (e instanceof RangeError && /call stack/i.test(e.message)) {
+    return new EvaluationLimitExceeded('depth');
+  }
+  return null;
+}
+
+// Report an evaluation that exceeds its limits at where.
+export function stopAtLimit<T>(where: Location, thunk: () => Perhaps<T>): Perhaps<T> {
+  try {
+    return thunk();
+  } catch (e) {
+    const exceeded = exceededLimit(e);
+    if (exceeded === null) {
+      throw e;
+    }
+    return new stop(where, new Message([exceeded.message]), 'evaluation-limit');
+  }
+}
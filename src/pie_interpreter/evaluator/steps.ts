@@ -0,0 +1,395 @@
+import * as C from '../types/core';
+import { Core } from '../types/core';
+import { mentions } from '../typechecker/motives';
+import { prettyPrintCore } from '../unparser/pretty';
+import { Context, Define } from '../utils/context';
+import { freshen } from '../utils/fresh';
+import { readBack } from './utils';
+
+/*
+  ## Reduction steps ##
+
+  The evaluator finds values directly, without the steps in between.
+  To show how an expression becomes its normal form, as the "same as"
+  charts of The Little Typer do, Core expressions are also reduced here
+  one step at a time, by substitution. Each step contracts one redex:
+
+    δ  a defined name is replaced by its definition,
+    β  a λ that is applied to an argument is replaced by its body, in
+       which the argument is put in place of the variable,
+    ι  an eliminator whose target is a constructor is replaced by the
+       method for that constructor.
+
+  In normal order, the leftmost outermost redex is contracted first,
+  so that arguments are put in place before they are reduced. In call
+  by value, the arguments and targets of a redex are reduced first, and
+  the bodies of λs are reduced only once nothing else can be. Both
+  reduce the expression until no redex is left.
+*/
+
+export type Strategy = 'normal-order' | 'call-by-value';
+
+export type Rule = 'δ' | 'β' | 'ι';
+
+export class Step {
+  constructor(
+    public rule: Rule,
+    // The name that δ unfolds, or the eliminator that ι applies.
+    public name: string | null,
+    // The whole expression, before and after the step.
+    public before: Core,
+    public redex: Core,
+    public after: Core,
+  ) { }
+}
+
+export function* reductionSteps(
+  ctx: Context,
+  expr: Core,
+  strategy: Strategy = 'normal-order'
+): Generator<Step> {
+  const reducer = new Reducer(ctx);
+  let current = withoutMetas(expr);
+  for (;;) {
+    const found = strategy === 'normal-order'
+      ? reducer.normalOrder(current, new Set())
+      : reducer.callByValue(current, new Set());
+    if (found === null) {
+      return;
+    }
+    yield new Step(found.rule, found.name, current, found.redex, found.after);
+    current = found.after;
+  }
+}
+
+/*
+  The steps from expr to its normal form, each expression with the
+  redex that is contracted next marked and followed by the rule that
+  contracts it. When there are more than limit steps, the rest are left
+  out.
+*/
+export function prettyPrintSteps(
+  ctx: Context,
+  expr: Core,
+  strategy: Strategy = 'normal-order',
+  limit: number = 100
+): string {
+  let output = '';
+  let last = withoutMetas(expr);
+  let count = 0;
+  for (const step of reductionSteps(ctx, expr, strategy)) {
+    if (count === limit) {
+      return output + `… and more, after ${limit} steps.\n`;
+    }
+    output += `${prettyPrintCore(step.before, { highlight: step.redex })}\n`;
+    output += `  ${step.rule}${step.name === null ? '' : ` ${step.name}`}\n`;
+    last = step.after;
+    count++;
+  }
+  return output + `${prettyPrintCore(last)}\n`;
+}
+
+// A redex that has been found, and the expression that it is in after it is contracted.
+type Found = { rule: Rule, name: string | null, redex: Core, after: Core };
+
+class Reducer {
+  constructor(private ctx: Context) { }
+
+  public normalOrder(expr: Core, bound: Set<string>): Found | null {
+    return this.contract(expr, bound)
+      ?? stepChild(expr, bound, true, (child, inner) => this.normalOrder(child, inner));
+  }
+
+  public callByValue(expr: Core, bound: Set<string>): Found | null {
+    return this.callByValueOutside(expr, bound)
+      ?? stepChild(expr, bound, true, (child, inner) => this.callByValue(child, inner));
+  }
+
+  // Reduce expr by value, but not inside the bodies of λ, Π and Σ.
+  private callByValueOutside(expr: Core, bound: Set<string>): Found | null {
+    if (binderOf(expr) !== null) {
+      return null;
+    }
+    return stepChild(expr, bound, false, (child, inner) => this.callByValueOutside(child, inner))
+      ?? this.contract(expr, bound);
+  }
+
+  // The step that contracts expr, if it is a redex.
+  private contract(expr: Core, bound: Set<string>): Found | null {
+    const step = (rule: Rule, name: string | null, after: Core) =>
+      ({ rule, name, redex: expr, after });
+    if (expr instanceof C.VarName) {
+      const binder = this.ctx.get(expr.name);
+      if (!bound.has(expr.name) && binder instanceof Define) {
+        // The names that a datatype declares are unfolded to their normal forms.
+        return step('δ', expr.name, binder.expr === null
+          ? readBack(this.ctx, binder.type, binder.value)
+          : withoutMetas(binder.expr));
+      }
+    } else if (expr instanceof C.Application && expr.fun instanceof C.Lambda) {
+      return step('β', null,
+        this.substitute(expr.fun.body, new Map([[expr.fun.param, expr.arg]])));
+    } else if (expr instanceof C.WhichNat) {
+      const smaller = predecessor(expr.target);
+      if (expr.target instanceof C.Zero) {
+        return step('ι', 'which-Nat', expr.base.expr);
+      } else if (smaller !== null) {
+        return step('ι', 'which-Nat', apply(expr.step, smaller));
+      }
+    } else if (expr instanceof C.IterNat) {
+      const smaller = predecessor(expr.target);
+      if (expr.target instanceof C.Zero) {
+        return step('ι', 'iter-Nat', expr.base.expr);
+      } else if (smaller !== null) {
+        return step('ι', 'iter-Nat',
+          apply(expr.step, new C.IterNat(smaller, expr.base, expr.step)));
+      }
+    } else if (expr instanceof C.RecNat) {
+      const smaller = predecessor(expr.target);
+      if (expr.target instanceof C.Zero) {
+        return step('ι', 'rec-Nat', expr.base.expr);
+      } else if (smaller !== null) {
+        return step('ι', 'rec-Nat',
+          apply(expr.step, smaller, new C.RecNat(smaller, expr.base, expr.step)));
+      }
+    } else if (expr instanceof C.IndNat) {
+      const smaller = predecessor(expr.target);
+      if (expr.target instanceof C.Zero) {
+        return step('ι', 'ind-Nat', expr.base);
+      } else if (smaller !== null) {
+        return step('ι', 'ind-Nat',
+          apply(expr.step, smaller, new C.IndNat(smaller, expr.motive, expr.base, expr.step)));
+      }
+    } else if (expr instanceof C.Car && expr.pair instanceof C.Cons) {
+      return step('ι', 'car', expr.pair.first);
+    } else if (expr instanceof C.Cdr && expr.pair instanceof C.Cons) {
+      return step('ι', 'cdr', expr.pair.second);
+    } else if (expr instanceof C.RecList) {
+      const target = expr.target;
+      if (target instanceof C.Nil) {
+        return step('ι', 'rec-List', expr.base.expr);
+      } else if (target instanceof C.ListCons) {
+        return step('ι', 'rec-List', apply(expr.step, target.head, target.tail,
+          new C.RecList(target.tail, expr.base, expr.step)));
+      }
+    } else if (expr instanceof C.IndList) {
+      const target = expr.target;
+      if (target instanceof C.Nil) {
+        return step('ι', 'ind-List', expr.base);
+      } else if (target instanceof C.ListCons) {
+        return step('ι', 'ind-List', apply(expr.step, target.head, target.tail,
+          new C.IndList(target.tail, expr.motive, expr.base, expr.step)));
+      }
+    } else if (expr instanceof C.Head && expr.vec instanceof C.VecCons) {
+      return step('ι', 'head', expr.vec.head);
+    } else if (expr instanceof C.Tail && expr.vec instanceof C.VecCons) {
+      return step('ι', 'tail', expr.vec.tail);
+    } else if (expr instanceof C.IndVec) {
+      const target = expr.target;
+      const smaller = predecessor(expr.length);
+      if (target instanceof C.VecNil) {
+        return step('ι', 'ind-Vec', expr.base);
+      } else if (target instanceof C.VecCons && smaller !== null) {
+        return step('ι', 'ind-Vec', apply(expr.step, smaller, target.head, target.tail,
+          new C.IndVec(smaller, target.tail, expr.motive, expr.base, expr.step)));
+      }
+    } else if (expr instanceof C.IndEither) {
+      if (expr.target instanceof C.Left) {
+        return step('ι', 'ind-Either', apply(expr.baseLeft, expr.target.value));
+      } else if (expr.target instanceof C.Right) {
+        return step('ι', 'ind-Either', apply(expr.baseRight, expr.target.value));
+      }
+    } else if (expr instanceof C.Replace && expr.target instanceof C.Same) {
+      return step('ι', 'replace', expr.base);
+    } else if (expr instanceof C.Cong && expr.target instanceof C.Same) {
+      return step('ι', 'cong', new C.Same(apply(expr.fun, expr.target.type)));
+    } else if (expr instanceof C.Symm && expr.equality instanceof C.Same) {
+      return step('ι', 'symm', expr.equality);
+    } else if (expr instanceof C.Trans
+      && expr.left instanceof C.Same && expr.right instanceof C.Same) {
+      return step('ι', 'trans', expr.left);
+    } else if (expr instanceof C.IndEqual && expr.target instanceof C.Same) {
+      return step('ι', 'ind-=', expr.base);
+    } else if (expr instanceof C.IndData
+      && expr.target instanceof C.Constructor && expr.target.desc === expr.desc) {
+      const after = this.indData(expr, expr.target);
+      if (after !== null) {
+        return step('ι', expr.desc.eliminatorName(), after);
+      }
+    }
+    return null;
+  }
+
+  /*
+    The method for the constructor of target, applied to its fields and
+    to an inductive hypothesis for each recursive field. The indices of
+    a recursive field are found in its type, in which the parameters and
+    the fields of target are put in place of their variables.
+  */
+  private indData(expr: C.IndData, target: C.Constructor): Core | null {
+    const desc = expr.desc;
+    const ctor = desc.constructors[target.index];
+    const fields = new Map<string, Core>();
+    desc.params.forEach(([x], k) => fields.set(x, target.params[k]));
+    ctor.fields.forEach(([x], k) => fields.set(x, target.fields[k]));
+    let result = apply(expr.methods[target.index], ...target.fields);
+    for (let k = 0; k < ctor.fields.length; k++) {
+      const arity = ctor.recursive[k];
+      if (arity === null) {
+        continue;
+      }
+      let type = this.substitute(ctor.fields[k][1], fields);
+      const args: string[] = [];
+      for (let i = 0; i < arity; i++) {
+        if (!(type instanceof C.Pi)) {
+          return null;
+        }
+        args.push(type.name);
+        type = type.body;
+      }
+      const indices = spine(type).slice(1 + desc.params.length);
+      const smaller = apply(target.fields[k], ...args.map(y => new C.VarName(y)));
+      let hypothesis: Core = new C.IndData(
+        desc, expr.params, indices, smaller, expr.motive, expr.methods
+      );
+      for (const y of args.reverse()) {
+        hypothesis = new C.Lambda(y, hypothesis);
+      }
+      result = apply(result, hypothesis);
+    }
+    return result;
+  }
+
+  /*
+    Put each expression of values in place of its variable in expr. A
+    variable that is bound in expr is renamed when it would capture a
+    variable of one of the expressions.
+  */
+  public substitute(expr: Core, values: Map<string, Core>): Core {
+    if (values.size === 0) {
+      return expr;
+    } else if (expr instanceof C.VarName) {
+      return values.get(expr.name) ?? expr;
+    }
+    const x = binderOf(expr);
+    if (x === null) {
+      return mapChildren(expr, child => this.substitute(child, values));
+    }
+    const body = (expr as C.Lambda | C.Pi | C.Sigma).body;
+    const inner = new Map([...values].filter(([y]) => y !== x && mentions(body, y)));
+    const captured = [...inner.values()].some(value => mentions(value, x));
+    const y = captured
+      ? freshen([...this.ctx.keys(), ...freeNames(body), ...[...inner.values()].flatMap(freeNames)], x)
+      : x;
+    if (y !== x) {
+      inner.set(x, new C.VarName(y));
+    }
+    const newBody = this.substitute(body, inner);
+    if (expr instanceof C.Lambda) {
+      return new C.Lambda(y, newBody, expr.implicit);
+    } else if (expr instanceof C.Pi) {
+      return new C.Pi(y, this.substitute(expr.type, values), newBody, expr.implicit);
+    }
+    return new C.Sigma(y, this.substitute((expr as C.Sigma).type, values), newBody);
+  }
+}
+
+// The variable that the body of a λ, Π or Σ is in the scope of.
+function binderOf(expr: Core): string | null {
+  if (expr instanceof C.Lambda) {
+    return expr.param;
+  } else if (expr instanceof C.Pi || expr instanceof C.Sigma) {
+    return expr.name;
+  }
+  return null;
+}
+
+// The parts of Core expressions that are not printed, and so are not reduced.
+const hiddenParts = new Map<Function, string[]>([[C.Cong, ['base']]]);
+
+/*
+  A copy of expr, in which each part is replaced by f of it. The
+  variable that a part is in the scope of is given with it.
+*/
+function mapChildren(expr: Core, f: (child: Core, binder: string | null) => Core): Core {
+  const copy = Object.create(Object.getPrototypeOf(expr));
+  const hidden = hiddenParts.get(expr.constructor) ?? [];
+  for (const [part, value] of Object.entries(expr)) {
+    if (hidden.includes(part)) {
+      copy[part] = value;
+    } else if (value instanceof Core) {
+      copy[part] = f(value, part === 'body' ? binderOf(expr) : null);
+    } else if (Array.isArray(value) && value.every(elem => elem instanceof Core)) {
+      copy[part] = value.map(elem => f(elem, null));
+    } else {
+      copy[part] = value;
+    }
+  }
+  return copy;
+}
+
+/*
+  Take the first step that step finds in a part of expr, leaving out
+  the bodies of λ, Π and Σ unless underBinders.
+*/
+function stepChild(
+  expr: Core,
+  bound: Set<string>,
+  underBinders: boolean,
+  step: (child: Core, bound: Set<string>) => Found | null
+): Found | null {
+  let found: Found | null = null;
+  const after = mapChildren(expr, (child, binder) => {
+    if (found !== null || (binder !== null && !underBinders)) {
+      return child;
+    }
+    found = step(child, binder === null ? bound : new Set(bound).add(binder));
+    return found === null ? child : found.after;
+  });
+  return found === null ? null : { ...(found as Found), after };
+}
+
+// The names that occur free in expr.
+function freeNames(expr: Core): string[] {
+  if (expr instanceof C.VarName) {
+    return [expr.name];
+  }
+  const names: string[] = [];
+  mapChildren(expr, (child, binder) => {
+    names.push(...freeNames(child).filter(x => x !== binder));
+    return child;
+  });
+  return names;
+}
+
+// Solved metavariables are replaced by their solutions.
+function withoutMetas(expr: Core): Core {
+  if (expr instanceof C.Meta) {
+    return expr.meta.solution !== null ? withoutMetas(expr.meta.solution) : expr;
+  }
+  return mapChildren(expr, child => withoutMetas(child));
+}
+
+// n, when target is (add1 n).
+function predecessor(target: Core): Core | null {
+  if (target instanceof C.Add1) {
+    return target.n;
+  } else if (target instanceof C.NatLit) {
+    return target.num === 1n ? new C.Zero() : new C.NatLit(target.num - 1n);
+  }
+  return null;
+}
+
+function apply(fun: Core, ...args: Core[]): Core {
+  return args.reduce((f, arg) => new C.Application(f, arg), fun);
+}
+
+// The head of an application, followed by its arguments.
+function spine(expr: Core): Core[] {
+  const args: Core[] = [];
+  while (expr instanceof C.Application) {
+    args.unshift(expr.arg);
+    expr = expr.fun;
+  }
+  return [expr, ...args];
+}
@@ -4,6 +4,7 @@ import * as N from '../types/neutral';
 import { fresh } from '../types/utils';
 import { bindFree, Context } from '../utils/context';
 import { doApp, doCar, doCdr } from "./evaluator";
+import { spendStep } from "./limits";
 
 /**
  *   ## Call-by-need evaluation ##
@@ -77,18 +78,64 @@ import { doApp, doCar, doCdr } from "./evaluator";
 } */
 
 export function natEqual(nat1: V.Value, nat2: V.Value): boolean {
-  const nat1Now = nat1.now();
-  const nat2Now = nat2.now();
-  if (nat1Now instanceof V.Zero && nat2Now instanceof V.Zero) {
-    return true;
-  } else if (nat1Now instanceof V.Add1 && nat2Now instanceof V.Add1) {
-    return natEqual(nat1Now.smaller, nat2Now.smaller);
-  } else {
-    return false;
+  for (;;) {
+    const nat1Now = nat1.now();
+    const nat2Now = nat2.now();
+    if (nat1Now instanceof V.Zero && nat2Now instanceof V.Zero) {
+      return true;
+    } else if (nat1Now instanceof V.NatLit && nat2Now instanceof V.NatLit) {
+      return nat1Now.num === nat2Now.num;
+    } else if (nat1Now instanceof V.Add1 && nat2Now instanceof V.Add1) {
+      nat1 = nat1Now.smaller;
+      nat2 = nat2Now.smaller;
+    } else {
+      return false;
+    }
   }
 }
 
+/*
+  A value is read back by reading back its parts and putting together
+  what they read back as. The parts that are yet to be read back are
+  kept on a stack of their own rather than in recursive calls, so that
+  values too deep for the JavaScript stack, such as long lists and
+  large numbers under add1s, can be read back.
+*/
+class ReadBackTask {
+  public done: C.Core[] = [];
+
+  constructor(
+    // The context, type and value of each part.
+    public parts: [Context, V.Value, V.Value][],
+    public build: (parts: C.Core[]) => C.Core
+  ) { }
+}
+
 export function readBack(context: Context, type: V.Value, value: V.Value): C.Core {
+  const tasks: ReadBackTask[] = [];
+  let found = readBackLayer(context, type, value);
+  for (;;) {
+    if (found instanceof ReadBackTask) {
+      tasks.push(found);
+    } else if (tasks.length === 0) {
+      return found;
+    } else {
+      tasks[tasks.length - 1].done.push(found);
+    }
+    const top = tasks[tasks.length - 1];
+    if (top.done.length < top.parts.length) {
+      const [partContext, partType, part] = top.parts[top.done.length];
+      found = readBackLayer(partContext, partType, part);
+    } else {
+      tasks.pop();
+      found = top.build(top.done);
+    }
+  }
+}
+
+// The outermost layer of what value reads back as, with the parts that it needs.
+function readBackLayer(context: Context, type: V.Value, value: V.Value): C.Core | ReadBackTask {
+  spendStep();
   const typeNow = type.now();
   const valueNow = value.now();
 
@@ -97,16 +144,25 @@ export function readBack(context: Context, type: V.Value, value: V.Value): C.Cor
   } else if (typeNow instanceof V.Nat
     && valueNow instanceof V.Zero) {
     return new C.Zero();
+  } else if (typeNow instanceof V.Nat
+    && valueNow instanceof V.NatLit) {
+    return new C.NatLit(valueNow.num);
   } else if (typeNow instanceof V.Nat
     && valueNow instanceof V.Add1) {
-    return new C.Add1(
-      readBack(context, new V.Nat(), valueNow.smaller)
-    );
+    return new ReadBackTask([[context, new V.Nat(), valueNow.smaller]], ([smaller]) => {
+      // add1 around a numeral is itself a numeral.
+      if (smaller instanceof C.Zero) {
+        return new C.NatLit(1n);
+      } else if (smaller instanceof C.NatLit) {
+        return new C.NatLit(smaller.num + 1n);
+      }
+      return new C.Add1(smaller);
+    });
   } else if (typeNow instanceof V.Pi) {
     const y = valueNow instanceof V.Lambda ?
       valueNow.argName : typeNow.argName;
     const freshx = fresh(context, y);
-    return new C.Lambda(freshx, readBack(
+    return new ReadBackTask([[
       bindFree(context, freshx, typeNow.argType),
       typeNow.resultType.valOfClosure(
         new V.Neutral(typeNow.argType, new N.Variable(freshx))
@@ -115,18 +171,14 @@ export function readBack(context: Context, type: V.Value, value: V.Value): C.Cor
         valueNow,
         new V.Neutral(typeNow.argType, new N.Variable(freshx))
       )
-    ));
+    ]], ([body]) => new C.Lambda(freshx, body, typeNow.implicit));
   } else if (typeNow instanceof V.Sigma) {
     const car = doCar(value);
     const cdr = doCdr(value);
-    return new C.Cons(
-      readBack(context, typeNow.carType, car),
-      readBack(
-        context,
-        typeNow.cdrType.valOfClosure(car),
-        cdr
-      )
-    );
+    return new ReadBackTask([
+      [context, typeNow.carType, car],
+      [context, typeNow.cdrType.valOfClosure(car), cdr]
+    ], ([first, second]) => new C.Cons(first, second));
   } else if (typeNow instanceof V.Atom
     && valueNow instanceof V.Quote) {
     return new C.Quote(valueNow.name);
@@ -137,9 +189,10 @@ export function readBack(context: Context, type: V.Value, value: V.Value): C.Cor
     return new C.Nil();
   } else if (typeNow instanceof V.List
     && valueNow instanceof V.ListCons) {
-    return new C.Cons(
-      readBack(context, typeNow.entryType, valueNow.head),
-      readBack(context, new V.List(typeNow.entryType), valueNow.tail));
+    return new ReadBackTask([
+      [context, typeNow.entryType, valueNow.head],
+      [context, new V.List(typeNow.entryType), valueNow.tail]
+    ], ([head, tail]) => new C.ListCons(head, tail));
   } else if (typeNow instanceof V.Absurd
     && valueNow instanceof V.Neutral) {
     return new C.The(
@@ -148,8 +201,7 @@ export function readBack(context: Context, type: V.Value, value: V.Value): C.Cor
     );
   } else if (typeNow instanceof V.Equal
     && valueNow instanceof V.Same) {
-    return new C.Same(
-      readBack(context, typeNow.type, valueNow.value));
+    return new ReadBackTask([[context, typeNow.type, valueNow.value]], ([v]) => new C.Same(v));
   } else if (typeNow instanceof V.Vec
     && typeNow.length.now() instanceof V.Zero) {
     return new C.VecNil();
@@ -157,23 +209,32 @@ export function readBack(context: Context, type: V.Value, value: V.Value): C.Cor
     && typeNow.length.now() instanceof V.Add1
     && valueNow instanceof V.VecCons) {
     const lenNow = typeNow.length.now() as V.Add1;
-    return new C.VecCons(
-      readBack(context, typeNow.entryType, valueNow.head),
-      readBack(
-        context,
-        new V.Vec(typeNow.entryType, lenNow.smaller),
-        valueNow.tail
-      )
-    );
+    return new ReadBackTask([
+      [context, typeNow.entryType, valueNow.head],
+      [context, new V.Vec(typeNow.entryType, lenNow.smaller), valueNow.tail]
+    ], ([head, tail]) => new C.VecCons(head, tail));
   } else if (typeNow instanceof V.Either
     && valueNow instanceof V.Left) {
-    return new C.Left(
-      readBack(context, typeNow.leftType, valueNow.value)
-    );
+    return new ReadBackTask([[context, typeNow.leftType, valueNow.value]], ([v]) => new C.Left(v));
   } else if (typeNow instanceof V.Either
     && valueNow instanceof V.Right) {
-    return new C.Right(
-      readBack(context, typeNow.rightType, valueNow.value)!
+    return new ReadBackTask([[context, typeNow.rightType, valueNow.value]], ([v]) => new C.Right(v));
+  } else if (typeNow instanceof V.Datatype
+    && valueNow instanceof V.Constructor) {
+    const paramTypes = typeNow.desc.paramTypes(valueNow.params);
+    const fieldTypes = typeNow.desc.fieldTypes(
+      valueNow.index, valueNow.params, valueNow.fields
+    );
+    const params = valueNow.params.length;
+    return new ReadBackTask(
+      valueNow.params.map((p, k): [Context, V.Value, V.Value] => [context, paramTypes[k], p])
+        .concat(valueNow.fields.map((f, k) => [context, fieldTypes[k], f])),
+      parts => new C.Constructor(
+        valueNow.desc,
+        valueNow.index,
+        parts.slice(0, params),
+        parts.slice(params)
+      )
     );
   } else if (valueNow instanceof V.Neutral) {
     return valueNow.neutral.readBackNeutral(context);
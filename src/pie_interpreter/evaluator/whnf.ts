@@ -0,0 +1,116 @@
+import * as V from "../types/value";
+import * as C from '../types/core';
+import * as N from '../types/neutral';
+import { FirstOrderClosure } from '../types/utils';
+import { Context, Define, Free } from '../utils/context';
+import { Environment } from '../utils/environment';
+import { mentions } from '../typechecker/motives';
+import { readBack } from './utils';
+
+/*
+  ## Weak head normal forms ##
+
+  A value is in weak head normal form when its outermost part is a
+  constructor or it is neutral. Because evaluation is lazy, the parts
+  of a constructor may not have been found yet. Those parts are read
+  back as they were written, as long as every variable that they
+  mention means the same in the context as where they were written.
+  Otherwise, and for the parts that have already been found, they are
+  read back in normal form.
+*/
+export function readBackWhnf(context: Context, type: V.Value, value: V.Value): C.Core {
+  const typeNow = type.now();
+  const valueNow = value.now();
+  if (typeNow instanceof V.Nat
+    && valueNow instanceof V.Add1) {
+    return new C.Add1(readBackPart(context, typeNow, valueNow.smaller));
+  } else if (typeNow instanceof V.Pi
+    && valueNow instanceof V.Lambda
+    && valueNow.body instanceof FirstOrderClosure) {
+    const body = asWritten(context, valueNow.body.env, valueNow.body.expr, valueNow.body.varName);
+    if (body !== null) {
+      return new C.Lambda(valueNow.body.varName, body, typeNow.implicit);
+    }
+  } else if (typeNow instanceof V.Sigma
+    && valueNow instanceof V.Cons) {
+    return new C.Cons(
+      readBackPart(context, typeNow.carType, valueNow.car),
+      readBackPart(context, typeNow.cdrType.valOfClosure(valueNow.car), valueNow.cdr)
+    );
+  } else if (typeNow instanceof V.List
+    && valueNow instanceof V.ListCons) {
+    return new C.ListCons(
+      readBackPart(context, typeNow.entryType, valueNow.head),
+      readBackPart(context, typeNow, valueNow.tail)
+    );
+  } else if (typeNow instanceof V.Equal
+    && valueNow instanceof V.Same) {
+    return new C.Same(readBackPart(context, typeNow.type, valueNow.value));
+  } else if (typeNow instanceof V.Vec
+    && typeNow.length.now() instanceof V.Add1
+    && valueNow instanceof V.VecCons) {
+    const lenNow = typeNow.length.now() as V.Add1;
+    return new C.VecCons(
+      readBackPart(context, typeNow.entryType, valueNow.head),
+      readBackPart(context, new V.Vec(typeNow.entryType, lenNow.smaller), valueNow.tail)
+    );
+  } else if (typeNow instanceof V.Either
+    && valueNow instanceof V.Left) {
+    return new C.Left(readBackPart(context, typeNow.leftType, valueNow.value));
+  } else if (typeNow instanceof V.Either
+    && valueNow instanceof V.Right) {
+    return new C.Right(readBackPart(context, typeNow.rightType, valueNow.value));
+  } else if (typeNow instanceof V.Datatype
+    && valueNow instanceof V.Constructor) {
+    const paramTypes = typeNow.desc.paramTypes(valueNow.params);
+    const fieldTypes = typeNow.desc.fieldTypes(
+      valueNow.index, valueNow.params, valueNow.fields
+    );
+    return new C.Constructor(
+      valueNow.desc,
+      valueNow.index,
+      valueNow.params.map((p, k) => readBackPart(context, paramTypes[k], p)),
+      valueNow.fields.map((f, k) => readBackPart(context, fieldTypes[k], f))
+    );
+  }
+  return readBack(context, type, value);
+}
+
+// Read back a part of a constructor without finding its value.
+function readBackPart(context: Context, type: V.Value, value: V.Value): C.Core {
+  if (value instanceof V.Delay) {
+    const content = value.val.get();
+    if (content instanceof V.DelayClosure) {
+      const expr = asWritten(context, content.env, content.expr, null);
+      if (expr !== null) {
+        return expr;
+      }
+    }
+  }
+  return readBack(context, type, value);
+}
+
+/*
+  expr, which was written in env, if it means the same in the context.
+  The variable bound, if any, is bound by expr's surroundings.
+*/
+function asWritten(context: Context, env: Environment, expr: C.Core, bound: string | null): C.Core | null {
+  for (const [x, value] of env) {
+    if (x !== bound && mentions(expr, x) && !meansTheSame(context, x, value)) {
+      return null;
+    }
+  }
+  return expr;
+}
+
+function meansTheSame(context: Context, x: string, value: V.Value): boolean {
+  const binder = context.get(x);
+  if (binder instanceof Define) {
+    return binder.value === value;
+  } else if (binder instanceof Free) {
+    return value instanceof V.Neutral
+      && value.neutral instanceof N.Variable
+      && value.neutral.name === x;
+  }
+  return false;
+}
@@ -1,59 +1,357 @@
-import { schemeParse, pieDeclarationParser, Claim, Definition, SamenessCheck } from './parser/parser'
+import { pieDeclarationParser, Claim, Definition, SamenessCheck, DataDeclaration, Declaration, MalformedDeclaration, Provide, Require } from './parser/parser'
+import { parseFailure } from './parser/parser-error';
 import { checkSame, represent } from './typechecker/represent';
-import { go, stop } from './types/utils';
+import { Diagnostic, go, stop, Message, Perhaps, RelatedInformation, TypedBinder } from './types/utils';
 import { prettyPrintCore } from './unparser/pretty';
-import { addClaimToContext, addDefineToContext, Define, initCtx } from './utils/context';
+import { addClaimToContext, addDefineToContext, Context, Define, initCtx } from './utils/context';
 import { The } from './types/core';
 import { readBack } from './evaluator/utils';
+import { addDataToContext } from './typechecker/data';
+import { withPieInfo } from './typechecker/utils';
+import { InfoIndex } from './typechecker/info';
+import { Goal, goalListener, prettyPrintGoal } from './unparser/goals';
+import { Location } from './utils/locations';
+import * as S from './types/source';
+import { checkProvide, ModuleLoader, requireModule } from './modules';
+import { EvaluationLimits, noLimits, stopAtLimit, withLimits } from './evaluator/limits';
 
-export function evaluatePie(str): string {
-  const astList = schemeParse(str);
-  let ctx = initCtx;
-  let output = "";
-  for (const ast of astList) {
-    const src = pieDeclarationParser.parseDeclaration(ast);
-    if (src instanceof Claim) {
-      const result = addClaimToContext(ctx, src.name, src.location, src.type);
-      if (result instanceof go) {
-        ctx = result.result;
-      } else if (result instanceof stop) {
-        throw new Error("" + result.where + result.message);
+export function evaluatePie(str, modules: ModuleLoader | null = null): string {
+  const report = checkPie(str, { keepGoing: false, modules });
+  const failed = report.declarations.find(decl => decl.status === 'error');
+  if (failed !== undefined) {
+    throw new Error(failed.diagnostics[0].toString());
+  }
+  return report.output;
+}
+
+/*
+  ## Keep-going mode ##
+
+  checkPie checks every declaration in a program, even after some of
+  them have failed. A declaration that fails is reported with its
+  diagnostics, and the names that it would have introduced are broken.
+  A later declaration that mentions a broken name is skipped rather
+  than checked, because it would only fail again for the same reason,
+  and the names that it introduces are broken in turn. A form that
+  cannot be read fails with its syntax error, and breaks the name that
+  it appears to declare.
+
+  When keepGoing is false, checking stops at the first failure. The
+  declarations are checked in ctx, which is empty unless they continue
+  an earlier program. The program is read from the file called source,
+  which every location in the report names.
+
+  When a program is checked again after it has been edited, previous
+  is the report on the program before the edit. The declarations that
+  were read exactly as before, up to the first one that was changed,
+  are not checked again; their reports are reused instead. A require
+  is always checked again, because the module that it requires may
+  have changed even though the require has not. Neither is a
+  declaration that exceeded its evaluation limits, which may not be
+  exceeded again.
+
+  The modules that the program requires are read by modules. Each
+  declaration is checked within limits, and once the signal of limits
+  is aborted, the declarations after the one that it stopped are not
+  checked.
+*/
+
+export type DeclarationKind =
+  'claim' | 'define' | 'check-same' | 'data' | 'require' | 'provide' | 'expression';
+
+export type DeclarationStatus = 'ok' | 'error' | 'skipped';
+
+export class DeclarationReport {
+  constructor(
+    public kind: DeclarationKind,
+    // The name that a claim or define is about, or that data declares.
+    public name: string | null,
+    public location: Location,
+    public status: DeclarationStatus,
+    public diagnostics: Diagnostic[],
+    // The normal form of an expression, and the way evaluatePie prints it.
+    public normal: The | null,
+    public output: string | null,
+    // The context after the declaration.
+    public context: Context,
+    // The declaration as it was read, which tells whether it has
+    // changed since it was last checked.
+    public syntax: string,
+    // The information sent through PieInfoHook while checking it.
+    public info: InfoIndex,
+    public goals: Goal[],
+    // The names that a provide gives to the modules that require this one.
+    public provides: string[] = [],
+  ) { }
+}
+
+export class PieReport {
+  constructor(
+    public declarations: DeclarationReport[],
+    // The context after the last declaration.
+    public context: Context,
+  ) { }
+
+  public get goals(): Goal[] {
+    return this.declarations.flatMap(decl => decl.goals);
+  }
+
+  // What is known about the whole program.
+  public get info(): InfoIndex {
+    const info = new InfoIndex();
+    for (const decl of this.declarations) {
+      info.include(decl.info);
+    }
+    return info;
+  }
+
+  // The output of the declarations that succeeded, followed by the
+  // definitions and the goals.
+  public get output(): string {
+    let output = this.declarations.map(decl => decl.output ?? '').join('');
+    const ctx = this.context;
+    for (const [name, binder] of ctx) {
+      if (binder instanceof Define) {
+        output += `${name}: ${prettyPrintCore(binder.type.readBackType(ctx))}\n`;
+        output += `${name}= ${prettyPrintCore(readBack(ctx, binder.type, binder.value))}\n`
+      } else {
+        output += `${name}: ${prettyPrintCore(binder.type.readBackType(ctx))} \n`;
+      }
+    }
+    for (const goal of this.goals) {
+      output += prettyPrintGoal(goal);
+    }
+    return output;
+  }
+
+  // The names that the program provides, as a module.
+  public get provided(): string[] {
+    return this.declarations.filter(decl => decl.status === 'ok').flatMap(decl => decl.provides);
+  }
+
+  public get ok(): boolean {
+    return this.declarations.every(decl => decl.status === 'ok');
+  }
+
+  public get diagnostics(): Diagnostic[] {
+    return this.declarations.flatMap(decl => decl.diagnostics);
+  }
+}
+
+// How checkPie checks a program. Each option is described above.
+export interface CheckOptions {
+  keepGoing?: boolean;
+  ctx?: Context;
+  previous?: PieReport | null;
+  source?: string;
+  modules?: ModuleLoader | null;
+  limits?: EvaluationLimits;
+}
+
+export function checkPie(str: string, options: CheckOptions = {}): PieReport {
+  const { keepGoing = true, previous = null, source = '', modules = null, limits = noLimits } = options;
+  let ctx = options.ctx ?? initCtx;
+  if (modules !== null && !modules.isChecking(source)) {
+    return modules.checking(source, () => checkPie(str, options));
+  }
+  const declarations: DeclarationReport[] = [];
+  // Each broken name, with the location of the declaration that broke it.
+  const broken = new Map<string, Location>();
+  // Whether every declaration so far was read exactly as before.
+  let unchanged = previous !== null;
+  for (const { syntax, declaration: src } of pieDeclarationParser.parseProgram(str, source)) {
+    const [kind, name, location] = describeDeclaration(src);
+    const before = previous?.declarations[declarations.length];
+    unchanged = unchanged && before !== undefined && before.syntax === syntax
+      && !(src instanceof Require)
+      && !before.diagnostics.some(diagnostic => diagnostic.code === 'evaluation-limit');
+    if (unchanged) {
+      declarations.push(before!);
+      ctx = before.context;
+      if (before.status !== 'ok') {
+        for (const x of introducedNames(src)) {
+          broken.set(x, location);
+        }
+        if (!keepGoing) {
+          break;
+        }
+      }
+      continue;
+    }
+    const info = new InfoIndex();
+    info.declare(location, introducedNames(src));
+    if (src instanceof MalformedDeclaration) {
+      for (const x of introducedNames(src)) {
+        broken.set(x, location);
       }
-    } else if (src instanceof Definition) {
-      const result = addDefineToContext(ctx, src.name, src.location, src.expr);
-      if (result instanceof go) {
-        ctx = result.result;
-      } else if (result instanceof stop) {
-        throw new Error("" + result.where + result.message);
+      const failure = parseFailure(src.error);
+      declarations.push(new DeclarationReport(kind, name, location, 'error', [
+        new Diagnostic(
+          'error',
+          'syntax-error',
+          new Message([failure.message]),
+          failure.toSourceLocation(source)
+        )
+      ], null, null, ctx, syntax, info, []));
+      if (!keepGoing) {
+        break;
+      }
+      continue;
+    }
+    const brokenName = mentionedNames(src).find(x => broken.has(x));
+    if (brokenName !== undefined) {
+      for (const x of introducedNames(src)) {
+        broken.set(x, location);
       }
-    } else if (src instanceof SamenessCheck) {
-      const result = checkSame(ctx, src.location, src.type, src.left, src.right);
-      if (result instanceof go) {
-        ctx = result.result;
-      } else if (result instanceof stop) {
-        throw new Error("" + result.where + result.message);
+      declarations.push(new DeclarationReport(kind, name, location, 'skipped', [
+        new Diagnostic(
+          'info',
+          'skipped',
+          new Message([`Skipped, because ${brokenName} has an error.`]),
+          location.locationToSrcLoc(),
+          [new RelatedInformation(
+            broken.get(brokenName)!.locationToSrcLoc(),
+            new Message([`${brokenName} is declared here.`])
+          )]
+        )
+      ], null, null, ctx, syntax, info, []));
+      continue;
+    }
+    const goals: Goal[] = [];
+    const result = withPieInfo(goalListener(goals), () =>
+      withPieInfo(info.listener, () =>
+        stopAtLimit(location, () =>
+          withLimits(limits, () => checkDeclaration(ctx, src, modules))
+        )
+      )
+    );
+    if (result instanceof go) {
+      const [newCtx, normal] = result.result;
+      ctx = newCtx;
+      const out = normal === null
+        ? null
+        : `${prettyPrintCore(normal.expr)}: ${prettyPrintCore(normal.type)}\n`;
+      const provides = src instanceof Provide ? src.names.map(x => x.name) : [];
+      declarations.push(new DeclarationReport(
+        kind, name, location, 'ok', [], normal, out, ctx, syntax, info, goals, provides
+      ));
+    } else if (result instanceof stop) {
+      for (const x of introducedNames(src)) {
+        broken.set(x, location);
       }
-    } else {
-      const result = represent(ctx, src);
-      if (result instanceof go) {
-        const core = result.result as The;
-        output += `${prettyPrintCore(core.expr)}: ${prettyPrintCore(core.type)}\n`;
-      } else if (result instanceof stop) {
-        throw new Error(`${result.message} at ${result.where}`);
+      declarations.push(new DeclarationReport(
+        kind, name, location, 'error', [result.diagnostic], null, null, ctx, syntax, info, goals
+      ));
+      if (!keepGoing || limits.signal?.aborted) {
+        break;
       }
     }
   }
-  
-  for (const [name, binder] of ctx) {
-    if (binder instanceof Define) {
-      // console.log(name + " : " + prettyPrintCore(binder.type.readBackType(ctx)));
-      // console.log(name + " = " + prettyPrintCore(readBack(ctx, binder.type, binder.value)));
-      output += `${name}: ${prettyPrintCore(binder.type.readBackType(ctx))}\n`;
-      output += `${name}= ${prettyPrintCore(readBack(ctx, binder.type, binder.value))}\n`
-    } else {
-      // console.log(name + " : " + prettyPrintCore(binder.type.readBackType(ctx)));
-      output += `${name}: ${prettyPrintCore(binder.type.readBackType(ctx))} \n`;
+  return new PieReport(declarations, ctx);
+}
+
+/*
+  Check a declaration, giving the new context and, for an expression,
+  its normal form.
+*/
+function checkDeclaration(
+  ctx: Context,
+  src: Exclude<Declaration, MalformedDeclaration>,
+  modules: ModuleLoader | null
+): Perhaps<[Context, The | null]> {
+  let result: Perhaps<Context> | Perhaps<The>;
+  if (src instanceof Claim) {
+    result = addClaimToContext(ctx, src.name, src.location, src.type);
+  } else if (src instanceof Definition) {
+    result = addDefineToContext(ctx, src.name, src.location, src.expr);
+  } else if (src instanceof SamenessCheck) {
+    const checked = checkSame(ctx, src.location, src.type, src.left, src.right);
+    return checked instanceof go ? new go([ctx, null]) : checked as stop;
+  } else if (src instanceof DataDeclaration) {
+    result = addDataToContext(ctx, src);
+  } else if (src instanceof Require) {
+    result = requireModule(ctx, src, modules);
+  } else if (src instanceof Provide) {
+    result = checkProvide(ctx, src);
+  } else {
+    result = represent(ctx, src);
+    if (result instanceof go) {
+      return new go([ctx, result.result]);
     }
   }
-  return output;
-}
\ No newline at end of file
+  if (result instanceof go) {
+    return new go([result.result, null]);
+  }
+  return result as stop;
+}
+
+function describeDeclaration(src: Declaration): [DeclarationKind, string | null, Location] {
+  if (src instanceof Claim) {
+    return ['claim', src.name, src.location];
+  } else if (src instanceof Definition) {
+    return ['define', src.name, src.location];
+  } else if (src instanceof SamenessCheck) {
+    return ['check-same', null, src.location];
+  } else if (src instanceof DataDeclaration) {
+    return ['data', src.name, src.location];
+  } else if (src instanceof Require) {
+    return ['require', null, src.location];
+  } else if (src instanceof Provide) {
+    return ['provide', null, src.location];
+  } else if (src instanceof MalformedDeclaration) {
+    return [src.form ?? 'expression', src.name, src.location];
+  }
+  return ['expression', null, src.location];
+}
+
+// The names that a declaration adds to the context.
+function introducedNames(src: Declaration): string[] {
+  if (src instanceof Claim || src instanceof Definition) {
+    return [src.name];
+  } else if (src instanceof DataDeclaration) {
+    return [src.name, `ind-${src.name}`].concat(src.constructors.map(ctor => ctor.name));
+  } else if (src instanceof MalformedDeclaration && src.name !== null) {
+    // The constructors of malformed data cannot be told.
+    return src.form === 'data' ? [src.name, `ind-${src.name}`] : [src.name];
+  }
+  return [];
+}
+
+/*
+  The names that a declaration refers to. Bound variables are not told
+  apart from the names that they shadow, so a declaration may be
+  skipped because of a broken name that it only binds.
+*/
+function mentionedNames(src: Declaration): string[] {
+  if (src instanceof Claim) {
+    return sourceNames(src.type);
+  } else if (src instanceof Definition) {
+    return [src.name].concat(sourceNames(src.expr));
+  } else if (src instanceof SamenessCheck) {
+    return sourceNames([src.type, src.left, src.right]);
+  } else if (src instanceof DataDeclaration) {
+    return sourceNames([
+      src.params,
+      src.indices,
+      src.constructors.map(ctor => [ctor.fields, ctor.type])
+    ]);
+  } else if (src instanceof Provide) {
+    return src.names.map(x => x.name);
+  } else if (src instanceof Require || src instanceof MalformedDeclaration) {
+    return [];
+  }
+  return sourceNames(src);
+}
+
+function sourceNames(node: unknown): string[] {
+  if (node instanceof S.Name) {
+    return [node.name];
+  } else if (node instanceof S.Source) {
+    return Object.values(node).flatMap(sourceNames);
+  } else if (node instanceof TypedBinder) {
+    return sourceNames(node.type);
+  } else if (Array.isArray(node)) {
+    return node.flatMap(sourceNames);
+  }
+  return [];
+}
@@ -0,0 +1,236 @@
+import { checkPie, PieReport } from './main';
+import { pieDeclarationParser, Provide, Require } from './parser/parser';
+import { go, Message, Perhaps, RelatedInformation, stop } from './types/utils';
+import { Binder, Claim, Context, extendContext } from './utils/context';
+import { Location } from './utils/locations';
+
+/*
+  ## Modules ##
+
+  A Pie file is a module. (require "lists.pie") checks lists.pie, in a
+  context of its own, and adds the names that it provides to the
+  context of the file that requires it. (provide name ...) gives the
+  names that a module provides, each of which must have been declared
+  before the provide.
+
+  Modules are read through ModuleFiles, so that they can come from the
+  file system or from an in-memory store, as they do in the browser.
+  A ModuleLoader checks each module at most once, however many files
+  require it, and reports a module that requires itself, whether
+  directly or through others.
+
+  Where modules can only be read asynchronously, as they are through
+  the conductor in the browser, fetchModules reads the modules that a
+  program requires into MemoryFiles before the program is checked.
+*/
+
+export interface ModuleFiles {
+  // The name of the module that path refers to, in the module called from.
+  resolve(from: string, path: string): string;
+  // The text of a module. Throws when the module cannot be read.
+  read(name: string): string;
+}
+
+/*
+  Resolve a path relative to the directory of the file from, in the
+  way that paths are resolved in URLs and in POSIX file systems.
+*/
+export function resolvePath(from: string, path: string): string {
+  const parts = path.startsWith('/') ? [''] : from.split('/').slice(0, -1);
+  for (const part of path.split('/')) {
+    const last = parts[parts.length - 1];
+    if (part === '..' && last !== undefined && last !== '..') {
+      // The root is its own parent.
+      if (last !== '') {
+        parts.pop();
+      }
+    } else if (part !== '.' && part !== '') {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
+
+// Modules that are kept in memory, by name.
+export class MemoryFiles implements ModuleFiles {
+  constructor(private files: Map<string, string>) { }
+
+  public resolve(from: string, path: string): string {
+    return resolvePath(from, path);
+  }
+
+  public read(name: string): string {
+    const text = this.files.get(name);
+    if (text === undefined) {
+      throw new Error(`There is no module called ${name}.`);
+    }
+    return text;
+  }
+}
+
+/*
+  Fetch the modules that the text of the module called name requires,
+  and the modules that they require in turn, into files. A module that
+  cannot be fetched is left out of files, so that it is reported when
+  it is required.
+*/
+export async function fetchModules(
+  text: string,
+  name: string,
+  files: Map<string, string>,
+  fetch: (name: string) => Promise<string | undefined>,
+): Promise<void> {
+  const fetched = new Set<string>();
+  const pending: [string, string][] = [[name, text]];
+  while (pending.length > 0) {
+    const [from, fromText] = pending.pop()!;
+    for (const required of requiredModules(from, fromText)) {
+      if (fetched.has(required)) {
+        continue;
+      }
+      fetched.add(required);
+      const requiredText = await fetch(required);
+      if (requiredText === undefined) {
+        files.delete(required);
+      } else {
+        files.set(required, requiredText);
+        pending.push([required, requiredText]);
+      }
+    }
+  }
+}
+
+// The names of the modules that the text of the module called name requires.
+function requiredModules(name: string, text: string): string[] {
+  return pieDeclarationParser.parseProgram(text, name)
+    .map(form => form.declaration)
+    .filter((declaration): declaration is Require => declaration instanceof Require)
+    .map(req => resolvePath(name, req.path));
+}
+
+export class PieModule {
+  constructor(
+    public name: string,
+    public report: PieReport,
+  ) { }
+
+  // The binders of the names that the module provides.
+  public get provided(): Map<string, Binder> {
+    const ctx = this.report.context;
+    return new Map(this.report.provided.map(x => [x, ctx.get(x)!]));
+  }
+}
+
+export class ModuleLoader {
+  private modules = new Map<string, PieModule>();
+  // The modules that are being checked, each required by the one before.
+  private loading: string[] = [];
+  // The names of every module that has been required, whether or not it could be read.
+  public required = new Set<string>();
+
+  constructor(public files: ModuleFiles) { }
+
+  public isChecking(name: string): boolean {
+    return this.loading.includes(name);
+  }
+
+  // Check the module called name, which the modules that it requires cannot require.
+  public checking<T>(name: string, check: () => T): T {
+    this.loading.push(name);
+    try {
+      return check();
+    } finally {
+      this.loading.pop();
+    }
+  }
+
+  // The module that path refers to in the module called from.
+  public load(from: string, path: string, where: Location): Perhaps<PieModule> {
+    const name = this.files.resolve(from, path);
+    this.required.add(name);
+    const cached = this.modules.get(name);
+    if (cached !== undefined) {
+      return new go(cached);
+    }
+    const cycle = this.loading.indexOf(name);
+    if (cycle !== -1) {
+      const chain = this.loading.slice(cycle).concat([name]).join(' → ');
+      return new stop(where, new Message([`${path} requires itself: ${chain}.`]), 'module');
+    }
+    let text: string;
+    try {
+      text = this.files.read(name);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      return new stop(where, new Message([`Cannot read ${path}: ${reason}`]), 'module');
+    }
+    const report = checkPie(text, { source: name, modules: this });
+    const module = new PieModule(name, report);
+    this.modules.set(name, module);
+    return new go(module);
+  }
+}
+
+/*
+  Add the names that a required module provides to the context. A name
+  that is already in the context is an error, unless it is the same
+  one, provided by a module that has been required before.
+*/
+export function requireModule(ctx: Context, req: Require, modules: ModuleLoader | null): Perhaps<Context> {
+  if (modules === null) {
+    return new stop(
+      req.location,
+      new Message([`${req.path} cannot be required here, because there are no files to read modules from.`]),
+      'module'
+    );
+  }
+  const loaded = modules.load(req.location.syntax.source, req.path, req.location);
+  if (loaded instanceof stop) {
+    return loaded;
+  }
+  const module = (loaded as go<PieModule>).result;
+  if (!module.report.ok) {
+    return new stop(
+      req.location,
+      new Message([`${req.path} has errors.`]),
+      'module',
+      module.report.diagnostics
+        .filter(diagnostic => diagnostic.severity === 'error')
+        .map(diagnostic => new RelatedInformation(diagnostic.location, diagnostic.message))
+    );
+  }
+  for (const [x, binder] of module.provided) {
+    const existing = ctx.get(x);
+    if (binder instanceof Claim) {
+      return new stop(
+        req.location,
+        new Message([`${x} is provided by ${req.path}, but it is not defined there.`]),
+        'module'
+      );
+    } else if (existing === binder) {
+      continue;
+    } else if (existing !== undefined) {
+      return new stop(
+        req.location,
+        new Message([`${x} is provided by ${req.path}, but it is already declared.`]),
+        'name-in-use'
+      );
+    }
+    ctx = extendContext(ctx, x, binder);
+  }
+  return new go(ctx);
+}
+
+// A module may provide only the names that it has already declared.
+export function checkProvide(ctx: Context, provide: Provide): Perhaps<Context> {
+  for (const x of provide.names) {
+    if (!ctx.has(x.name)) {
+      return new stop(
+        x.location,
+        new Message([`${x.name} is provided, but it has not been declared.`]),
+        'unknown-variable'
+      );
+    }
+  }
+  return new go(ctx);
+}
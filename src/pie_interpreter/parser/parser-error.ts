@@ -0,0 +1,123 @@
+import { ParserError } from '../../scheme_parser/transpiler/parser/parser-error';
+import { LexerError } from '../../scheme_parser/transpiler/lexer/lexer-error';
+import { Location, SourceLocation } from '../utils/locations';
+
+/*
+  ## Errors in the shapes of forms ##
+
+  The Scheme reader checks only that a program is made of well-formed
+  lists. A list that is not a Pie form, because it has too few or too
+  many parts or because a part is of the wrong kind, is reported with
+  one of these errors. Each of them names the form, says how the form
+  is written, and carries the location of the part that is wrong.
+*/
+
+export abstract class PieParserError extends ParserError {
+  constructor(
+    public location: Location,
+    // The message without the position that ParserError adds to it.
+    public description: string,
+  ) {
+    super(description, location.syntax.start);
+  }
+}
+
+// A form with fewer parts than it is written with.
+export class PieMissingFormError extends PieParserError {
+  constructor(
+    location: Location,
+    public form: string,
+    public expected: string,
+    public usage: string,
+  ) {
+    super(location, `${form} is missing ${expected}. It is written ${usage}.`);
+    this.name = 'PieMissingFormError';
+  }
+}
+
+// A form with more parts than it is written with.
+export class ArityError extends PieParserError {
+  constructor(
+    location: Location,
+    public form: string,
+    public expected: string,
+    public got: number,
+    public usage: string,
+  ) {
+    super(
+      location,
+      `${form} expects ${expected}, but got ${got}. It is written ${usage}.`
+    );
+    this.name = 'ArityError';
+  }
+}
+
+// A part of a form that is not of the kind that the form expects.
+export class PieExpectedFormError extends PieParserError {
+  constructor(
+    location: Location,
+    // The form that the part belongs to, if it belongs to one.
+    public form: string | null,
+    public expected: string,
+    public got: string,
+  ) {
+    super(
+      location,
+      form === null
+        ? `Expected ${expected}, but got ${got}.`
+        : `${form} expects ${expected}, but got ${got}.`
+    );
+    this.name = 'PieExpectedFormError';
+  }
+}
+
+// A feature of Racket that Pie files are written without.
+export class UnsupportedFeatureError extends PieParserError {
+  constructor(
+    location: Location,
+    public feature: string,
+    // How Pie is written instead.
+    public instead: string,
+  ) {
+    super(location, `Pie does not support ${feature}. ${instead}`);
+    this.name = 'UnsupportedFeatureError';
+  }
+}
+
+export class ParseFailure {
+  constructor(
+    public line: number,
+    public column: number,
+    public endLine: number,
+    public endColumn: number,
+    public message: string,
+  ) { }
+
+  public toSourceLocation(source: string): SourceLocation {
+    return new SourceLocation(source, this.line, this.column, this.endLine, this.endColumn);
+  }
+}
+
+/*
+  Where and why a program could not be read, given the error that was
+  thrown while it was parsed. Errors that are not parser errors carry
+  no position, and are placed at the start of the program.
+*/
+export function parseFailure(e: unknown): ParseFailure {
+  if (e instanceof PieParserError) {
+    const { start, end } = e.location.syntax;
+    return new ParseFailure(start.line, start.column, end.line, end.column, e.description);
+  } else if (e instanceof ParserError || e instanceof LexerError) {
+    // The position is given separately. The message of a ParserError
+    // also shows the line that it is in, and ends with what is wrong.
+    const message = e instanceof ParserError
+      ? e.message.split('\n').pop()!
+      : e.message.replace(/ \(\d+:\d+\)$/, '');
+    const line = e.loc.line;
+    // The lexer counts the end of a line as column 0.
+    const column = Math.max(e.loc.column, 1);
+    return new ParseFailure(line, column, line, column, message);
+  }
+  const message = e instanceof Error ? e.message : String(e);
+  return new ParseFailure(1, 1, 1, 1, message);
+}
@@ -5,8 +5,12 @@ import { SchemeParser } from "../../scheme_parser/transpiler/parser/scheme-parse
 
 import { Extended, Atomic, Expression } from '../../scheme_parser/transpiler/types/nodes/scheme-node-types';
 import { Location, Syntax } from "../utils/locations";
-import { Location as Loc } from '../../scheme_parser/transpiler/types/location';
+import { Location as Loc, Position as Pos } from '../../scheme_parser/transpiler/types/location';
 import { isVarName, SiteBinder, TypedBinder } from "../types/utils";
+import { MissingFormError, ParserError, UnexpectedEOFError } from '../../scheme_parser/transpiler/parser/parser-error';
+import { LexerError } from '../../scheme_parser/transpiler/lexer/lexer-error';
+import { ArityError, PieExpectedFormError, PieMissingFormError, UnsupportedFeatureError } from "./parser-error";
+import { splitTopLevel } from "./recovery";
 
 type Element = Extended.List | Atomic.Symbol | Atomic.NumericLiteral;
 
@@ -19,13 +23,20 @@ function syntaxToLocation(syntax: Syntax): Location {
   );
 }
 
-function syntaxToSiteBinder(syntax: Syntax): SiteBinder {
+// A binder is located at the name that it binds.
+function elementToSiteBinder(element: Element, implicit: boolean = false): SiteBinder {
   return new SiteBinder(
-    syntaxToLocation(syntax),
-    syntax.source
+    syntaxToLocation(locationToSyntax(element.location)),
+    getValue(element),
+    implicit
   )
 }
 
+// Implicit binders and arguments are written in braces.
+function isBraced(element: Expression): boolean {
+  return element instanceof Extended.List && element.braced;
+}
+
 function getValue(element: Element): string {
   if (element instanceof Atomic.Symbol) {
     return element.value;
@@ -38,58 +49,400 @@ function getValue(element: Element): string {
   }
 }
 
-function locationToSyntax(source: string, location: Loc): Syntax {
+// The name of the file that is being parsed, which every Location records.
+let parsingSource = '';
+
+function withSource<T>(source: string, thunk: () => T): T {
+  const outer = parsingSource;
+  parsingSource = source;
+  try {
+    return thunk();
+  } finally {
+    parsingSource = outer;
+  }
+}
+
+function locationToSyntax(location: Loc): Syntax {
   return new Syntax(
     location.start,
     location.end,
-    source,
+    parsingSource,
   );
 }
 
-function elementToSyntax(element: Element, location: Loc): Syntax {
-  return locationToSyntax(getValue(element), location);
+// ### The shapes of forms
+
+// The parts that each form is written with.
+const formParts: Record<string, string[]> = {
+  'the': ['type', 'expr'],
+  'add1': ['n'],
+  'which-Nat': ['target', 'base', 'step'],
+  'iter-Nat': ['target', 'base', 'step'],
+  'rec-Nat': ['target', 'base', 'step'],
+  'ind-Nat': ['target', 'motive', 'base', 'step'],
+  'Pair': ['A', 'D'],
+  'cons': ['a', 'd'],
+  'car': ['p'],
+  'cdr': ['p'],
+  'quote': ['atom'],
+  'List': ['E'],
+  '::': ['e', 'es'],
+  'rec-List': ['target', 'base', 'step'],
+  'ind-List': ['target', 'motive', 'base', 'step'],
+  '=': ['X', 'from', 'to'],
+  'same': ['e'],
+  'replace': ['target', 'motive', 'base'],
+  'trans': ['target1', 'target2'],
+  'cong': ['target', 'f'],
+  'ind-=': ['target', 'motive', 'base'],
+  'symm': ['target'],
+  'Vec': ['E', 'len'],
+  'vec::': ['e', 'es'],
+  'head': ['es'],
+  'tail': ['es'],
+  'ind-Vec': ['len', 'target', 'motive', 'base', 'step'],
+  'Either': ['L', 'R'],
+  'left': ['l'],
+  'right': ['r'],
+  'ind-Either': ['target', 'motive', 'base-left', 'base-right'],
+  'ind-Absurd': ['target', 'motive'],
+};
+
+// The motive of these forms may be left out.
+const optionalMotive = new Set(['ind-Nat', 'ind-List', 'ind-Vec', 'ind-Either']);
+
+const constants = new Set([
+  'Nat', 'zero', 'Atom', 'Trivial', 'sole', 'nil', 'vecnil', 'Absurd', 'TODO'
+]);
+
+const declarationForms = new Set(['claim', 'define', 'check-same', 'data', 'require', 'provide']);
+
+// The reader writes `x, ,x and ,@x as these forms.
+const quasiquotation = new Set(['quasiquote', 'unquote', 'unquote-splicing']);
+
+function isArrow(name: string): boolean {
+  return name === '->' || name === '→';
+}
+
+function isLambda(name: string): boolean {
+  return name === 'lambda' || name === 'λ';
+}
+
+function isPi(name: string): boolean {
+  return name === 'Pi' || name === 'Π';
+}
+
+function isSigma(name: string): boolean {
+  return name === 'Sigma' || name === 'Σ';
+}
+
+function usageOf(form: string): string {
+  if (isArrow(form)) {
+    return `(${form} X ... Y)`;
+  } else if (isLambda(form)) {
+    return `(${form} (x ...) body)`;
+  } else if (isPi(form) || isSigma(form)) {
+    return `(${form} ((x A) ...) body)`;
+  }
+  return `(${[form, ...formParts[form]].join(' ')})`;
+}
+
+// The keyword or name that an element is, or that a list begins with.
+function formName(element: Expression): string {
+  if (element instanceof Extended.List) {
+    const head = element.elements[0];
+    return head instanceof Atomic.Symbol ? head.value : '';
+  } else if (element instanceof Atomic.Symbol || element instanceof Atomic.NumericLiteral) {
+    return element.value;
+  }
+  return '';
+}
+
+function locate(element: Expression): Location {
+  return syntaxToLocation(locationToSyntax(element.location));
+}
+
+// An element written out as it would appear in a program.
+function showElement(element: Expression): string {
+  if (element instanceof Extended.List) {
+    const elements = element.elements;
+    if (!element.braced && elements.length === 2
+      && elements[0] instanceof Atomic.Symbol && elements[0].value === 'quote') {
+      return `'${showElement(elements[1])}`;
+    }
+    const shown = elements.map(showElement).join(' ');
+    return element.braced ? `{${shown}}` : `(${shown})`;
+  } else if (element instanceof Atomic.Nil) {
+    return '()';
+  } else if (element instanceof Atomic.StringLiteral) {
+    return JSON.stringify(element.value);
+  } else if (element instanceof Atomic.BooleanLiteral) {
+    return element.value ? '#t' : '#f';
+  } else if (element instanceof Atomic.Symbol || element instanceof Atomic.NumericLiteral) {
+    return element.value;
+  }
+  return String(element);
+}
+
+function partCount(n: number): string {
+  return `${n} ${n === 1 ? 'argument' : 'arguments'}`;
+}
+
+/*
+  Check that a form has as many parts as it is written with. When one
+  of them is optional, it is the one that is left out.
+*/
+function checkParts(list: Extended.List, form: string, parts: string[], optional: string | null = null): void {
+  const got = list.elements.length - 1;
+  const fewest = optional === null ? parts.length : parts.length - 1;
+  const usage = `(${[form, ...parts].join(' ')})`;
+  if (got < fewest) {
+    const required = parts.filter(part => part !== optional);
+    throw new PieMissingFormError(locate(list), form, `the argument ${required[got]}`, usage);
+  } else if (got > parts.length) {
+    const expected = fewest === parts.length
+      ? partCount(fewest)
+      : `${fewest} or ${partCount(parts.length)}`;
+    throw new ArityError(
+      locate(list.elements[parts.length + 1]), form, expected, got, usage
+    );
+  }
+}
+
+function checkVariable(element: Expression, form: string): void {
+  if (!(element instanceof Atomic.Symbol) || !isVarName(element.value)) {
+    throw new PieExpectedFormError(locate(element), form, 'a variable', showElement(element));
+  }
+}
+
+/*
+  Check a list of binding pairs ((x A) ...). Pairs may be written in
+  braces when the variable that they bind is implicit.
+*/
+function checkBindings(element: Expression, form: string, mayBeEmpty: boolean, mayBeBraced: boolean): void {
+  if (element instanceof Atomic.Nil && mayBeEmpty) {
+    return;
+  }
+  if (!(element instanceof Extended.List) || element.braced || element.elements.length === 0) {
+    throw new PieExpectedFormError(
+      locate(element), form, 'a list of bindings ((x A) ...)', showElement(element)
+    );
+  }
+  for (const pair of element.elements) {
+    if (!(pair instanceof Extended.List) || (pair.braced && !mayBeBraced)
+      || pair.elements.length !== 2) {
+      throw new PieExpectedFormError(locate(pair), form, 'a binding (x A)', showElement(pair));
+    }
+    checkVariable(pair.elements[0], form);
+  }
+}
+
+// Check the variables (x ...) of a λ, which may be written {x} when implicit.
+function checkLambdaVariables(element: Expression, form: string): void {
+  if (!(element instanceof Extended.List) || element.braced || element.elements.length === 0) {
+    throw new PieExpectedFormError(
+      locate(element), form, 'a list of variables (x ...)', showElement(element)
+    );
+  }
+  for (const x of element.elements) {
+    if (isBraced(x)) {
+      const inner = (x as Extended.List).elements;
+      if (inner.length !== 1) {
+        throw new PieExpectedFormError(locate(x), form, 'a variable', showElement(x));
+      }
+      checkVariable(inner[0], form);
+    } else {
+      checkVariable(x, form);
+    }
+  }
+}
+
+/*
+  Check the outermost shape of an expression before it is parsed. The
+  parts of a form are checked when they are parsed in turn, except for
+  the binders of λ, Π and Σ, which are not expressions.
+*/
+function checkShape(element: Expression): void {
+  if (element instanceof Atomic.Symbol) {
+    const name = element.value;
+    if (name in formParts || isArrow(name) || isLambda(name) || isPi(name) || isSigma(name)) {
+      throw new PieMissingFormError(locate(element), name, 'its arguments', usageOf(name));
+    } else if (declarationForms.has(name)) {
+      throw new PieExpectedFormError(locate(element), null, 'an expression', name);
+    }
+    return;
+  } else if (element instanceof Atomic.NumericLiteral) {
+    if (!/^[0-9]+$/.test(element.value)) {
+      throw new PieExpectedFormError(locate(element), null, 'a natural number', element.value);
+    }
+    return;
+  } else if (element instanceof Atomic.StringLiteral) {
+    throw new UnsupportedFeatureError(
+      locate(element), 'strings', "Atoms are written with a quote, as in 'abc."
+    );
+  } else if (element instanceof Atomic.BooleanLiteral) {
+    throw new UnsupportedFeatureError(
+      locate(element), '#t and #f', 'Truth values can be declared with data.'
+    );
+  } else if (element instanceof Atomic.Vector) {
+    throw new UnsupportedFeatureError(
+      locate(element), 'vector literals', 'Vectors are built with vecnil and vec::.'
+    );
+  } else if (element instanceof Extended.List && element.terminator !== undefined) {
+    throw new UnsupportedFeatureError(
+      locate(element), 'dotted pairs', 'Pairs are built with cons.'
+    );
+  } else if (!(element instanceof Extended.List) || element.braced) {
+    throw new PieExpectedFormError(locate(element), null, 'an expression', showElement(element));
+  }
+  const [head, ...args] = element.elements;
+  const form = formName(element);
+  if (quasiquotation.has(form)) {
+    throw new UnsupportedFeatureError(
+      locate(element), 'quasiquotation', "Atoms are written with a quote, as in 'abc."
+    );
+  } else if (form in formParts) {
+    checkParts(element, form, formParts[form], optionalMotive.has(form) ? 'motive' : null);
+    if (form === 'quote' && !(args[0] instanceof Atomic.Symbol)) {
+      throw new PieExpectedFormError(locate(args[0]), form, 'an atom', showElement(args[0]));
+    }
+  } else if (isArrow(form)) {
+    if (args.length < 2) {
+      const missing = args.length === 0 ? 'its argument type' : 'its result type';
+      throw new PieMissingFormError(locate(element), form, missing, usageOf(form));
+    }
+  } else if (isLambda(form)) {
+    checkParts(element, form, ['(x ...)', 'body']);
+    checkLambdaVariables(args[0], form);
+  } else if (isPi(form) || isSigma(form)) {
+    checkParts(element, form, ['((x A) ...)', 'body']);
+    checkBindings(args[0], form, false, isPi(form));
+  } else if (constants.has(form) || isUniverse(form)) {
+    throw new PieExpectedFormError(locate(element), null, form, showElement(element));
+  } else if (declarationForms.has(form)) {
+    throw new PieExpectedFormError(locate(head), null, 'an expression', form);
+  } else if (args.length === 0) {
+    const f = showElement(head);
+    throw new PieMissingFormError(locate(element), f, 'an argument', `(${f} arg ...)`);
+  }
+}
+
+// Check the shape of a top-level form that is a declaration.
+function checkDeclarationShape(ast: Expression): void {
+  if (!(ast instanceof Extended.List)) {
+    return;
+  }
+  const form = formName(ast);
+  const [, name, ...rest] = ast.elements;
+  if (form === 'claim' || form === 'define') {
+    checkParts(ast, form, ['name', form === 'claim' ? 'type' : 'expr']);
+    checkVariable(name, form);
+  } else if (form === 'check-same') {
+    checkParts(ast, form, ['type', 'expr1', 'expr2']);
+  } else if (form === 'require') {
+    checkParts(ast, form, ['"file.pie"']);
+    if (!(name instanceof Atomic.StringLiteral)) {
+      throw new PieExpectedFormError(locate(name), form, 'a file name in quotes', showElement(name));
+    }
+  } else if (form === 'provide') {
+    if (name === undefined) {
+      throw new PieMissingFormError(locate(ast), form, 'the names that it provides', '(provide name ...)');
+    }
+    ast.elements.slice(1).forEach(x => checkVariable(x, form));
+  } else if (form === 'data') {
+    const usage = '(data name ((x A) ...) ((i A) ...) constructor ...)';
+    const parts = ['name', 'parameters', 'indices'];
+    if (ast.elements.length - 1 < parts.length) {
+      throw new PieMissingFormError(locate(ast), form, `its ${parts[ast.elements.length - 1]}`, usage);
+    }
+    checkVariable(name, form);
+    checkBindings(rest[0], form, true, false);
+    checkBindings(rest[1], form, true, false);
+    for (const ctor of rest.slice(2)) {
+      const ctorUsage = '(constructor ((x A) ...) type)';
+      if (!(ctor instanceof Extended.List) || ctor.braced || ctor.elements.length !== 3) {
+        throw new PieExpectedFormError(locate(ctor), form, `a constructor ${ctorUsage}`, showElement(ctor));
+      }
+      checkVariable(ctor.elements[0], form);
+      checkBindings(ctor.elements[1], form, true, false);
+    }
+  }
+}
+
+/*
+  Racket reads a file as Pie when it begins with #lang pie, after any
+  comments. The line is blanked out rather than removed, so that what
+  follows it keeps its position. Gives the text that is left to read,
+  and the error for a #lang line of another language.
+*/
+function readLangLine(stx: string, source: string): [string, UnsupportedFeatureError | null] {
+  const match = /^((?:\s|;[^\n]*)*)#lang([^\n]*)/.exec(stx);
+  if (match === null) {
+    return [stx, null];
+  }
+  const [line, before, lang] = match;
+  const text = before + ' '.repeat(line.length - before.length) + stx.slice(line.length);
+  if (lang.trim() === 'pie') {
+    return [text, null];
+  }
+  const lines = before.split('\n');
+  const start = new Pos(lines.length, lines[lines.length - 1].length + 1);
+  const end = new Pos(start.line, start.column + line.length - before.length - 1);
+  const error = new UnsupportedFeatureError(
+    syntaxToLocation(new Syntax(start, end, source)),
+    `#lang${lang.trimEnd()}`,
+    'Pie files begin with #lang pie, or with no #lang line.'
+  );
+  return [text, error];
 }
 
 // ### Parser
 // The parser class is responsible for parsing the AST generated by the SchemeParser
 export function schemeParse(stx: string): Extended.List[] {
-  const lexer = new SchemeLexer(stx);
-  const parser = new SchemeParser('', lexer.scanTokens());
-  const ast: Extended.List[] = parser.parse() as Extended.List[];
+  const [text, error] = readLangLine(stx, parsingSource);
+  if (error !== null) {
+    throw error;
+  }
+  const lexer = new SchemeLexer(text);
+  const parser = new SchemeParser(text, lexer.scanTokens());
+  // Pie programs are read as s-expressions directly, without first
+  // being checked as Scheme programs.
+  const ast: Extended.List[] = parser.parse(true) as Extended.List[];
   return ast;
 }
 
 export class Parser {
-  public static parsePie(stx: string): S.Source {
-    return Parser.parseElements(schemeParse(stx)[0]); 
+  public static parsePie(stx: string, source: string = ''): S.Source {
+    return withSource(source, () => Parser.parseElements(schemeParse(stx)[0]));
   }
 
   public static parseElements(element: Element): S.Source {
-    const parsee = getValue(element);
-    if (parsee === 'U') {
-      return makeU(locationToSyntax('U', element.location));
+    checkShape(element);
+    const parsee = formName(element);
+    if (isUniverse(parsee)) {
+      return makeU(locationToSyntax(element.location), universeLevel(parsee));
     } else if (parsee === 'the') {
       let elements = (element as Extended.List).elements;
       let loc = element.location;
       return makeThe(
-        locationToSyntax('the', loc),
+        locationToSyntax(loc),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element)
       );
     } else if (parsee === 'Nat') {
-      return makeNat(locationToSyntax('Nat', element.location));
+      return makeNat(locationToSyntax(element.location));
     } else if (parsee === 'zero') {
-      return makeZero(locationToSyntax('zero', element.location));
+      return makeZero(locationToSyntax(element.location));
     } else if (parsee === 'add1') {
       return makeAdd1(
-        locationToSyntax('add1', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element)
       );
     } else if (parsee === '->' || parsee === '→') {
       let elements = (element as Extended.List).elements;
       let loc = element.location;
       return makeArrow(
-        locationToSyntax('->', loc),
+        locationToSyntax(loc),
         [
           this.parseElements(elements[1] as Element),
           this.parseElements(elements[2] as Element),
@@ -102,12 +455,10 @@ export class Parser {
       let args = elements[1] as Extended.List;
       let body = elements[2] as Element;
       return makeLambda(
-        locationToSyntax('λ', loc),
+        locationToSyntax(loc),
         args.elements.map(
           (x: Expression) =>
-            syntaxToSiteBinder(
-              elementToSyntax(x as Element, element.location)
-            )
+            elementToSiteBinder(x as Element, isBraced(x))
         ),
         this.parseElements(body)
       );
@@ -127,15 +478,15 @@ export class Parser {
         let x = pair.elements[0] as Element;
         let A = pair.elements[1] as Element;
         return new TypedBinder(
-          syntaxToSiteBinder(elementToSyntax(x, pair.location)),
+          elementToSiteBinder(x, isBraced(pair)),
           this.parseElements(A)
         );
       });
       return makePi(
-        locationToSyntax('Π', (element as Extended.List).location),
+        locationToSyntax((element as Extended.List).location),
         makeTypedBinders(
           new TypedBinder(
-            syntaxToSiteBinder(elementToSyntax(x0, firstPair.location)),
+            elementToSiteBinder(x0, isBraced(firstPair)),
             this.parseElements(A0)
           ),
           processedPairs
@@ -158,15 +509,15 @@ export class Parser {
         let x = pair.elements[0] as Element;
         let A = pair.elements[1] as Element;
         return new TypedBinder(
-          syntaxToSiteBinder(elementToSyntax(x, pair.location)),
+          elementToSiteBinder(x),
           this.parseElements(A)
         );
       });
       return makeSigma(
-        locationToSyntax('Π', (element as Extended.List).location),
+        locationToSyntax((element as Extended.List).location),
         makeTypedBinders(
           new TypedBinder(
-            syntaxToSiteBinder(elementToSyntax(x0, firstPair.location)),
+            elementToSiteBinder(x0),
             this.parseElements(A0)
           ),
           processedPairs
@@ -175,31 +526,31 @@ export class Parser {
     } else if (parsee === 'Pair') {
       let elements = (element as Extended.List).elements;
       return makePair(
-        locationToSyntax('Pair', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element)
       );
     } else if (parsee === 'cons') {
       let elements = (element as Extended.List).elements;
       return makeCons(
-        locationToSyntax('Cons', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element)
       );
     } else if (parsee === 'car') {
       return makeCar(
-        locationToSyntax('car', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element)
       );
     } else if (parsee === 'cdr') {
       return makeCdr(
-        locationToSyntax('cdr', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element)
       );
     } else if (parsee === 'which-Nat') {
       let elements = (element as Extended.List).elements;
       return makeWhichNat(
-        locationToSyntax('which-Nat', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
         this.parseElements(elements[3] as Element),
@@ -207,7 +558,7 @@ export class Parser {
     } else if (parsee === 'iter-Nat') {
       let elements = (element as Extended.List).elements;
       return makeIterNat(
-        locationToSyntax('iter-Nat', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
         this.parseElements(elements[3] as Element),
@@ -215,79 +566,84 @@ export class Parser {
     } else if (parsee === 'rec-Nat') {
       let elements = (element as Extended.List).elements;
       return makeRecNat(
-        locationToSyntax('rec-Nat', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
         this.parseElements(elements[3] as Element),
       );
     } else if (parsee === 'ind-Nat') {
       let elements = (element as Extended.List).elements;
+      // (ind-Nat target base step) leaves out the motive.
+      const [target, ...rest] = elements.slice(1);
+      const [motive, base, step] = rest.length === 2 ? [null, ...rest] : rest;
       return makeIndNat(
-        locationToSyntax('ind-Nat', element.location),
-        this.parseElements(elements[1] as Element),
-        this.parseElements(elements[2] as Element),
-        this.parseElements(elements[3] as Element),
-        this.parseElements(elements[4] as Element),
+        locationToSyntax(element.location),
+        this.parseElements(target as Element),
+        motive === null ? null : this.parseElements(motive as Element),
+        this.parseElements(base as Element),
+        this.parseElements(step as Element),
       );
     } else if (parsee === 'Atom') {
-      return makeAtom(locationToSyntax('Atom', element.location));
+      return makeAtom(locationToSyntax(element.location));
     } else if (parsee === 'quote') {
       return makeQuote(
-        locationToSyntax('Quote', element.location),
+        locationToSyntax(element.location),
         getValue((element as Extended.List).elements[1] as Element)
       );
     } else if (parsee === 'Trivial') {
-      return makeTrivial(locationToSyntax('Trivial', element.location));
+      return makeTrivial(locationToSyntax(element.location));
     } else if (parsee === 'sole') {
-      return makeSole(locationToSyntax('sole', element.location));
+      return makeSole(locationToSyntax(element.location));
     } else if (parsee === 'List') {
       return makeList(
-        locationToSyntax('List', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element)
       );
     } else if (parsee === 'nil') {
-      return makeNil(locationToSyntax('nil', element.location));
+      return makeNil(locationToSyntax(element.location));
     } else if (parsee === '::') {
       let elements = (element as Extended.List).elements;
       return makeListCons(
-        locationToSyntax('::', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
       );
     } else if (parsee === 'rec-List') {
       let elements = (element as Extended.List).elements;
       return makeRecList(
-        locationToSyntax('rec-List', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
         this.parseElements(elements[3] as Element),
       );
     } else if (parsee === 'ind-List') {
       let elements = (element as Extended.List).elements;
+      const [target, ...rest] = elements.slice(1);
+      const [motive, base, step] = rest.length === 2 ? [null, ...rest] : rest;
       return makeIndList(
-        locationToSyntax('ind-List', element.location),
-        this.parseElements(elements[1] as Element),
-        this.parseElements(elements[2] as Element),
-        this.parseElements(elements[3] as Element),
-        this.parseElements(elements[4] as Element),
+        locationToSyntax(element.location),
+        this.parseElements(target as Element),
+        motive === null ? null : this.parseElements(motive as Element),
+        this.parseElements(base as Element),
+        this.parseElements(step as Element),
       );
     } else if (parsee === '=') {
       let elements = (element as Extended.List).elements;
       return makeEqual(
-        locationToSyntax('=', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
         this.parseElements(elements[3] as Element),
       );
     } else if (parsee === 'same') {
       return makeSame(
-        locationToSyntax('same', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element)
       );
     } else if (parsee === 'replace') {
       let elements = (element as Extended.List).elements;
       return makeReplace(
-        locationToSyntax('replace', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
         this.parseElements(elements[3] as Element),
@@ -295,130 +651,155 @@ export class Parser {
     } else if (parsee === 'trans') {
       let elements = (element as Extended.List).elements;
       return makeTrans(
-        locationToSyntax('trans', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
       );
     } else if (parsee === 'cong') {
       let elements = (element as Extended.List).elements;
       return makeCong(
-        locationToSyntax('cong', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
       );
     } else if (parsee === 'ind-=') {
       let elements = (element as Extended.List).elements;
       return makeIndEqual(
-        locationToSyntax('ind-=', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
         this.parseElements(elements[3] as Element),
       );
     } else if (parsee === 'symm') {
       return makeSymm(
-        locationToSyntax('symm', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element),
       );
     } else if (parsee === 'Vec') {
       let elements = (element as Extended.List).elements;
       return makeVec(
-        locationToSyntax('Vec', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
       );
     } else if (parsee === 'vecnil') {
       return makeVecNil(
-        locationToSyntax('vecnil', element.location),
+        locationToSyntax(element.location),
       );
     } else if (parsee === 'vec::') {
       let elements = (element as Extended.List).elements;
       return makeVecCons(
-        locationToSyntax('vec::', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
       );
     } else if (parsee === 'head') {
       return makeHead(
-        locationToSyntax('head', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element),
       );
     } else if (parsee === 'tail') {
       return makeTail(
-        locationToSyntax('tail', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element),
       );
     } else if (parsee === 'ind-Vec') {
       let elements = (element as Extended.List).elements;
+      const [length, target, ...rest] = elements.slice(1);
+      const [motive, base, step] = rest.length === 2 ? [null, ...rest] : rest;
       return makeIndVec(
-        locationToSyntax('ind-Vec', element.location),
-        this.parseElements(elements[1] as Element),
-        this.parseElements(elements[2] as Element),
-        this.parseElements(elements[3] as Element),
-        this.parseElements(elements[4] as Element),
-        this.parseElements(elements[5] as Element),
+        locationToSyntax(element.location),
+        this.parseElements(length as Element),
+        this.parseElements(target as Element),
+        motive === null ? null : this.parseElements(motive as Element),
+        this.parseElements(base as Element),
+        this.parseElements(step as Element),
       );
     } else if (parsee === 'Either') {
       let elements = (element as Extended.List).elements;
       return makeEither(
-        locationToSyntax('Either', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
       );
     } else if (parsee === 'left') {
       return makeLeft(
-        locationToSyntax('left', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element),
       );
     }
     else if (parsee === 'right') {
       return makeRight(
-        locationToSyntax('right', element.location),
+        locationToSyntax(element.location),
         this.parseElements((element as Extended.List).elements[1] as Element),
       );
     } else if (parsee === 'ind-Either') {
       let elements = (element as Extended.List).elements;
+      const [target, ...rest] = elements.slice(1);
+      const [motive, left, right] = rest.length === 2 ? [null, ...rest] : rest;
       return makeIndEither(
-        locationToSyntax('ind-Either', element.location),
-        this.parseElements(elements[1] as Element),
-        this.parseElements(elements[2] as Element),
-        this.parseElements(elements[3] as Element),
-        this.parseElements(elements[4] as Element),
+        locationToSyntax(element.location),
+        this.parseElements(target as Element),
+        motive === null ? null : this.parseElements(motive as Element),
+        this.parseElements(left as Element),
+        this.parseElements(right as Element),
       );
     } else if (parsee === 'Absurd') {
       return makeAbsurd(
-        locationToSyntax('Absurd', element.location),
+        locationToSyntax(element.location),
       );
     } else if (parsee === 'ind-Absurd') {
       let elements = (element as Extended.List).elements;
       return makeIndAbsurd(
-        locationToSyntax('ind-Absurd', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[1] as Element),
         this.parseElements(elements[2] as Element),
       );
     } else if (parsee === 'TODO') {
-      return makeTODO(locationToSyntax('TODO', element.location));
+      return makeTODO(locationToSyntax(element.location));
     } else if (element instanceof Extended.List && (element as Extended.List).elements.length > 1) {
       let elements = (element as Extended.List).elements;
       return makeApp(
-        locationToSyntax('App', element.location),
+        locationToSyntax(element.location),
         this.parseElements(elements[0] as Element),
-        this.parseElements(elements[1] as Element),
-        elements.slice(2).map((x: Expression) => this.parseElements(x as Element)
+        this.parseArgument(elements[1] as Element),
+        elements.slice(2).map((x: Expression) => this.parseArgument(x as Element)
         )
       );
     } else if (isVarName(parsee)) {
-      return makeVarRef(locationToSyntax(parsee, element.location), parsee);
+      return makeVarRef(locationToSyntax(element.location), parsee);
     } else if (!isNaN(Number(parsee))) { // numeric literal
-      return makeNatLiteral(locationToSyntax(parsee, element.location), parsee);
+      return makeNatLiteral(locationToSyntax(element.location), parsee);
+    }
+    throw new PieExpectedFormError(locate(element), null, 'an expression', showElement(element));
+  }
+
+  // An argument in braces is given for an implicit argument.
+  private static parseArgument(element: Element): S.Source {
+    if (isBraced(element)) {
+      const inner = (element as Extended.List).elements[0] as Element;
+      return makeImplicitArgument(
+        locationToSyntax(element.location),
+        this.parseElements(inner)
+      );
     }
-    throw new Error('Unexpected element: ' + element);
+    return this.parseElements(element);
   }
 }
 
 // ### Helper functions for parsing the AST
 
-function makeU(stx: Syntax): S.Source {
-  return new S.Universe(syntaxToLocation(stx));
+// U is the same as U0.
+function isUniverse(name: string): boolean {
+  return /^U[0-9]*$/.test(name);
+}
+
+function universeLevel(name: string): number {
+  return name === 'U' ? 0 : Number(name.slice(1));
+}
+
+function makeU(stx: Syntax, level: number): S.Source {
+  return new S.Universe(syntaxToLocation(stx), level);
 }
 
 function makeArrow(stx: Syntax, args: [S.Source, S.Source, S.Source[]]): S.Source {
@@ -457,6 +838,10 @@ function makeApp(stx: Syntax, func: S.Source, arg0: S.Source, args: S.Source[]):
   return new S.Application(syntaxToLocation(stx), func, arg0, args);
 }
 
+function makeImplicitArgument(stx: Syntax, arg: S.Source): S.Source {
+  return new S.ImplicitArgument(syntaxToLocation(stx), arg);
+}
+
 function makeAtom(stx: Syntax): S.Source {
   return new S.Atom(syntaxToLocation(stx));
 }
@@ -541,7 +926,7 @@ function makeRecNat(stx: Syntax, target: S.Source, base: S.Source, step: S.Sourc
   return new S.RecNat(syntaxToLocation(stx), target, base, step);
 }
 
-function makeIndNat(stx: Syntax, target: S.Source, mot: S.Source, base: S.Source, step: S.Source): S.Source {
+function makeIndNat(stx: Syntax, target: S.Source, mot: S.Source | null, base: S.Source, step: S.Source): S.Source {
   return new S.IndNat(syntaxToLocation(stx), target, mot, base, step);
 }
 
@@ -549,15 +934,15 @@ function makeRecList(stx: Syntax, target: S.Source, base: S.Source, step: S.Sour
   return new S.RecList(syntaxToLocation(stx), target, base, step);
 }
 
-function makeIndList(stx: Syntax, target: S.Source, mot: S.Source, base: S.Source, step: S.Source): S.Source {
+function makeIndList(stx: Syntax, target: S.Source, mot: S.Source | null, base: S.Source, step: S.Source): S.Source {
   return new S.IndList(syntaxToLocation(stx), target, mot, base, step);
 }
 
-function makeIndEither(stx: Syntax, target: S.Source, mot: S.Source, base: S.Source, step: S.Source): S.Source {
+function makeIndEither(stx: Syntax, target: S.Source, mot: S.Source | null, base: S.Source, step: S.Source): S.Source {
   return new S.IndEither(syntaxToLocation(stx), target, mot, base, step);
 }
 
-function makeIndVec(stx: Syntax, length: S.Source, target: S.Source, mot: S.Source, base: S.Source, step: S.Source): S.Source {
+function makeIndVec(stx: Syntax, length: S.Source, target: S.Source, mot: S.Source | null, base: S.Source, step: S.Source): S.Source {
   return new S.IndVec(syntaxToLocation(stx), length, target, mot, base, step);
 }
 
@@ -610,7 +995,10 @@ function makeVarRef(stx: Syntax, ref: string): S.Source {
 }
 
 function makeNatLiteral(stx: Syntax, num: string): S.Source {
-  return new S.Number(syntaxToLocation(stx), Number(num));
+  if (!/^[+-]?[0-9]+$/.test(num)) {
+    throw new Error('Expected a natural number literal, but got: ' + num);
+  }
+  return new S.Number(syntaxToLocation(stx), BigInt(num));
 }
 
 function makeTODO(stx: Syntax): S.Source {
@@ -644,36 +1032,215 @@ export class SamenessCheck {
 
 
 
-export type Declaration = Claim | Definition | SamenessCheck | S.Source;
+export class ConstructorDeclaration {
+  constructor (
+    public location: Location,
+    public name: string,
+    public fields: TypedBinder[],
+    public type: S.Source
+  ) {}
+}
+
+export class DataDeclaration {
+  constructor (
+    public location: Location,
+    public name: string,
+    public params: TypedBinder[],
+    public indices: TypedBinder[],
+    public constructors: ConstructorDeclaration[]
+  ) {}
+}
+
+// A module whose provided names are used by the rest of the file.
+export class Require {
+  constructor (
+    public location: Location,
+    // The file of the module, relative to the file that requires it.
+    public path: string
+  ) {}
+}
+
+// The names that a module gives to the modules that require it.
+export class Provide {
+  constructor (
+    public location: Location,
+    public names: S.Name[]
+  ) {}
+}
+
+/*
+  A top-level form that could not be read. It is reported with the
+  error that reading it raised, and the rest of the program is read
+  without it.
+*/
+export class MalformedDeclaration {
+  constructor (
+    public location: Location,
+    public error: ParserError | LexerError,
+    // The kind of declaration that it begins like, and the name that
+    // it appears to declare.
+    public form: 'claim' | 'define' | 'check-same' | 'data' | null,
+    public name: string | null
+  ) {}
+}
+
+export type Declaration =
+  Claim | Definition | SamenessCheck | DataDeclaration | Require | Provide
+  | MalformedDeclaration | S.Source;
+
+// A top-level form, with the way it was read.
+export class TopLevelForm {
+  constructor (
+    // The form as it was read, which tells whether it has changed.
+    public syntax: string,
+    public declaration: Declaration
+  ) {}
+}
+
+// Parse a possibly empty list of binding pairs ((x A) ...).
+function parseTypedBinderList(element: Expression): TypedBinder[] {
+  if (element instanceof Atomic.Nil) {
+    return [];
+  }
+  return (element as Extended.List).elements.map(pair => {
+    const elements = (pair as Extended.List).elements;
+    return new TypedBinder(
+      elementToSiteBinder(elements[0] as Element),
+      Parser.parseElements(elements[1] as Element)
+    );
+  });
+}
 
 
 export class pieDeclarationParser {
-  public static parseDeclaration(ast: Extended.List): Declaration {
-    const parsee = getValue(ast);
+  // Parse a top-level form of the file called source.
+  public static parseDeclaration(ast: Extended.List, source: string = ''): Declaration {
+    return withSource(source, () => pieDeclarationParser.parseForm(ast));
+  }
+
+  /*
+    Parse every top-level form of a program. A form that cannot be read
+    is parsed as a MalformedDeclaration, so that each syntax error in
+    the program is found, rather than only the first. So is a #lang
+    line for a language other than Pie.
+  */
+  public static parseProgram(stx: string, source: string = ''): TopLevelForm[] {
+    const forms: TopLevelForm[] = [];
+    const [program, langError] = readLangLine(stx, source);
+    if (langError !== null) {
+      forms.push(new TopLevelForm(
+        JSON.stringify(['#lang', langError.description]),
+        new MalformedDeclaration(langError.location, langError, null, null)
+      ));
+    }
+    for (const text of splitTopLevel(program)) {
+      const malformed = (error: ParserError | LexerError) => {
+        const location = syntaxToLocation(new Syntax(text.start, text.end, source));
+        const [form, name] = declaredBy(text.text);
+        return new MalformedDeclaration(location, error, form, name);
+      };
+      let asts: Expression[];
+      try {
+        // The form is lexed where it is in the program, so that what
+        // is read from it is located in the program.
+        const lexer = new SchemeLexer(text.text, text.start.line, text.start.column);
+        asts = new SchemeParser(program, lexer.scanTokens()).parse(true);
+      } catch (e) {
+        if (!(e instanceof ParserError || e instanceof LexerError)) {
+          throw e;
+        }
+        // The text of a form ends where the form should have been closed.
+        const error = e instanceof UnexpectedEOFError
+          ? new MissingFormError(program, e.loc, ')')
+          : e;
+        forms.push(new TopLevelForm(JSON.stringify([text.start, text.text]), malformed(error)));
+        continue;
+      }
+      for (const ast of asts) {
+        let declaration: Declaration;
+        try {
+          declaration = pieDeclarationParser.parseDeclaration(ast as Extended.List, source);
+        } catch (e) {
+          if (!(e instanceof ParserError)) {
+            throw e;
+          }
+          declaration = malformed(e);
+        }
+        forms.push(new TopLevelForm(JSON.stringify(ast), declaration));
+      }
+    }
+    return forms;
+  }
+
+  private static parseForm(ast: Extended.List): Declaration {
+    checkDeclarationShape(ast);
+    const parsee = formName(ast);
     if (parsee === 'claim') {
       let elements = (ast as Extended.List).elements;
       return new Claim(
-        syntaxToLocation(elementToSyntax(elements[0] as Element, ast.location)),
+        syntaxToLocation(locationToSyntax(ast.location)),
         getValue(elements[1] as Element),
         Parser.parseElements(elements[2] as Element)
       );
     } else if (parsee === 'define') {
       let elements = (ast as Extended.List).elements;
       return new Definition(
-        syntaxToLocation(elementToSyntax(elements[0] as Element, ast.location)),
+        syntaxToLocation(locationToSyntax(ast.location)),
         getValue(elements[1] as Element),
         Parser.parseElements(elements[2] as Element)
       );
     } else if (parsee === 'check-same') {
       let elements = (ast as Extended.List).elements;
       return new SamenessCheck(
-        syntaxToLocation(elementToSyntax(elements[0] as Element, ast.location)),
+        syntaxToLocation(locationToSyntax(ast.location)),
         Parser.parseElements(elements[1] as Element),
         Parser.parseElements(elements[2] as Element),
         Parser.parseElements(elements[3] as Element)
       );
+    } else if (parsee === 'require') {
+      return new Require(
+        syntaxToLocation(locationToSyntax(ast.location)),
+        (ast.elements[1] as Atomic.StringLiteral).value
+      );
+    } else if (parsee === 'provide') {
+      return new Provide(
+        syntaxToLocation(locationToSyntax(ast.location)),
+        ast.elements.slice(1).map(x =>
+          makeVarRef(locationToSyntax(x.location), getValue(x as Element)) as S.Name
+        )
+      );
+    } else if (parsee === 'data') {
+      let elements = (ast as Extended.List).elements;
+      return new DataDeclaration(
+        syntaxToLocation(locationToSyntax(ast.location)),
+        getValue(elements[1] as Element),
+        parseTypedBinderList(elements[2]),
+        parseTypedBinderList(elements[3]),
+        elements.slice(4).map(ctor => {
+          let ctorElements = (ctor as Extended.List).elements;
+          return new ConstructorDeclaration(
+            syntaxToLocation(locationToSyntax(ctor.location)),
+            getValue(ctorElements[0] as Element),
+            parseTypedBinderList(ctorElements[1]),
+            Parser.parseElements(ctorElements[2] as Element)
+          );
+        })
+      );
     } else {
       return Parser.parseElements(ast);
     }
   }
-}
\ No newline at end of file
+}
+
+/*
+  The kind of declaration that the text of a form begins like, and the
+  name that it declares, if they can be told without reading it.
+*/
+function declaredBy(text: string): [MalformedDeclaration['form'], string | null] {
+  const match = /^\(\s*(claim|define|check-same|data)(?:\s+([^\s()[\]{}";'`,]+))?/.exec(text);
+  if (match === null) {
+    return [null, null];
+  }
+  const form = match[1] as MalformedDeclaration['form'];
+  return [form, form === 'check-same' ? null : match[2] ?? null];
+}
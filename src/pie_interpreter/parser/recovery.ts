@@ -0,0 +1,150 @@
+import { Position } from '../../scheme_parser/transpiler/types/location';
+
+/*
+  ## Finding the top-level forms of a program ##
+
+  A program is split into the text of each of its top-level forms
+  before any of them is read, so that a form that cannot be read does
+  not keep the others from being read. Each form runs from the first
+  character of a datum to the parenthesis that balances it.
+
+  When a form is not closed, the next form is found at the next open
+  parenthesis that is at the start of a line, because a top-level form
+  is written there and a nested form rarely is. A closing parenthesis
+  that closes nothing is a form by itself, which cannot be read, and
+  so is a block comment that is never closed.
+*/
+
+export class TopLevelText {
+  constructor(
+    // The positions of the first and the last character of the form.
+    public start: Position,
+    public end: Position,
+    public text: string,
+  ) { }
+}
+
+const opening = '([{';
+const closing = ')]}';
+const delimiters = ' \t\r\n()[]{}";\'`,';
+
+export function splitTopLevel(stx: string): TopLevelText[] {
+  const forms: TopLevelText[] = [];
+  let index = 0;
+  let line = 1;
+  let column = 1;
+  let depth = 0;
+  // Where the form that is being found begins and ends.
+  let startIndex = 0;
+  let endIndex = 0;
+  let start: Position | null = null;
+  let last = new Position(1, 1);
+
+  const skip = () => {
+    if (stx[index] === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    index++;
+  };
+  const consume = () => {
+    last = new Position(line, column);
+    skip();
+    endIndex = index;
+  };
+  const finish = () => {
+    forms.push(new TopLevelText(start!, last, stx.slice(startIndex, endIndex)));
+    start = null;
+    depth = 0;
+  };
+
+  while (index < stx.length) {
+    const c = stx[index];
+    if (/\s/.test(c)) {
+      skip();
+      continue;
+    } else if (c === ';') {
+      while (index < stx.length && stx[index] !== '\n') {
+        skip();
+      }
+      continue;
+    } else if (stx.startsWith('#|', index)) {
+      // Block comments nest.
+      const commentIndex = index;
+      const commentStart = new Position(line, column);
+      let commentEnd = commentStart;
+      let comments = 0;
+      do {
+        if (stx.startsWith('#|', index)) {
+          comments++;
+          skip();
+        } else if (stx.startsWith('|#', index)) {
+          comments--;
+          skip();
+        }
+        commentEnd = new Position(line, column);
+        skip();
+      } while (comments > 0 && index < stx.length);
+      if (comments > 0) {
+        // A comment that is not closed is a form by itself, which
+        // cannot be read, rather than the end of the program.
+        if (start !== null) {
+          finish();
+        }
+        forms.push(new TopLevelText(commentStart, commentEnd, stx.slice(commentIndex)));
+      }
+      continue;
+    }
+    if (start !== null && depth > 0 && column === 1 && opening.includes(c)) {
+      finish();
+    }
+    if (start === null) {
+      startIndex = index;
+      start = new Position(line, column);
+    }
+    // A quote or a datum comment belongs with the datum after it.
+    let prefix = false;
+    if (opening.includes(c)) {
+      depth++;
+      consume();
+    } else if (closing.includes(c)) {
+      depth = Math.max(depth - 1, 0);
+      consume();
+    } else if (c === '"') {
+      consume();
+      while (index < stx.length && stx[index] !== '"') {
+        consume();
+      }
+      if (index < stx.length) {
+        consume();
+      }
+    } else if (c === '\'' || c === '`' || c === ',') {
+      consume();
+      if (stx[index] === '@') {
+        consume();
+      }
+      prefix = true;
+    } else if (stx.startsWith('#;', index)) {
+      consume();
+      consume();
+      prefix = true;
+    } else if (stx.startsWith('#(', index) || stx.startsWith('#[', index)) {
+      // A vector literal.
+      consume();
+      prefix = true;
+    } else {
+      while (index < stx.length && !delimiters.includes(stx[index])) {
+        consume();
+      }
+    }
+    if (depth === 0 && !prefix) {
+      finish();
+    }
+  }
+  if (start !== null) {
+    finish();
+  }
+  return forms;
+}
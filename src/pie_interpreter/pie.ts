@@ -0,0 +1,24 @@
+import { readFileSync } from 'fs';
+import { CliIO, runCli } from './cli';
+import { startStdioServer } from './server/stdio';
+import { watchPie } from './watch';
+
+// The entry point of the pie command.
+const io: CliIO = {
+  readFile: path => readFileSync(path, 'utf8'),
+  stdout: str => process.stdout.write(str),
+  stderr: str => process.stderr.write(str),
+};
+const args = process.argv.slice(2);
+if (args[0] === 'lsp' && args.length === 1) {
+  startStdioServer();
+} else if (args[0] === 'watch' && args.length === 2) {
+  try {
+    watchPie(args[1], io);
+  } catch (e) {
+    io.stderr(`pie: cannot watch ${args[1]}: ${e instanceof Error ? e.message : e}\n`);
+    process.exitCode = 2;
+  }
+} else {
+  process.exitCode = runCli(args, io);
+}
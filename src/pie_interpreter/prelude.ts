@@ -0,0 +1,224 @@
+import { checkPie } from './main';
+import { Context, initCtx } from './utils/context';
+
+/*
+  ## The prelude ##
+
+  The definitions that The Little Typer builds up, by the chapter that
+  they are introduced in, so that exercises can use them rather than
+  derive them again. The prelude is written in Pie and is checked the
+  first time that it is used. A program is given the prelude through
+  some chapter by being checked in preludeContext(chapter) rather than
+  in the empty context.
+*/
+
+export class PreludeChapter {
+  constructor(
+    public chapter: number,
+    public title: string,
+    public source: string,
+  ) { }
+}
+
+export const preludeChapters: PreludeChapter[] = [
+  new PreludeChapter(3, 'Eliminate All Natural Numbers!', `
+    (claim + (-> Nat Nat Nat))
+    (define +
+      (λ (n j)
+        (iter-Nat n j (λ (k) (add1 k)))))
+
+    (claim * (-> Nat Nat Nat))
+    (define *
+      (λ (n j)
+        (iter-Nat n 0 (λ (k) (+ j k)))))
+  `),
+  new PreludeChapter(4, 'Easy as Pie', `
+    (claim elim-Pair
+      (Π ((A U) (D U) (X U))
+        (-> (Pair A D) (-> A D X) X)))
+    (define elim-Pair
+      (λ (A D X p f)
+        (f (car p) (cdr p))))
+
+    (claim flip
+      (Π ((A U) (D U))
+        (-> (Pair A D) (Pair D A))))
+    (define flip
+      (λ (A D p)
+        (cons (cdr p) (car p))))
+
+    (claim twin (Π ((Y U)) (-> Y (Pair Y Y))))
+    (define twin (λ (Y x) (cons x x)))
+  `),
+  new PreludeChapter(5, 'Lists, Lists, and More Lists', `
+    (claim length (Π ((E U)) (-> (List E) Nat)))
+    (define length
+      (λ (E es)
+        (rec-List es 0 (λ (e es length-es) (add1 length-es)))))
+
+    (claim append (Π ((E U)) (-> (List E) (List E) (List E))))
+    (define append
+      (λ (E start end)
+        (rec-List start end (λ (e es append-es) (:: e append-es)))))
+
+    (claim snoc (Π ((E U)) (-> (List E) E (List E))))
+    (define snoc
+      (λ (E start e)
+        (rec-List start (:: e nil) (λ (x xs snoc-xs) (:: x snoc-xs)))))
+
+    (claim reverse (Π ((E U)) (-> (List E) (List E))))
+    (define reverse
+      (λ (E es)
+        (rec-List es (the (List E) nil)
+          (λ (e es reverse-es) (snoc E reverse-es e)))))
+  `),
+  new PreludeChapter(6, 'Precisely How Many?', `
+    (claim first (Π ((E U) (l Nat)) (-> (Vec E (add1 l)) E)))
+    (define first (λ (E l es) (head es)))
+
+    (claim rest (Π ((E U) (l Nat)) (-> (Vec E (add1 l)) (Vec E l))))
+    (define rest (λ (E l es) (tail es)))
+  `),
+  new PreludeChapter(8, 'Pick a Number, Any Number', `
+    (claim incr (-> Nat Nat))
+    (define incr
+      (λ (n)
+        (iter-Nat n 1 (+ 1))))
+
+    (claim +1=add1 (Π ((n Nat)) (= Nat (+ 1 n) (add1 n))))
+    (define +1=add1 (λ (n) (same (add1 n))))
+
+    (claim incr=add1 (Π ((n Nat)) (= Nat (incr n) (add1 n))))
+    (define incr=add1
+      (λ (n)
+        (ind-Nat n
+          (λ (k) (= Nat (incr k) (add1 k)))
+          (same 1)
+          (λ (n-1 incr=add1-n-1) (cong incr=add1-n-1 (+ 1))))))
+  `),
+  new PreludeChapter(9, 'Double Your Money, Get Twice as Much', `
+    (claim double (-> Nat Nat))
+    (define double
+      (λ (n)
+        (iter-Nat n 0 (+ 2))))
+
+    (claim twice (-> Nat Nat))
+    (define twice (λ (n) (+ n n)))
+
+    (claim add1+=+add1
+      (Π ((n Nat) (j Nat))
+        (= Nat (add1 (+ n j)) (+ n (add1 j)))))
+    (define add1+=+add1
+      (λ (n j)
+        (ind-Nat n
+          (λ (k) (= Nat (add1 (+ k j)) (+ k (add1 j))))
+          (same (add1 j))
+          (λ (n-1 add1+=+add1-n-1) (cong add1+=+add1-n-1 (+ 1))))))
+
+    (claim twice=double (Π ((n Nat)) (= Nat (twice n) (double n))))
+    (define twice=double
+      (λ (n)
+        (ind-Nat n
+          (λ (k) (= Nat (twice k) (double k)))
+          (same zero)
+          (λ (n-1 twice=double-n-1)
+            (replace (add1+=+add1 n-1 n-1)
+              (λ (k) (= Nat (add1 k) (add1 (add1 (double n-1)))))
+              (cong twice=double-n-1 (+ 2)))))))
+  `),
+  new PreludeChapter(10, 'It Also Depends On the List', `
+    (claim list->vec
+      (Π ((E U) (es (List E)))
+        (Vec E (length E es))))
+    (define list->vec
+      (λ (E es)
+        (ind-List es
+          (λ (xs) (Vec E (length E xs)))
+          vecnil
+          (λ (e es list->vec-es) (vec:: e list->vec-es)))))
+  `),
+  new PreludeChapter(11, 'All Lists Are Created Equal', `
+    (claim vec->list
+      (Π ((E U) (l Nat))
+        (-> (Vec E l) (List E))))
+    (define vec->list
+      (λ (E l es)
+        (ind-Vec l es
+          (λ (k xs) (List E))
+          nil
+          (λ (k h t vec->list-t) (:: h vec->list-t)))))
+
+    (claim vec-append
+      (Π ((E U) (l Nat) (j Nat))
+        (-> (Vec E l) (Vec E j) (Vec E (+ l j)))))
+    (define vec-append
+      (λ (E l j es end)
+        (ind-Vec l es
+          (λ (k xs) (Vec E (+ k j)))
+          end
+          (λ (k h t vec-append-t) (vec:: h vec-append-t)))))
+  `),
+  new PreludeChapter(12, 'Even Numbers Can Be Odd', `
+    (claim Even (-> Nat U))
+    (define Even
+      (λ (n)
+        (Σ ((half Nat)) (= Nat n (double half)))))
+
+    (claim Odd (-> Nat U))
+    (define Odd
+      (λ (n)
+        (Σ ((haf Nat)) (= Nat n (add1 (double haf))))))
+
+    (claim zero-is-even (Even 0))
+    (define zero-is-even (cons 0 (same 0)))
+
+    (claim add1-even→odd (Π ((n Nat)) (-> (Even n) (Odd (add1 n)))))
+    (define add1-even→odd
+      (λ (n e)
+        (cons (car e) (cong (cdr e) (+ 1)))))
+  `),
+];
+
+// The context after each chapter, in order, once the prelude has been checked.
+let checked: Context[] | null = null;
+
+function checkPrelude(): Context[] {
+  if (checked === null) {
+    const contexts: Context[] = [];
+    let ctx = initCtx;
+    for (const { chapter, source } of preludeChapters) {
+      const report = checkPie(source, { keepGoing: false, ctx, source: `prelude chapter ${chapter}` });
+      if (!report.ok) {
+        throw new Error(`The prelude has errors:\n${report.diagnostics.join('\n')}`);
+      }
+      ctx = report.context;
+      contexts.push(ctx);
+    }
+    checked = contexts;
+  }
+  return checked;
+}
+
+// The context with the definitions of the chapters through chapter.
+export function preludeContext(chapter: number = Infinity): Context {
+  const contexts = checkPrelude();
+  const k = preludeChapters.filter(c => c.chapter <= chapter).length;
+  return k === 0 ? initCtx : contexts[k - 1];
+}
+
+// The names that the chapters through chapter define, with their chapters.
+export function preludeNames(chapter: number = Infinity): [string, number][] {
+  const contexts = checkPrelude();
+  const names: [string, number][] = [];
+  preludeChapters.forEach((c, k) => {
+    if (c.chapter <= chapter) {
+      const before = k === 0 ? initCtx : contexts[k - 1];
+      for (const x of contexts[k].keys()) {
+        if (!before.has(x)) {
+          names.push([x, c.chapter]);
+        }
+      }
+    }
+  });
+  return names;
+}
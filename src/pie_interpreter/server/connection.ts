@@ -0,0 +1,143 @@
+/*
+  ## JSON-RPC connections ##
+
+  The Language Server Protocol sends JSON-RPC messages, each preceded
+  by a header that gives the length of its content in bytes:
+
+    Content-Length: 52\r\n
+    \r\n
+    {"jsonrpc":"2.0","id":1,"method":"shutdown"}
+
+  A Connection reads such messages from one stream, hands requests and
+  notifications to the handlers for their methods, and writes the
+  responses to another stream. A message that cannot be parsed is
+  answered with an error, and so is a request whose handler throws; a
+  notification has no answer, so an error in its handler is logged to
+  the client instead. Either way the connection keeps reading.
+*/
+
+export interface RpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: RpcError;
+}
+
+export interface RpcError {
+  code: number;
+  message: string;
+}
+
+export const ParseError = -32700;
+export const MethodNotFound = -32601;
+export const InternalError = -32603;
+
+// The params of a message are whatever its method is sent with.
+type Handler = (params: never) => unknown;
+
+export class Connection {
+  private buffer: Buffer = Buffer.alloc(0);
+  private requestHandlers = new Map<string, Handler>();
+  private notificationHandlers = new Map<string, Handler>();
+
+  constructor(
+    private input: NodeJS.ReadableStream,
+    private output: NodeJS.WritableStream,
+  ) { }
+
+  public listen(): void {
+    this.input.on('data', (chunk: Buffer | string) => this.receive(chunk));
+  }
+
+  public onRequest<P>(method: string, handler: (params: P) => unknown): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  public onNotification<P>(method: string, handler: (params: P) => void): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  public sendNotification(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  // Read every message that has arrived in full.
+  public receive(chunk: Buffer | string): void {
+    this.buffer = Buffer.concat([this.buffer, Buffer.from(chunk)]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const length = /Content-Length: *(\d+)/i.exec(header);
+      if (length === null) {
+        // A message without a length cannot be read, so it is dropped.
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const start = headerEnd + 4;
+      const end = start + Number(length[1]);
+      if (this.buffer.length < end) {
+        return;
+      }
+      const content = this.buffer.subarray(start, end).toString('utf8');
+      this.buffer = this.buffer.subarray(end);
+      let message: RpcMessage;
+      try {
+        message = JSON.parse(content);
+      } catch (e) {
+        this.respondWithError(null, ParseError, `Parse error: ${errorMessage(e)}`);
+        continue;
+      }
+      this.dispatch(message);
+    }
+  }
+
+  private dispatch(message: RpcMessage): void {
+    const isRequest = message.id !== undefined && message.id !== null;
+    if (message.method === undefined) {
+      // The server sends no requests, so there are no responses to read.
+      return;
+    }
+    if (!isRequest) {
+      const handler = this.notificationHandlers.get(message.method);
+      try {
+        handler?.(message.params as never);
+      } catch (e) {
+        // window/logMessage, with the type for errors.
+        this.sendNotification('window/logMessage', {
+          type: 1,
+          message: `${message.method}: ${errorMessage(e)}`,
+        });
+      }
+      return;
+    }
+    const handler = this.requestHandlers.get(message.method);
+    if (handler === undefined) {
+      this.respondWithError(message.id!, MethodNotFound, `Unknown method ${message.method}`);
+      return;
+    }
+    try {
+      this.send({ jsonrpc: '2.0', id: message.id, result: handler(message.params as never) ?? null });
+    } catch (e) {
+      this.respondWithError(message.id!, InternalError, errorMessage(e));
+    }
+  }
+
+  // An id of null answers a message whose id could not be read.
+  private respondWithError(id: number | string | null, code: number, message: string): void {
+    this.send({ jsonrpc: '2.0', id, error: { code, message } });
+  }
+
+  private send(message: RpcMessage): void {
+    const content = JSON.stringify(message);
+    this.output.write(`Content-Length: ${Buffer.byteLength(content, 'utf8')}\r\n\r\n${content}`);
+  }
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
@@ -0,0 +1,313 @@
+import { checkPie, PieReport } from '../main';
+import { EvaluationLimits } from '../evaluator/limits';
+import { ModuleFiles, ModuleLoader } from '../modules';
+import { parseFailure } from '../parser/parser-error';
+import { Severity } from '../types/utils';
+import { prettyPrintCore } from '../unparser/pretty';
+import { prettyPrintGoal } from '../unparser/goals';
+import { Location, SourceLocation } from '../utils/locations';
+import { Connection } from './connection';
+
+/*
+  ## The language server ##
+
+  PieLanguageServer answers the requests of an editor through the
+  Language Server Protocol. Each open document is checked in
+  keep-going mode whenever it changes, and the diagnostics of every
+  declaration are published, along with the goal at each TODO. The
+  declarations before the first one that was edited are not checked
+  again.
+
+  The modules that a document requires are read from the documents
+  that are open, or else from the files that the server was given.
+  When a document changes or is closed, the open documents that
+  require it, whether directly or through other modules, are checked
+  again.
+
+  The server also answers hover requests with the type recorded at
+  the expression under the cursor, and definition requests with the
+  binding site of the name under the cursor, which is its claim if it
+  is bound at the top level.
+
+  Pie counts lines and columns from 1 and the protocol from 0. A Pie
+  span includes its last column, while a protocol range ends just
+  before its end character.
+*/
+
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export interface LspDiagnostic {
+  range: LspRange;
+  severity: number;
+  code?: string;
+  source: 'pie';
+  message: string;
+}
+
+export interface LspMarkupContent {
+  kind: 'markdown';
+  value: string;
+}
+
+export interface LspHover {
+  contents: LspMarkupContent;
+  range: LspRange;
+}
+
+export interface LspLocation {
+  uri: string;
+  range: LspRange;
+}
+
+export interface PublishDiagnosticsParams {
+  uri: string;
+  diagnostics: LspDiagnostic[];
+}
+
+// The params of the notifications and requests that the server handles.
+interface TextDocumentIdentifier {
+  uri: string;
+}
+
+interface DidOpenParams {
+  textDocument: TextDocumentIdentifier & { text: string };
+}
+
+interface DidChangeParams {
+  textDocument: TextDocumentIdentifier;
+  contentChanges: { text: string }[];
+}
+
+interface DidCloseParams {
+  textDocument: TextDocumentIdentifier;
+}
+
+interface TextDocumentPositionParams {
+  textDocument: TextDocumentIdentifier;
+  position: LspPosition;
+}
+
+class OpenDocument {
+  constructor(
+    public uri: string,
+    public text: string,
+    // The report on the text, or null if the text could not be read.
+    public report: PieReport | null,
+    // The modules that the document requires, directly or not.
+    public requires: Set<string>,
+  ) { }
+}
+
+const severities: Record<Severity, number> = {
+  'error': 1,
+  'warning': 2,
+  'info': 3,
+};
+
+export class PieLanguageServer {
+  private documents = new Map<string, OpenDocument>();
+  private shutdownRequested = false;
+
+  constructor(
+    private connection: Connection,
+    // Called with the exit code when the client asks the server to exit.
+    private exit: (code: number) => void,
+    // Where the modules that documents require are read from, by URI.
+    private files: ModuleFiles | null = null,
+    // A declaration that exceeds these is reported, so that it does not freeze the editor.
+    private limits: EvaluationLimits = new EvaluationLimits(Infinity, 5000),
+  ) {
+    connection.onRequest('initialize', () => ({
+      capabilities: {
+        // The client sends the whole document on every change.
+        textDocumentSync: 1,
+        hoverProvider: true,
+        definitionProvider: true,
+      },
+      serverInfo: { name: 'pie' },
+    }));
+    connection.onNotification('initialized', () => { });
+    connection.onRequest('shutdown', () => {
+      this.shutdownRequested = true;
+      return null;
+    });
+    connection.onNotification('exit', () => this.exit(this.shutdownRequested ? 0 : 1));
+    connection.onNotification<DidOpenParams>('textDocument/didOpen', params =>
+      this.update(params.textDocument.uri, params.textDocument.text));
+    connection.onNotification<DidChangeParams>('textDocument/didChange', params => {
+      const changes = params.contentChanges;
+      this.update(params.textDocument.uri, changes[changes.length - 1].text);
+    });
+    connection.onNotification<DidCloseParams>('textDocument/didClose', params => {
+      this.documents.delete(params.textDocument.uri);
+      this.publish({ uri: params.textDocument.uri, diagnostics: [] });
+      this.checkDependents(params.textDocument.uri);
+    });
+    connection.onRequest<TextDocumentPositionParams>('textDocument/hover', params =>
+      this.hover(params.textDocument.uri, params.position));
+    connection.onRequest<TextDocumentPositionParams>('textDocument/definition', params =>
+      this.definition(params.textDocument.uri, params.position));
+  }
+
+  /*
+    Check the new text of a document and publish its diagnostics, then
+    check the open documents that require it again.
+  */
+  public update(uri: string, text: string): void {
+    this.check(uri, text);
+    this.checkDependents(uri);
+  }
+
+  private check(uri: string, text: string): void {
+    const previous = this.documents.get(uri)?.report ?? null;
+    let diagnostics: LspDiagnostic[];
+    let report: PieReport | null = null;
+    const modules = this.modules();
+    try {
+      report = checkPie(text, { previous, source: uri, modules, limits: this.limits });
+      diagnostics = reportDiagnostics(report);
+    } catch (e) {
+      const { line, column, message } = parseFailure(e);
+      const position = { line: line - 1, character: column - 1 };
+      diagnostics = [{
+        range: { start: position, end: position },
+        severity: severities.error,
+        source: 'pie',
+        message,
+      }];
+    }
+    this.documents.set(uri, new OpenDocument(uri, text, report, modules?.required ?? new Set()));
+    this.publish({ uri, diagnostics });
+  }
+
+  private publish(params: PublishDiagnosticsParams): void {
+    this.connection.sendNotification('textDocument/publishDiagnostics', params);
+  }
+
+  private checkDependents(uri: string): void {
+    for (const doc of [...this.documents.values()]) {
+      if (doc.uri !== uri && doc.requires.has(uri)) {
+        this.check(doc.uri, doc.text);
+      }
+    }
+  }
+
+  // The modules that are open are read as they are in the editor.
+  private modules(): ModuleLoader | null {
+    const files = this.files;
+    if (files === null) {
+      return null;
+    }
+    return new ModuleLoader({
+      resolve: (from, path) => files.resolve(from, path),
+      read: uri => this.documents.get(uri)?.text ?? files.read(uri),
+    });
+  }
+
+  public hover(uri: string, position: LspPosition): LspHover | null {
+    const report = this.documents.get(uri)?.report;
+    if (report === undefined || report === null) {
+      return null;
+    }
+    const goal = report.goals.find(goal => contains(goal.location, position));
+    if (goal !== undefined) {
+      return {
+        contents: { kind: 'markdown', value: codeBlock(prettyPrintGoal(goal).trimEnd()) },
+        range: locationRange(goal.location),
+      };
+    }
+    const found = report.info.typeAt(position.line + 1, position.character + 1);
+    if (found === null) {
+      return null;
+    }
+    return {
+      contents: { kind: 'markdown', value: codeBlock(prettyPrintCore(found[1])) },
+      range: locationRange(found[0]),
+    };
+  }
+
+  public definition(uri: string, position: LspPosition): LspLocation | null {
+    const doc = this.documents.get(uri);
+    if (doc === undefined || doc.report === null) {
+      return null;
+    }
+    const name = identifierAt(doc.text, position);
+    if (name === null) {
+      return null;
+    }
+    const site = doc.report.info.bindingSite(name, position.line + 1, position.character + 1);
+    if (site === null) {
+      return null;
+    }
+    return { uri, range: locationRange(site) };
+  }
+}
+
+function reportDiagnostics(report: PieReport): LspDiagnostic[] {
+  const diagnostics: LspDiagnostic[] = report.diagnostics.map(diagnostic => ({
+    range: sourceLocationRange(diagnostic.location),
+    severity: severities[diagnostic.severity],
+    code: diagnostic.code,
+    source: 'pie',
+    message: diagnostic.message.toString(),
+  }));
+  for (const goal of report.goals) {
+    diagnostics.push({
+      range: locationRange(goal.location),
+      severity: severities.info,
+      source: 'pie',
+      message: prettyPrintGoal(goal).trimEnd(),
+    });
+  }
+  return diagnostics;
+}
+
+function sourceLocationRange(loc: SourceLocation): LspRange {
+  return {
+    start: { line: loc.startLine - 1, character: loc.startColumn - 1 },
+    end: { line: loc.endLine - 1, character: loc.endColumn },
+  };
+}
+
+function locationRange(loc: Location): LspRange {
+  return sourceLocationRange(loc.locationToSrcLoc());
+}
+
+function compare(a: LspPosition, b: LspPosition): number {
+  return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
+
+function contains(loc: Location, position: LspPosition): boolean {
+  const range = locationRange(loc);
+  return compare(range.start, position) <= 0 && compare(position, range.end) <= 0;
+}
+
+function codeBlock(str: string): string {
+  return '```pie\n' + str + '\n```';
+}
+
+// The name that the position is in or next to, if any.
+function identifierAt(text: string, position: LspPosition): string | null {
+  const lineText = text.split(/\r?\n/)[position.line];
+  if (lineText === undefined) {
+    return null;
+  }
+  const delimiter = /[\s()[\]{}'"`;]/;
+  let start = position.character;
+  let end = position.character;
+  while (start > 0 && !delimiter.test(lineText[start - 1])) {
+    start--;
+  }
+  while (end < lineText.length && !delimiter.test(lineText[end])) {
+    end++;
+  }
+  return start < end ? lineText.slice(start, end) : null;
+}
@@ -0,0 +1,16 @@
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { resolvePath } from '../modules';
+import { Connection } from './connection';
+import { PieLanguageServer } from './server';
+
+// Run the language server over the standard input and output streams.
+export function startStdioServer(): PieLanguageServer {
+  const connection = new Connection(process.stdin, process.stdout);
+  const server = new PieLanguageServer(connection, code => process.exit(code), {
+    resolve: resolvePath,
+    read: uri => readFileSync(fileURLToPath(uri), 'utf8'),
+  });
+  connection.listen();
+  return server;
+}
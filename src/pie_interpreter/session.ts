@@ -0,0 +1,244 @@
+import { checkPie } from './main';
+import { Parser } from './parser/parser';
+import { parseFailure } from './parser/parser-error';
+import { ParserError } from '../scheme_parser/transpiler/parser/parser-error';
+import { LexerError } from '../scheme_parser/transpiler/lexer/lexer-error';
+import { elaborate, represent, whnf } from './typechecker/represent';
+import { EvaluationLimits, noLimits, stopAtLimit, withLimits } from './evaluator/limits';
+import { prettyPrintSteps, Strategy } from './evaluator/steps';
+import { Core, The } from './types/core';
+import { Source } from './types/source';
+import { go, Perhaps, stop } from './types/utils';
+import { prettyPrintCore } from './unparser/pretty';
+import { prettyPrintGoal } from './unparser/goals';
+import { preludeChapters, preludeContext, preludeNames } from './prelude';
+import { ModuleFiles, ModuleLoader } from './modules';
+import { Claim, Context, initCtx, readBackContext } from './utils/context';
+
+/*
+  ## REPL sessions ##
+
+  A PieSession keeps the context of a REPL from one chunk to the next,
+  so that a claim in one chunk can be defined in a later one. Each
+  chunk is checked in the context left by the chunks before it, and
+  only its own results are printed.
+
+  The modules that a chunk requires are read from files. Each module is
+  checked once until the session is reset, so that it can be required
+  again by a later chunk.
+
+  A chunk that starts with a colon is a session command:
+    :type e     the type of e
+    :norm e     the normal form of e
+    :whnf e     e, found only as far as its outermost constructor
+    :step e     each step from e to its normal form
+    :strategy   the order that :step reduces in, normal-order or
+                call-by-value; :strategy s changes it
+    :ctx        every name in the context, with its type
+    :print x    the type and, if it is defined, the value of x
+    :claims     list the claims that are not yet defined
+    :reset      forget every declaration
+    :undo       forget the most recent declaration
+    :prelude    list the names from the prelude that are in scope
+    :prelude on, :prelude n, :prelude off
+                start again with the whole prelude, with the prelude
+                through chapter n, or without the prelude
+*/
+export class PieSession {
+  // The context before each declaration, most recent last.
+  private history: Context[] = [];
+  // The context that the session starts from.
+  private base: Context;
+  // The last chapter of the prelude in scope, or null without the prelude.
+  private prelude: number | null = null;
+  // The order that :step reduces expressions in.
+  public strategy: Strategy = 'normal-order';
+  // The limits on evaluating each declaration and each command.
+  public limits: EvaluationLimits = noLimits;
+  // The modules that the chunks have required.
+  private modules: ModuleLoader | null;
+
+  constructor(public ctx: Context = initCtx, private files: ModuleFiles | null = null) {
+    this.base = ctx;
+    this.modules = files === null ? null : new ModuleLoader(files);
+  }
+
+  public evaluate(chunk: string): string {
+    const input = chunk.trim();
+    if (input.startsWith(':')) {
+      return this.command(input);
+    }
+    // Stop at the first error, but keep the declarations before it.
+    const report = checkPie(chunk, {
+      keepGoing: false,
+      ctx: this.ctx,
+      modules: this.modules,
+      limits: this.limits,
+    });
+    let output = '';
+    for (const decl of report.declarations) {
+      if (decl.status === 'ok') {
+        if (['claim', 'define', 'data', 'require'].includes(decl.kind)) {
+          this.history.push(this.ctx);
+          this.ctx = decl.context;
+        }
+        output += decl.output ?? '';
+      } else {
+        output += decl.diagnostics.map(diagnostic => `Error: ${diagnostic}\n`).join('');
+      }
+    }
+    for (const goal of report.goals) {
+      output += prettyPrintGoal(goal);
+    }
+    return output;
+  }
+
+  // Forget every declaration, and read the modules again when they are required.
+  public reset(): void {
+    this.history = [];
+    this.ctx = this.base;
+    this.modules = this.files === null ? null : new ModuleLoader(this.files);
+  }
+
+  /*
+    Start again with the prelude through chapter, or with no prelude
+    when chapter is null. Every declaration is forgotten, because it
+    may use the names of the prelude or declare one of them.
+  */
+  public usePrelude(chapter: number | null): void {
+    this.prelude = chapter;
+    this.base = chapter === null ? initCtx : preludeContext(chapter);
+    this.reset();
+  }
+
+  // The names from the prelude that are in scope, with their chapters.
+  public preludeNames(): [string, number][] {
+    return this.prelude === null ? [] : preludeNames(this.prelude);
+  }
+
+  // Forget the most recent declaration, if there is one.
+  public undo(): boolean {
+    const previous = this.history.pop();
+    if (previous === undefined) {
+      return false;
+    }
+    this.ctx = previous;
+    return true;
+  }
+
+  // The names that have been claimed but not defined, with their types.
+  public pendingClaims(): [string, Core][] {
+    return [...this.ctx]
+      .filter(([_, binder]) => binder instanceof Claim)
+      .map(([name, binder]) => [name, binder.type.readBackType(this.ctx)]);
+  }
+
+  private command(input: string): string {
+    const [name] = input.split(/\s+/);
+    const arg = input.slice(name.length).trim();
+    switch (name) {
+      case ':type':
+        return this.withExpression(name, arg, src => represent(this.ctx, src),
+          the => prettyPrintCore(the.type));
+      case ':norm':
+        return this.withExpression(name, arg, src => represent(this.ctx, src),
+          the => prettyPrintCore(the.expr));
+      case ':whnf':
+        return this.withExpression(name, arg, src => whnf(this.ctx, src),
+          the => prettyPrintCore(the.expr));
+      case ':step':
+        return this.withExpression(name, arg, src => elaborate(this.ctx, src),
+          the => prettyPrintSteps(this.ctx, the.expr, this.strategy).trimEnd());
+      case ':strategy':
+        if (arg === 'normal-order' || arg === 'call-by-value') {
+          this.strategy = arg;
+        } else if (arg !== '') {
+          return 'Error: :strategy expects normal-order or call-by-value.\n';
+        }
+        return `The strategy is ${this.strategy}.\n`;
+      case ':ctx':
+        return [...readBackContext(this.ctx)]
+          .map(([x, binder]) => `${x} : ${prettyPrintCore(binder[1])}\n`)
+          .join('');
+      case ':print': {
+        const binder = readBackContext(this.ctx).get(arg);
+        if (binder === undefined) {
+          return `Error: ${arg} is not in the context.\n`;
+        } else if (binder[0] === 'def') {
+          return `${arg} : ${prettyPrintCore(binder[1])}\n${arg} = ${prettyPrintCore(binder[2])}\n`;
+        }
+        return `${arg} : ${prettyPrintCore(binder[1])}\n${arg} is not yet defined.\n`;
+      }
+      case ':reset':
+        this.reset();
+        return 'The session is reset.\n';
+      case ':undo':
+        return this.undo()
+          ? 'The most recent declaration is undone.\n'
+          : 'There is nothing to undo.\n';
+      case ':claims': {
+        const claims = this.pendingClaims();
+        return claims.length === 0
+          ? 'There are no pending claims.\n'
+          : claims.map(([x, type]) => `${x} : ${prettyPrintCore(type)}\n`).join('');
+      }
+      case ':prelude':
+        return this.preludeCommand(arg);
+      default:
+        return `Error: Unknown command ${name}.\n`;
+    }
+  }
+
+  private preludeCommand(arg: string): string {
+    if (arg === '') {
+      const names = this.preludeNames();
+      if (names.length === 0) {
+        return 'There are no names from the prelude in scope.\n';
+      }
+      let output = '';
+      for (const { chapter, title } of preludeChapters) {
+        const xs = names.filter(([_, c]) => c === chapter).map(([x]) => x);
+        if (xs.length > 0) {
+          output += `Chapter ${chapter}, ${title}: ${xs.join(' ')}\n`;
+        }
+      }
+      return output;
+    } else if (arg === 'on') {
+      this.usePrelude(Infinity);
+      return 'The session is reset, with the whole prelude.\n';
+    } else if (arg === 'off') {
+      this.usePrelude(null);
+      return 'The session is reset, without the prelude.\n';
+    } else if (/^\d+$/.test(arg)) {
+      this.usePrelude(Number(arg));
+      return `The session is reset, with the prelude through chapter ${arg}.\n`;
+    }
+    return 'Error: :prelude expects on, off, or the number of a chapter.\n';
+  }
+
+  // Run a command that is given an expression, printing its result.
+  private withExpression(
+    name: string,
+    arg: string,
+    run: (src: Source) => Perhaps<Core>,
+    show: (the: The) => string
+  ): string {
+    if (arg === '') {
+      return `Error: ${name} expects an expression.\n`;
+    }
+    let src: Source;
+    try {
+      src = Parser.parsePie(arg);
+    } catch (e) {
+      if (!(e instanceof ParserError || e instanceof LexerError)) {
+        throw e;
+      }
+      return `Error: ${parseFailure(e).message}\n`;
+    }
+    const result = stopAtLimit(src.location, () => withLimits(this.limits, () => run(src)));
+    if (result instanceof go) {
+      return `${show(result.result as The)}\n`;
+    }
+    return `Error: ${(result as stop).diagnostic}\n`;
+  }
+}
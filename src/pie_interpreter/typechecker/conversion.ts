@@ -0,0 +1,373 @@
+import * as C from '../types/core';
+import * as V from '../types/value';
+import * as N from '../types/neutral';
+import { fresh, isVarName } from '../types/utils';
+import { bindFree, Context } from '../utils/context';
+import { doApp, doCar, doCdr } from '../evaluator/evaluator';
+import { readBack } from '../evaluator/utils';
+import { spendStep } from '../evaluator/limits';
+import { sameLocation } from '../utils/locations';
+import { MetaVariable, solveMeta } from './metas';
+
+/*
+  ## Conversion ##
+
+  Two values are the same when they read back to α-equivalent normal
+  forms. Rather than reading back both of them in full, conversion
+  compares the values themselves, following their type:
+
+  - at Π, Σ, Trivial and Absurd, and at Vecs of length zero, they are
+    compared by η, as read-back would write them: functions are applied
+    to a fresh variable, pairs are taken apart, and there is only one
+    sole and nothing to tell apart in Absurd;
+  - otherwise they are the same if they have the same constructor and
+    their parts are the same, which is found out without looking at the
+    rest of them once the constructors differ;
+  - neutral expressions are the same if they are the same eliminator
+    applied to the same targets and arguments.
+
+  A value is not forced while it might be the very value that it is
+  compared to. A delayed variable, such as a use of a definition, is
+  compared by the value that it names before it is unfolded, so
+  checking a proof against a type that mentions the same definitions
+  does not normalize them. The pairs that are yet to be compared are
+  kept on a stack rather than in recursive calls, so that values too
+  deep for the JavaScript stack can be compared, and an unsolved
+  metavariable is solved by the read-back of what it is compared to,
+  from left to right.
+*/
+
+// Whether from and to are the same value of type.
+export function convertible(ctx: Context, type: V.Value, from: V.Value, to: V.Value): boolean {
+  return compare(ctx, ['value', ctx, type, from, to]);
+}
+
+// Whether given and expected are the same type.
+export function convertibleTypes(ctx: Context, given: V.Value, expected: V.Value): boolean {
+  return compare(ctx, ['type', ctx, given, expected]);
+}
+
+// Two values at a type, two types, or two neutral expressions to compare.
+type Comparison =
+  | ['value', Context, V.Value, V.Value, V.Value]
+  | ['type', Context, V.Value, V.Value]
+  | ['neutral', Context, N.Neutral, N.Neutral];
+
+// They are the same if their parts are.
+type Parts = boolean | Comparison[];
+
+function compare(start: Context, first: Comparison): boolean {
+  const comparisons: Comparison[] = [first];
+  while (comparisons.length > 0) {
+    spendStep();
+    const c = comparisons.pop()!;
+    const parts = c[0] === 'value' ? sameValues(start, c[1], c[2], c[3], c[4])
+      : c[0] === 'type' ? sameTypes(start, c[1], c[2], c[3])
+      : sameNeutrals(start, c[1], c[2], c[3]);
+    if (parts === false) {
+      return false;
+    } else if (parts !== true) {
+      for (let k = parts.length - 1; k >= 0; k--) {
+        comparisons.push(parts[k]);
+      }
+    }
+  }
+  return true;
+}
+
+/*
+  The value that a delayed variable stands for, found without
+  evaluating anything.
+*/
+function unfolded(value: V.Value): V.Value {
+  while (value instanceof V.Delay) {
+    const content = value.val.get();
+    if (!(content instanceof V.DelayClosure)) {
+      value = content;
+    } else if (content.expr instanceof C.VarName
+      && isVarName(content.expr.name)
+      && content.env.has(content.expr.name)) {
+      value = content.env.get(content.expr.name)!;
+    } else {
+      break;
+    }
+  }
+  return value;
+}
+
+// The unsolved metavariable that a value is, if any.
+function unsolvedMeta(value: V.Value): MetaVariable | null {
+  return value instanceof V.Neutral && value.neutral instanceof N.Meta
+    && value.neutral.meta.value === null
+    ? value.neutral.meta
+    : null;
+}
+
+// The variables that the comparison has bound, which cannot occur in solutions.
+function bound(start: Context, ctx: Context): string[] {
+  return [...ctx.keys()].filter(x => !start.has(x));
+}
+
+function freshVariable(ctx: Context, name: string, type: V.Value): [Context, V.Value] {
+  const x = fresh(ctx, name);
+  return [bindFree(ctx, x, type), new V.Neutral(type, new N.Variable(x))];
+}
+
+function sameValues(start: Context, ctx: Context, type: V.Value, v1: V.Value, v2: V.Value): Parts {
+  const [u1, u2] = [unfolded(v1), unfolded(v2)];
+  if (u1 === u2) {
+    return true;
+  }
+  const typeNow = type.now();
+  const [now1, now2] = [u1.now(), u2.now()];
+  if (now1 === now2) {
+    return true;
+  }
+  const [m1, m2] = [unsolvedMeta(now1), unsolvedMeta(now2)];
+  if (m1 !== null || m2 !== null) {
+    if (m1 === m2) {
+      return true;
+    } else if (m1 !== null) {
+      return solveMeta(m1, readBack(ctx, typeNow, now2), bound(start, ctx));
+    }
+    return solveMeta(m2!, readBack(ctx, typeNow, now1), bound(start, ctx));
+  }
+
+  if (typeNow instanceof V.Universe) {
+    return [['type', ctx, now1, now2]];
+  } else if (typeNow instanceof V.Pi) {
+    const [bodyCtx, x] = freshVariable(ctx, typeNow.argName, typeNow.argType);
+    return [['value', bodyCtx, typeNow.resultType.valOfClosure(x), doApp(now1, x), doApp(now2, x)]];
+  } else if (typeNow instanceof V.Sigma) {
+    const [car1, car2] = [doCar(now1), doCar(now2)];
+    return [
+      ['value', ctx, typeNow.carType, car1, car2],
+      ['value', ctx, typeNow.cdrType.valOfClosure(car1), doCdr(now1), doCdr(now2)]
+    ];
+  } else if (typeNow instanceof V.Trivial || typeNow instanceof V.Absurd) {
+    return true;
+  } else if (typeNow instanceof V.Vec && typeNow.length.now() instanceof V.Zero) {
+    return true;
+  } else if (now1 instanceof V.Neutral && now2 instanceof V.Neutral) {
+    return [['neutral', ctx, now1.neutral, now2.neutral]];
+  } else if (now1 instanceof V.Zero && now2 instanceof V.Zero) {
+    return true;
+  } else if (now1 instanceof V.NatLit && now2 instanceof V.NatLit) {
+    return now1.num === now2.num;
+  } else if (now1 instanceof V.Add1 && now2 instanceof V.Add1) {
+    return [['value', ctx, typeNow, now1.smaller, now2.smaller]];
+  } else if (now1 instanceof V.Quote && now2 instanceof V.Quote) {
+    return now1.name === now2.name;
+  } else if (now1 instanceof V.Nil && now2 instanceof V.Nil) {
+    return true;
+  } else if (typeNow instanceof V.List
+    && now1 instanceof V.ListCons && now2 instanceof V.ListCons) {
+    return [
+      ['value', ctx, typeNow.entryType, now1.head, now2.head],
+      ['value', ctx, typeNow, now1.tail, now2.tail]
+    ];
+  } else if (typeNow instanceof V.Equal && now1 instanceof V.Same && now2 instanceof V.Same) {
+    return [['value', ctx, typeNow.type, now1.value, now2.value]];
+  } else if (typeNow instanceof V.Vec
+    && now1 instanceof V.VecCons && now2 instanceof V.VecCons) {
+    const lenNow = typeNow.length.now() as V.Add1;
+    return [
+      ['value', ctx, typeNow.entryType, now1.head, now2.head],
+      ['value', ctx, new V.Vec(typeNow.entryType, lenNow.smaller), now1.tail, now2.tail]
+    ];
+  } else if (typeNow instanceof V.Either && now1 instanceof V.Left && now2 instanceof V.Left) {
+    return [['value', ctx, typeNow.leftType, now1.value, now2.value]];
+  } else if (typeNow instanceof V.Either && now1 instanceof V.Right && now2 instanceof V.Right) {
+    return [['value', ctx, typeNow.rightType, now1.value, now2.value]];
+  } else if (typeNow instanceof V.Datatype
+    && now1 instanceof V.Constructor && now2 instanceof V.Constructor) {
+    if (now1.desc !== now2.desc || now1.index !== now2.index
+      || !sameLengths([now1.params, now2.params], [now1.fields, now2.fields])) {
+      return false;
+    }
+    const paramTypes = typeNow.desc.paramTypes(now1.params);
+    const fieldTypes = typeNow.desc.fieldTypes(now1.index, now1.params, now1.fields);
+    return pairwise(ctx, paramTypes, now1.params, now2.params)
+      .concat(pairwise(ctx, fieldTypes, now1.fields, now2.fields));
+  }
+  return false;
+}
+
+function sameTypes(start: Context, ctx: Context, t1: V.Value, t2: V.Value): Parts {
+  const [u1, u2] = [unfolded(t1), unfolded(t2)];
+  if (u1 === u2) {
+    return true;
+  }
+  const [now1, now2] = [u1.now(), u2.now()];
+  if (now1 === now2) {
+    return true;
+  }
+  const [m1, m2] = [unsolvedMeta(now1), unsolvedMeta(now2)];
+  if (m1 !== null || m2 !== null) {
+    if (m1 === m2) {
+      return true;
+    } else if (m1 !== null) {
+      return solveMeta(m1, now2.readBackType(ctx), bound(start, ctx));
+    }
+    return solveMeta(m2!, now1.readBackType(ctx), bound(start, ctx));
+  }
+
+  if (now1 instanceof V.Universe && now2 instanceof V.Universe) {
+    return now1.level === now2.level;
+  } else if (
+    (now1 instanceof V.Nat && now2 instanceof V.Nat) ||
+    (now1 instanceof V.Atom && now2 instanceof V.Atom) ||
+    (now1 instanceof V.Trivial && now2 instanceof V.Trivial) ||
+    (now1 instanceof V.Absurd && now2 instanceof V.Absurd)
+  ) {
+    return true;
+  } else if (now1 instanceof V.Pi && now2 instanceof V.Pi) {
+    if (now1.implicit !== now2.implicit) {
+      return false;
+    }
+    const [bodyCtx, x] = freshVariable(ctx, now1.argName, now1.argType);
+    return [
+      ['type', ctx, now1.argType, now2.argType],
+      ['type', bodyCtx, now1.resultType.valOfClosure(x), now2.resultType.valOfClosure(x)]
+    ];
+  } else if (now1 instanceof V.Sigma && now2 instanceof V.Sigma) {
+    const [bodyCtx, x] = freshVariable(ctx, now1.carName, now1.carType);
+    return [
+      ['type', ctx, now1.carType, now2.carType],
+      ['type', bodyCtx, now1.cdrType.valOfClosure(x), now2.cdrType.valOfClosure(x)]
+    ];
+  } else if (now1 instanceof V.List && now2 instanceof V.List) {
+    return [['type', ctx, now1.entryType, now2.entryType]];
+  } else if (now1 instanceof V.Equal && now2 instanceof V.Equal) {
+    return [
+      ['type', ctx, now1.type, now2.type],
+      ['value', ctx, now1.type, now1.from, now2.from],
+      ['value', ctx, now1.type, now1.to, now2.to]
+    ];
+  } else if (now1 instanceof V.Vec && now2 instanceof V.Vec) {
+    return [
+      ['type', ctx, now1.entryType, now2.entryType],
+      ['value', ctx, new V.Nat(), now1.length, now2.length]
+    ];
+  } else if (now1 instanceof V.Either && now2 instanceof V.Either) {
+    return [
+      ['type', ctx, now1.leftType, now2.leftType],
+      ['type', ctx, now1.rightType, now2.rightType]
+    ];
+  } else if (now1 instanceof V.Datatype && now2 instanceof V.Datatype) {
+    if (now1.desc !== now2.desc
+      || !sameLengths([now1.params, now2.params], [now1.indices, now2.indices])) {
+      return false;
+    }
+    const paramTypes = now1.desc.paramTypes(now1.params);
+    const indexTypes = now1.desc.indexTypes(now1.params, now1.indices);
+    return pairwise(ctx, paramTypes, now1.params, now2.params)
+      .concat(pairwise(ctx, indexTypes, now1.indices, now2.indices));
+  } else if (now1 instanceof V.Neutral && now2 instanceof V.Neutral) {
+    return [['neutral', ctx, now1.neutral, now2.neutral]];
+  }
+  return false;
+}
+
+/*
+  The eliminators that read back to the same expression, whichever of
+  their targets are neutral.
+*/
+function eliminator(neutral: N.Neutral): Function {
+  if (neutral instanceof N.Trans1 || neutral instanceof N.Trans2 || neutral instanceof N.Trans12) {
+    return N.Trans12;
+  } else if (neutral instanceof N.IndVec1 || neutral instanceof N.IndVec2
+    || neutral instanceof N.IndVec12) {
+    return N.IndVec12;
+  }
+  return neutral.constructor;
+}
+
+/*
+  Neutral expressions are compared part by part, in the order that
+  they are read back. A base that is read back with its type, as in
+  (iter-Nat n (the A base) step), has its type compared as well.
+*/
+function sameNeutrals(start: Context, ctx: Context, n1: N.Neutral, n2: N.Neutral): Parts {
+  if (n1 === n2) {
+    return true;
+  } else if (n1 instanceof N.Meta || n2 instanceof N.Meta) {
+    return sameMetaNeutrals(start, ctx, n1, n2);
+  } else if (n1 instanceof N.Variable && n2 instanceof N.Variable) {
+    return n1.name === n2.name;
+  } else if (n1 instanceof N.TODO && n2 instanceof N.TODO) {
+    return sameLocation(n1.where, n2.where) && [['type', ctx, n1.type, n2.type]];
+  } else if (eliminator(n1) !== eliminator(n2)) {
+    return false;
+  } else if (n1 instanceof N.IndAbsurd && n2 instanceof N.IndAbsurd) {
+    // Absurd η: every target is the same.
+    return [['value', ctx, n1.motive.type, n1.motive.value, n2.motive.value]];
+  }
+  const typed = n1 instanceof N.WhichNat || n1 instanceof N.IterNat
+    || n1 instanceof N.RecNat || n1 instanceof N.RecList;
+  const fields2 = Object.values(n2);
+  const parts: Comparison[] = [];
+  for (const [k, [name, f1]] of Object.entries(n1).entries()) {
+    const f2 = fields2[k];
+    if (typed && name === 'base') {
+      parts.push(['type', ctx, f1.type, f2.type]);
+    } else if (n1 instanceof N.Cong && name === 'func') {
+      parts.push(['type', ctx, congResult(ctx, f1), congResult(ctx, f2)]);
+    }
+    if (Array.isArray(f1)) {
+      if (f1.length !== f2.length) {
+        return false;
+      }
+      parts.push(...f1.map((norm: N.Norm, i): Comparison =>
+        ['value', ctx, norm.type, norm.value, f2[i].value]));
+    } else if (f1 instanceof N.Neutral && f2 instanceof N.Neutral) {
+      parts.push(['neutral', ctx, f1, f2]);
+    } else if (f1 instanceof N.Norm) {
+      parts.push(['value', ctx, f1.type, f1.value, asValue(f1.type, f2)]);
+    } else if (f2 instanceof N.Norm) {
+      parts.push(['value', ctx, f2.type, asValue(f2.type, f1), f2.value]);
+    } else if (f1 !== f2 && name !== 'implicit') {
+      // The description of a datatype.
+      return false;
+    }
+  }
+  return parts;
+}
+
+function asValue(type: V.Value, part: N.Norm | N.Neutral): V.Value {
+  return part instanceof N.Norm ? part.value : new V.Neutral(type, part);
+}
+
+// The type that cong gives, which is read back along with it.
+function congResult(ctx: Context, func: N.Norm): V.Value {
+  const pi = func.type.now() as V.Pi;
+  const [, x] = freshVariable(ctx, pi.argName, pi.argType);
+  return pi.resultType.valOfClosure(x);
+}
+
+/*
+  A solved metavariable is the same as its value, while an unsolved one
+  is solved by the neutral expression that it is compared to.
+*/
+function sameMetaNeutrals(start: Context, ctx: Context, n1: N.Neutral, n2: N.Neutral): Parts {
+  if (n1 instanceof N.Meta && n1.meta.value !== null) {
+    const type = n1.meta.type;
+    return [['value', ctx, type, n1.meta.value, new V.Neutral(type, n2)]];
+  } else if (n2 instanceof N.Meta && n2.meta.value !== null) {
+    const type = n2.meta.type;
+    return [['value', ctx, type, new V.Neutral(type, n1), n2.meta.value]];
+  } else if (n1 instanceof N.Meta && n2 instanceof N.Meta && n1.meta === n2.meta) {
+    return true;
+  } else if (n1 instanceof N.Meta) {
+    return solveMeta(n1.meta, n2.readBackNeutral(ctx), bound(start, ctx));
+  }
+  return solveMeta((n2 as N.Meta).meta, n1.readBackNeutral(ctx), bound(start, ctx));
+}
+
+function sameLengths(...pairs: [V.Value[], V.Value[]][]): boolean {
+  return pairs.every(([vs1, vs2]) => vs1.length === vs2.length);
+}
+
+function pairwise(ctx: Context, types: V.Value[], vs1: V.Value[], vs2: V.Value[]): Comparison[] {
+  return vs1.map((v1, i) => ['value', ctx, types[i], v1, vs2[i]]);
+}
@@ -0,0 +1,294 @@
+import * as C from '../types/core';
+import * as S from '../types/source';
+import * as V from '../types/value';
+
+import { go, stop, Perhaps, Message, fresh, TypedBinder } from '../types/utils';
+import {
+  bindFree, bindVal, Context, contextToEnvironment, nameNotUsed, valInContext
+} from '../utils/context';
+import { extendEnvironment } from '../utils/environment';
+import { Location } from '../utils/locations';
+import { ConstructorDescription, DataDescription, Telescope, telescopePi } from '../types/data';
+import { ConstructorDeclaration, DataDeclaration } from '../parser/parser';
+import { extendRenaming, PieInfoHook, Renaming } from './utils';
+import { synthesizer as Synth } from './synthesizer';
+import { withMetas } from './metas';
+
+/*
+  ## Checking data declarations ##
+
+  A data declaration is checked in four steps:
+   1. The parameters and indices are elaborated as a telescope of
+      types, which gives the type of the type constructor.
+   2. Each constructor's fields are elaborated with the type
+      constructor and the parameters bound as free variables. Every
+      occurrence of the type being defined must be strictly positive,
+      and must pass the parameters along unchanged.
+   3. Each constructor must construct the type being defined, applied
+      to the parameters and to indices that are checked against the
+      index telescope.
+   4. The type constructor, the constructors and ind-Name are added
+      to the context as definitions.
+*/
+
+export function addDataToContext(ctx: Context, decl: DataDeclaration): Perhaps<Context> {
+  return withMetas(() => checkData(ctx, decl));
+}
+
+function checkData(ctx: Context, decl: DataDeclaration): Perhaps<Context> {
+  const names = [decl.name, `ind-${decl.name}`]
+    .concat(decl.constructors.map(ctor => ctor.name));
+  for (let k = 0; k < names.length; k++) {
+    const unused = nameNotUsed(ctx, decl.location, names[k]);
+    if (unused instanceof stop) {
+      return unused;
+    }
+    if (names.indexOf(names[k]) !== k) {
+      return new stop(
+        decl.location,
+        new Message([`The name "${names[k]}" is declared more than once in ${decl.name}.`]),
+        'data-declaration'
+      );
+    }
+  }
+
+  for (const binder of decl.params.concat(decl.indices)) {
+    if (binder.type.findNames().includes(decl.name)) {
+      return new stop(
+        binder.binder.location,
+        new Message([`The parameters and indices of ${decl.name} cannot refer to ${decl.name}.`]),
+        'data-declaration'
+      );
+    }
+  }
+
+  // A parameter is recognized by its name, so nothing else may have it.
+  const paramNames = decl.params.map(param => param.binder.varName);
+  const others = decl.indices.concat(decl.constructors.flatMap(ctor => ctor.fields));
+  for (const { binder } of others) {
+    if (paramNames.includes(binder.varName)) {
+      return new stop(
+        binder.location,
+        new Message([`${binder.varName} is a parameter of ${decl.name}, so it cannot be bound again.`]),
+        'data-declaration'
+      );
+    }
+  }
+
+  const paramsOut = elaborateTelescope(ctx, new Map(), decl.params, false, decl.location);
+  if (paramsOut instanceof stop) {
+    return paramsOut;
+  }
+  const [paramsCtx, paramsRenames, params] = (paramsOut as go<[Context, Renaming, Telescope]>).result;
+
+  const indicesOut = elaborateTelescope(paramsCtx, paramsRenames, decl.indices, false, decl.location);
+  if (indicesOut instanceof stop) {
+    return indicesOut;
+  }
+  const [, , indices] = (indicesOut as go<[Context, Renaming, Telescope]>).result;
+
+  // While the constructors are checked, the type being defined is a
+  // free variable.
+  let ctorCtx = bindFree(
+    ctx,
+    decl.name,
+    telescopePi(contextToEnvironment(ctx), params.concat(indices), (_) => new V.Universe())
+  );
+  for (const [x, type] of params) {
+    ctorCtx = bindFree(ctorCtx, x, valInContext(ctorCtx, type));
+  }
+
+  const constructors: ConstructorDescription[] = [];
+  for (const ctor of decl.constructors) {
+    const ctorOut = checkConstructor(ctorCtx, paramsRenames, decl, indices, ctor);
+    if (ctorOut instanceof stop) {
+      return ctorOut;
+    }
+    constructors.push((ctorOut as go<ConstructorDescription>).result);
+  }
+
+  const env = contextToEnvironment(ctx);
+  const desc = new DataDescription(decl.name, params, indices, constructors, env);
+  env.set(decl.name, desc.typeConstructorValue());
+
+  let result = bindVal(ctx, decl.name, desc.typeConstructorType(), desc.typeConstructorValue());
+  constructors.forEach((ctor, k) => {
+    result = bindVal(result, ctor.name, desc.constructorType(k), desc.constructorValue(k));
+  });
+  result = bindVal(result, desc.eliminatorName(), desc.eliminatorType(), desc.eliminatorValue());
+  return new go(result);
+}
+
+/*
+  Elaborate each binder's type in turn, binding the fresh name of
+  each binder before checking the next. Because a declared datatype
+  is in U, the types of its fields must be in U as well, while its
+  parameters and indices may be in any universe. The binders are in
+  scope throughout scope.
+*/
+function elaborateTelescope(ctx: Context, renames: Renaming, binders: TypedBinder[], small: boolean, scope: Location): Perhaps<[Context, Renaming, Telescope]> {
+  const tele: Telescope = [];
+  for (const { binder, type } of binders) {
+    const typeOut = Synth.synthTypeLevel(ctx, renames, type);
+    if (typeOut instanceof stop) {
+      return typeOut;
+    }
+    const [typeCore, level] = (typeOut as go<[C.Core, number]>).result;
+    if (small && level > 0) {
+      return new stop(
+        type.location,
+        new Message([
+          `The type of ${binder.varName} must be in U, but ${type.prettyPrint()} ` +
+          `is in ${C.universeName(level)}.`
+        ]),
+        'data-declaration'
+      );
+    }
+    const xhat = fresh(ctx, binder.varName);
+    PieInfoHook(binder.location, ['binding-site', typeCore, binder.varName, scope]);
+    ctx = bindFree(ctx, xhat, valInContext(ctx, typeCore));
+    renames = extendRenaming(renames, binder.varName, xhat);
+    tele.push([xhat, typeCore]);
+  }
+  return new go([ctx, renames, tele]);
+}
+
+function checkConstructor(
+  ctx: Context,
+  renames: Renaming,
+  decl: DataDeclaration,
+  indices: Telescope,
+  ctor: ConstructorDeclaration
+): Perhaps<ConstructorDescription> {
+  const recursive: (number | null)[] = [];
+  for (const field of ctor.fields) {
+    const positivity = strictPositivity(decl, field.type);
+    if (positivity instanceof stop) {
+      return positivity;
+    }
+    recursive.push((positivity as go<number | null>).result);
+  }
+
+  const fieldsOut = elaborateTelescope(ctx, renames, ctor.fields, true, ctor.location);
+  if (fieldsOut instanceof stop) {
+    return fieldsOut;
+  }
+  const [fieldsCtx, fieldsRenames, fields] = (fieldsOut as go<[Context, Renaming, Telescope]>).result;
+
+  // The constructed type must be (Name p ... j ...).
+  const [head, args] = ctor.type instanceof S.Application
+    ? [ctor.type.func, [ctor.type.arg, ...ctor.type.args]]
+    : [ctor.type, []];
+  const np = decl.params.length;
+  if (!(head instanceof S.Name && head.name === decl.name)
+    || args.length !== np + indices.length) {
+    return new stop(
+      ctor.type.location,
+      new Message([
+        `The constructor ${ctor.name} must construct ${decl.name} applied to ` +
+        `${np} parameter(s) and ${indices.length} index(es), but its type is ` +
+        `${ctor.type.prettyPrint()}.`
+      ]),
+      'data-declaration'
+    );
+  }
+  for (let k = 0; k < np; k++) {
+    const uniform = uniformParameter(decl, k, args[k]);
+    if (uniform instanceof stop) {
+      return uniform;
+    }
+  }
+
+  // Index types may refer to earlier indices, while the indices
+  // themselves refer to the fields.
+  const fieldsEnv = contextToEnvironment(fieldsCtx);
+  let indexEnv = fieldsEnv;
+  const indexCores: C.Core[] = [];
+  for (let k = 0; k < indices.length; k++) {
+    const [i, type] = indices[k];
+    const indexOut = args[np + k].check(fieldsCtx, fieldsRenames, type.valOf(indexEnv));
+    if (indexOut instanceof stop) {
+      return indexOut;
+    }
+    const indexCore = (indexOut as go<C.Core>).result;
+    indexCores.push(indexCore);
+    indexEnv = extendEnvironment(indexEnv, i, indexCore.valOf(fieldsEnv));
+  }
+
+  return new go(new ConstructorDescription(ctor.name, fields, recursive, indexCores));
+}
+
+/*
+  A field's type may mention the type being defined only as the
+  result of a (possibly nullary) function type whose argument types
+  do not mention it. Finding an occurrence anywhere else would allow
+  non-terminating programs to be written.
+
+  The result is null for non-recursive fields, and otherwise the number
+  of arguments that must be supplied before reaching the recursive
+  occurrence.
+*/
+function strictPositivity(decl: DataDeclaration, type: S.Source): Perhaps<number | null> {
+  if (!type.findNames().includes(decl.name)) {
+    return new go(null);
+  }
+  if (type instanceof S.Pi || type instanceof S.Arrow) {
+    const [domains, codomain] = type instanceof S.Pi
+      ? [type.binders.map(binder => binder.type), type.body]
+      : [[type.arg1, type.arg2, ...type.args].slice(0, -1),
+         [type.arg1, type.arg2, ...type.args].slice(-1)[0]];
+    for (const domain of domains) {
+      if (domain.findNames().includes(decl.name)) {
+        return notStrictlyPositive(decl, domain.location);
+      }
+    }
+    const inner = strictPositivity(decl, codomain);
+    if (inner instanceof go && inner.result !== null) {
+      return new go(inner.result + domains.length);
+    }
+    return inner;
+  } else if (type instanceof S.Name && type.name === decl.name) {
+    return new go(0);
+  } else if (type instanceof S.Application
+    && type.func instanceof S.Name
+    && type.func.name === decl.name) {
+    const args = [type.arg, ...type.args];
+    for (let k = 0; k < args.length; k++) {
+      if (args[k].findNames().includes(decl.name)) {
+        return notStrictlyPositive(decl, args[k].location);
+      }
+      if (k < decl.params.length) {
+        const uniform = uniformParameter(decl, k, args[k]);
+        if (uniform instanceof stop) {
+          return uniform;
+        }
+      }
+    }
+    return new go(0);
+  }
+  return notStrictlyPositive(decl, type.location);
+}
+
+function notStrictlyPositive(decl: DataDeclaration, where: Location): stop {
+  return new stop(
+    where,
+    new Message([`${decl.name} occurs in a position that is not strictly positive.`]),
+    'data-declaration'
+  );
+}
+
+// Parameters must be passed along unchanged wherever the type being
+// defined is mentioned.
+function uniformParameter(decl: DataDeclaration, k: number, arg: S.Source): Perhaps<undefined> {
+  const param = decl.params[k].binder.varName;
+  if (arg instanceof S.Name && arg.name === param) {
+    return new go(undefined);
+  }
+  return new stop(
+    arg.location,
+    new Message([
+      `Expected the parameter ${param} of ${decl.name}, but found ${arg.prettyPrint()}.`
+    ]),
+    'data-declaration'
+  );
+}
@@ -0,0 +1,141 @@
+import { Core } from "../types/core";
+import { Location } from "../utils/locations";
+import { PieInfoListener, TypeInfo, What } from "./utils";
+
+/*
+  ## The information index ##
+
+  While a program is checked, PieInfoHook reports what is learned
+  about each part of it: the type of an expression, that an expression
+  is a type, the type of the variable bound at a binding site, and the
+  goal at a TODO. An InfoIndex keeps these facts by the span of source
+  that they are about, so that they can be looked up by position: the
+  type of the innermost expression at a line and column, or the place
+  where a name that is used there was bound.
+
+  Lines and columns are counted from 1, as they are in Locations.
+*/
+
+export class InfoEntry {
+  constructor(
+    public location: Location,
+    private info: What | TypeInfo,
+  ) { }
+
+  public get what(): What {
+    if (typeof this.info === 'function') {
+      this.info = this.info();
+    }
+    return this.info;
+  }
+
+  // What is known about the location without reading back a type.
+  public get known(): What | null {
+    return typeof this.info === 'function' ? null : this.info;
+  }
+}
+
+// A top-level declaration, and the names that it binds.
+class Declared {
+  constructor(
+    public location: Location,
+    public names: string[],
+  ) { }
+}
+
+export class InfoIndex {
+  private entries: InfoEntry[] = [];
+  private declarations: Declared[] = [];
+
+  public record(where: Location, what: What | TypeInfo): void {
+    this.entries.push(new InfoEntry(where, what));
+  }
+
+  // Record the information that is sent while the index listens.
+  public get listener(): PieInfoListener {
+    return (where, what) => this.record(where, what);
+  }
+
+  // Record a top-level declaration, which binds names globally.
+  public declare(location: Location, names: string[]): void {
+    this.declarations.push(new Declared(location, names));
+  }
+
+  // Add what another index knows, such as that of a later declaration.
+  public include(other: InfoIndex): void {
+    this.entries.push(...other.entries);
+    this.declarations.push(...other.declarations);
+  }
+
+  // The facts about the spans that contain the position, innermost first.
+  public entriesAt(line: number, column: number): InfoEntry[] {
+    return this.entries
+      .filter(entry => contains(entry.location, line, column))
+      .sort((a, b) => size(a.location) - size(b.location));
+  }
+
+  /*
+    The type of the innermost expression at the position, or of the
+    variable whose binding site is there, with the span that it is
+    about.
+  */
+  public typeAt(line: number, column: number): [Location, Core] | null {
+    for (const { location, what } of this.entriesAt(line, column)) {
+      if (what !== 'definition' && (what[0] === 'has-type' || what[0] === 'binding-site')) {
+        return [location, what[1]];
+      }
+    }
+    return null;
+  }
+
+  /*
+    Where the name, used at the position, was bound. A local binding
+    site is found among the binders of the name whose scope contains
+    the position and that come before it, as the one with the
+    innermost scope; of binders with the same scope, such as those of
+    one Π, the last one shadows the others. Otherwise, the name is
+    bound by the first declaration of it.
+  */
+  public bindingSite(name: string, line: number, column: number): Location | null {
+    let nearest: [Location, Location] | null = null;
+    for (const { location, known: what } of this.entries) {
+      if (what === null || what === 'definition' || what[0] !== 'binding-site' || what[2] !== name) {
+        continue;
+      }
+      const scope = what[3];
+      if (!contains(scope, line, column) || before(line, column, location)) {
+        continue;
+      }
+      if (nearest === null || size(scope) < size(nearest[1])
+        || (size(scope) === size(nearest[1]) && !startsBefore(location, nearest[0]))) {
+        nearest = [location, scope];
+      }
+    }
+    if (nearest !== null) {
+      return nearest[0];
+    }
+    return this.declarations.find(decl => decl.names.includes(name))?.location ?? null;
+  }
+}
+
+// Whether the position comes before the start of loc.
+function before(line: number, column: number, loc: Location): boolean {
+  const start = loc.syntax.start;
+  return line < start.line || (line === start.line && column < start.column);
+}
+
+function startsBefore(loc: Location, other: Location): boolean {
+  return before(loc.syntax.start.line, loc.syntax.start.column, other);
+}
+
+function contains(loc: Location, line: number, column: number): boolean {
+  const { start, end } = loc.syntax;
+  return !before(line, column, loc)
+    && (line < end.line || (line === end.line && column <= end.column));
+}
+
+// A measure of the size of a span, for finding the innermost one.
+function size(loc: Location): number {
+  const { start, end } = loc.syntax;
+  return (end.line - start.line) * 100000 + (end.column - start.column);
+}
@@ -0,0 +1,168 @@
+import * as C from '../types/core';
+import * as V from '../types/value';
+import * as N from '../types/neutral';
+
+import { bindFree, Context, valInContext } from '../utils/context';
+import { Location } from '../utils/locations';
+import { fresh, go, goOn, stop, Perhaps, PerhapsM, Message, recoverStop, RelatedInformation } from '../types/utils';
+
+/*
+  ## Implicit arguments and metavariables ##
+
+  An implicit argument is bound with braces, as in
+  (Π ({A U}) (-> A A)), and is usually not written when the function is
+  applied. Instead, the elaborator inserts a metavariable in its place.
+  Metavariables are solved by unification while the explicit arguments
+  and the expected type are checked: conversion (see convertible)
+  solves an unsolved metavariable with the read-back of the value it is
+  compared to, as long as that expression makes sense in the context
+  where the metavariable was created.
+
+  Each top-level form is elaborated by withMetas, which reports the
+  metavariables that remain unsolved together with the location of the
+  application that introduced them.
+*/
+
+export class MetaVariable {
+  public solution: C.Core | null = null;
+  public value: V.Value | null = null;
+
+  constructor(
+    public name: string,
+    public ctx: Context,
+    public type: V.Value,
+    public location: Location,
+  ) { }
+}
+
+// The metavariables created while elaborating the current form.
+let pending: MetaVariable[] = [];
+
+export function freshMeta(ctx: Context, type: V.Value, location: Location, name: string): MetaVariable {
+  const meta = new MetaVariable(name, ctx, type, location);
+  pending.push(meta);
+  return meta;
+}
+
+/*
+  Solve meta with solution, unless the solution mentions variables that
+  are not in scope for meta (including those in bound, which are bound
+  by the surrounding expression) or mentions meta itself.
+*/
+export function solveMeta(meta: MetaVariable, solution: C.Core, bound: string[]): boolean {
+  if (!inScope(meta, solution, bound, [])) {
+    return false;
+  }
+  meta.solution = solution;
+  meta.value = valInContext(meta.ctx, solution);
+  return true;
+}
+
+function inScope(meta: MetaVariable, expr: C.Core, bound: string[], local: string[]): boolean {
+  if (expr instanceof C.Meta) {
+    return expr.meta.solution !== null
+      ? inScope(meta, expr.meta.solution, bound, local)
+      : expr.meta !== meta;
+  } else if (expr instanceof C.VarName) {
+    return local.includes(expr.name)
+      || (!bound.includes(expr.name) && meta.ctx.has(expr.name));
+  } else if (expr instanceof C.Pi || expr instanceof C.Sigma) {
+    return inScope(meta, expr.type, bound, local)
+      && inScope(meta, expr.body, bound, [expr.name, ...local]);
+  } else if (expr instanceof C.Lambda) {
+    return inScope(meta, expr.body, bound, [expr.param, ...local]);
+  }
+  // Every other expression binds no variables, so its immediate
+  // subexpressions are checked in the same scope.
+  return Object.values(expr).every(field => {
+    if (field instanceof C.Core) {
+      return inScope(meta, field, bound, local);
+    } else if (Array.isArray(field)) {
+      return field.every(elem =>
+        !(elem instanceof C.Core) || inScope(meta, elem, bound, local)
+      );
+    }
+    return true;
+  });
+}
+
+/*
+  Elaborate a top-level form, failing if any of the metavariables that
+  it introduces are left unsolved. The unsolved metavariables after the
+  first are given as related locations.
+*/
+export function withMetas<T>(elaborate: () => Perhaps<T>): Perhaps<T> {
+  const outer = pending;
+  pending = [];
+  try {
+    const result = recoverStop(elaborate);
+    if (result instanceof stop) {
+      return result;
+    }
+    const unsolved = pending.filter(meta => meta.solution === null);
+    if (unsolved.length > 0) {
+      return new stop(
+        unsolved[0].location,
+        new Message([
+          'Unable to infer the implicit argument(s) ',
+          ...unsolved.flatMap((meta, k) => [
+            `${k === 0 ? '' : ', '}${meta.name} : `,
+            meta.type.readBackType(meta.ctx),
+            ` (at ${meta.location.syntax.start.line}:${meta.location.syntax.start.column})`
+          ]),
+          '.'
+        ]),
+        'unsolved-implicit',
+        unsolved.slice(1).map(meta => new RelatedInformation(
+          meta.location.locationToSrcLoc(),
+          new Message([`The implicit argument ${meta.name} is introduced here.`])
+        ))
+      );
+    }
+    return result;
+  } finally {
+    pending = outer;
+  }
+}
+
+/*
+  When an expression whose type has implicit arguments is used where
+  they are not supplied, a metavariable is inserted for each of them.
+*/
+export function insertImplicitArguments(ctx: Context, location: Location, the: C.The): C.The {
+  let expr = the.expr;
+  let type = valInContext(ctx, the.type).now();
+  if (!(type instanceof V.Pi && type.implicit)) {
+    return the;
+  }
+  while (type instanceof V.Pi && type.implicit) {
+    const meta = new C.Meta(freshMeta(ctx, type.argType, location, type.argName));
+    expr = new C.Application(expr, meta, true);
+    type = type.resultType.valOfClosure(valInContext(ctx, meta)).now();
+  }
+  return new C.The(type.readBackType(ctx), expr);
+}
+
+/*
+  When an expression is checked against a type with an implicit
+  argument that it does not bind itself, the argument is bound by an
+  inserted λ.
+*/
+export function bindImplicitArgument(
+  ctx: Context,
+  type: V.Pi,
+  checkBody: (ctx: Context, type: V.Value) => Perhaps<C.Core>
+): Perhaps<C.Core> {
+  const x = fresh(ctx, type.argName);
+  const bodyOut = new PerhapsM<C.Core>('bodyOut');
+  return goOn(
+    [[
+      bodyOut,
+      () => checkBody(
+        bindFree(ctx, x, type.argType),
+        type.resultType.valOfClosure(new V.Neutral(type.argType, new N.Variable(x)))
+      )
+    ]],
+    () => new go(new C.Lambda(x, bodyOut.value, true))
+  );
+}
@@ -0,0 +1,160 @@
+import * as C from '../types/core';
+import * as S from '../types/source';
+import * as V from '../types/value';
+import * as N from '../types/neutral';
+
+import { bindFree, Context, Free, valInContext } from '../utils/context';
+import { Location } from '../utils/locations';
+import { go, stop, Perhaps, Message, fresh } from '../types/utils';
+import { doApp } from '../evaluator/evaluator';
+import { rename, Renaming, sameType } from './utils';
+
+/*
+  ## Motive inference ##
+
+  When ind-Nat, ind-List, ind-Vec or ind-Either is checked against a
+  known type, its motive may be left out. If the targets are variables,
+  the motive is found by abstracting them out of the expected type: for
+  instance, checking (ind-Nat n base step) against (= Nat (+ n 0) n)
+  gives the motive (λ (n) (= Nat (+ n 0) n)).
+
+  The abstraction is impossible when a target is not a variable bound
+  by λ, Π or Σ, or when the expected type mentions another variable
+  whose type depends on a target, because that variable would not be
+  abstracted along with it.
+
+  The motive that is found must still have the motive type of the
+  eliminator, whose universe may be smaller than the universe that the
+  expected type is in. See checkInferredMotive.
+*/
+export function inferMotive(
+  ctx: Context,
+  renames: Renaming,
+  eliminator: string,
+  targets: S.Source[],
+  type: V.Value
+): Perhaps<S.Source> {
+  const typeCore = type.readBackType(ctx);
+  const names: string[] = [];
+  for (const target of targets) {
+    if (!(target instanceof S.Name)) {
+      return cannotAbstract(
+        target.location,
+        eliminator,
+        [`the target ${target.prettyPrint()} is not a variable`]
+      );
+    }
+    const x = rename(renames, target.name);
+    if (!(ctx.get(x) instanceof Free)) {
+      return cannotAbstract(
+        target.location,
+        eliminator,
+        [`${target.name} is not a variable bound by λ, Π or Σ`]
+      );
+    }
+    if (names.includes(x)) {
+      return cannotAbstract(
+        target.location,
+        eliminator,
+        [`${target.name} is given for more than one target`]
+      );
+    }
+    names.push(x);
+  }
+
+  for (const [y, binder] of ctx) {
+    if (binder instanceof Free && !names.includes(y) && mentions(typeCore, y)) {
+      const dependsOn = names.find(x => mentions(binder.type.readBackType(ctx), x));
+      if (dependsOn !== undefined) {
+        return cannotAbstract(
+          targets[0].location,
+          eliminator,
+          [`the type of ${y} depends on ${dependsOn}, and ${y} occurs in `, typeCore]
+        );
+      }
+    }
+  }
+
+  const motive = names.reduceRight<C.Core>(
+    (body, x) => new C.Lambda(x, body),
+    typeCore
+  );
+  return new go(new S.InferredMotive(targets[0].location, motive));
+}
+
+/*
+  Check an inferred motive against the motive type of its eliminator,
+  (Π ((x X) ...) U), as the same motive written out would be checked:
+  the type that it gives for the targets must be in U.
+*/
+export function checkInferredMotive(ctx: Context, where: Location, motive: C.Core, type: V.Value): Perhaps<C.Core> {
+  let body = valInContext(ctx, motive);
+  let bodyType = type.now();
+  while (bodyType instanceof V.Pi) {
+    const x = fresh(ctx, bodyType.argName);
+    const arg = new V.Neutral(bodyType.argType, new N.Variable(x));
+    ctx = bindFree(ctx, x, bodyType.argType);
+    body = doApp(body, arg);
+    bodyType = bodyType.resultType.valOfClosure(arg).now();
+  }
+  const same = sameType(ctx, where, new V.Universe(universeLevel(ctx, body)), bodyType);
+  if (same instanceof stop) {
+    return same;
+  }
+  return new go(motive);
+}
+
+// The smallest universe that the type is in.
+function universeLevel(ctx: Context, type: V.Value): number {
+  const now = type.now();
+  if (now instanceof V.Universe) {
+    return now.level + 1;
+  } else if (now instanceof V.Pi || now instanceof V.Sigma) {
+    const [name, argType, body] = now instanceof V.Pi
+      ? [now.argName, now.argType, now.resultType]
+      : [now.carName, now.carType, now.cdrType];
+    const x = fresh(ctx, name);
+    const bodyType = body.valOfClosure(new V.Neutral(argType, new N.Variable(x)));
+    return Math.max(universeLevel(ctx, argType), universeLevel(bindFree(ctx, x, argType), bodyType));
+  } else if (now instanceof V.Equal) {
+    return universeLevel(ctx, now.type);
+  } else if (now instanceof V.List || now instanceof V.Vec) {
+    return universeLevel(ctx, now.entryType);
+  } else if (now instanceof V.Either) {
+    return Math.max(universeLevel(ctx, now.leftType), universeLevel(ctx, now.rightType));
+  } else if (now instanceof V.Neutral) {
+    // A type that is not yet known is in the universe that it was given in.
+    const universe = now.type.now();
+    return universe instanceof V.Universe ? universe.level : 0;
+  }
+  // Nat, Atom, Trivial, Absurd and the declared datatypes are in U.
+  return 0;
+}
+
+function cannotAbstract(where: Location, eliminator: string, reason: (string | C.Core)[]): stop {
+  return new stop(
+    where,
+    new Message([
+      `Cannot find the motive for ${eliminator}, because `,
+      ...reason,
+      '. Please write the motive explicitly.'
+    ]),
+    'motive'
+  );
+}
+
+// Whether the variable x occurs free in expr.
+export function mentions(expr: C.Core, x: string): boolean {
+  if (expr instanceof C.VarName) {
+    return expr.name === x;
+  } else if (expr instanceof C.Pi || expr instanceof C.Sigma) {
+    return mentions(expr.type, x) || (expr.name !== x && mentions(expr.body, x));
+  } else if (expr instanceof C.Lambda) {
+    return expr.param !== x && mentions(expr.body, x);
+  }
+  return Object.values(expr).some(field =>
+    field instanceof C.Core
+      ? mentions(field, x)
+      : Array.isArray(field) && field.some(elem => elem instanceof C.Core && mentions(elem, x))
+  );
+}
@@ -5,15 +5,17 @@ import { Context, valInContext} from '../utils/context';
 import { Source } from '../types/source';
 import { go, goOn, Perhaps, PerhapsM } from '../types/utils';
 import { readBack } from '../evaluator/utils';
+import { readBackWhnf } from '../evaluator/whnf';
 import { Location } from '../utils/locations';
 import { convert } from './utils';
+import { withMetas } from './metas';
 
 /**
  * Represent the expression in the context.
  */
-export function represent(ctx: Context, expr: Source): Perhaps<C.Core> {
+export function represent(ctx: Context, expr: Source): Perhaps<C.The> {
   const outmeta = new PerhapsM<C.The>('outmeta');
-  return goOn([[outmeta, () => expr.synth(ctx, new Map())]],
+  return withMetas(() => goOn([[outmeta, () => expr.synth(ctx, new Map())]],
     () => {
       const tv = valInContext(ctx, outmeta.value.type);
       const v = valInContext(ctx, outmeta.value.expr);
@@ -21,17 +23,41 @@ export function represent(ctx: Context, expr: Source): Perhaps<C.Core> {
         new C.The(tv.readBackType(ctx), readBack(ctx, tv, v))
       );
     }
-  );
+  ));
+}
+
+/**
+ * Represent the expression in the context, finding its value only as
+ * far as its outermost constructor.
+ */
+export function whnf(ctx: Context, expr: Source): Perhaps<C.The> {
+  const outmeta = new PerhapsM<C.The>('outmeta');
+  return withMetas(() => goOn([[outmeta, () => expr.synth(ctx, new Map())]],
+    () => {
+      const tv = valInContext(ctx, outmeta.value.type);
+      const v = valInContext(ctx, outmeta.value.expr);
+      return new go(
+        new C.The(tv.readBackType(ctx), readBackWhnf(ctx, tv, v))
+      );
+    }
+  ));
+}
+
+/**
+ * Elaborate the expression in the context, without finding its value.
+ */
+export function elaborate(ctx: Context, expr: Source): Perhaps<C.The> {
+  return withMetas(() => expr.synth(ctx, new Map()));
 }
 
 export function normType(ctx: Context, src: Source): Perhaps<C.Core> {
   const eout = new PerhapsM<C.Core>('eout');
-  return goOn(
+  return withMetas(() => goOn(
     [[eout, () => src.isType(ctx, new Map())]],
     () => {
       return new go(valInContext(ctx, eout.value!).readBackType(ctx));
     }
-  )
+  ));
 }
 
 // (: check-same (-> Ctx Loc Src Src Src (Perhaps Void)))
@@ -51,17 +77,17 @@ export function checkSame(ctx: Context, where: Location, t: Source, a: Source, b
   const rightOut = new PerhapsM<C.Core>('bOut');
   const leftValue = new PerhapsM<V.Value>('av');
   const rightValue = new PerhapsM<V.Value>('bv');
-  return goOn(
+  return withMetas(() => goOn(
     [
       [typeOut, () => t.isType(ctx, new Map())],
-      [typeValue, () => valInContext(ctx, typeOut.value).readBackType(ctx)],
+      [typeValue, () => new go(valInContext(ctx, typeOut.value))],
       [leftOut, () => a.check(ctx, new Map(), typeValue.value)],
       [rightOut, () => b.check(ctx, new Map(), typeValue.value)],
-      [leftValue, () => valInContext(ctx, leftOut.value)],
-      [rightValue, () => valInContext(ctx, rightOut.value)]
+      [leftValue, () => new go(valInContext(ctx, leftOut.value))],
+      [rightValue, () => new go(valInContext(ctx, rightOut.value))]
     ],
     () => {
       return convert(ctx, where, typeValue.value, leftValue.value, rightValue.value);
     }
-  );
+  ));
 }
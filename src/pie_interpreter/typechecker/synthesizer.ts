@@ -13,6 +13,7 @@ import { notForInfo } from "../utils/locations";
 import { doApp, doCar, indVecStepType } from "../evaluator/evaluator";
 import { readBack } from '../evaluator/utils';
 import { Location } from '../utils/locations';
+import { insertImplicitArguments } from './metas';
 
 
 export class synthesizer {
@@ -24,65 +25,95 @@ export class synthesizer {
     ));
   }
 
-  public static synthUniverse(ctx: Context, r: Renaming, location: Location): Perhaps<C.The> {
-    return new stop(location,
-      new Message(["U is a type, but it does not have a type."])
+  public static synthUniverse(ctx: Context, r: Renaming, level: number): Perhaps<C.The> {
+    return new go(new C.The(
+      new C.Universe(level + 1),
+      new C.Universe(level)
+    ));
+  }
+
+  /*
+    Elaborate a type, finding the level of the smallest universe that
+    contains it. TODO cannot be synthesized, so a TODO type is taken to
+    be in U.
+  */
+  public static synthTypeLevel(ctx: Context, r: Renaming, type: S.Source): Perhaps<[C.Core, number]> {
+    if (type instanceof S.TODO) {
+      const todoOut = new PerhapsM<C.Core>('todoOut');
+      return goOn(
+        [[todoOut, () => type.check(ctx, r, new V.Universe())]],
+        () => new go<[C.Core, number]>([todoOut.value, 0])
+      );
+    }
+    const theOut = new PerhapsM<C.The>('theOut');
+    return goOn(
+      [[theOut, () => type.synth(ctx, r)]],
+      () => {
+        const universe = valInContext(ctx, theOut.value.type).now();
+        if (universe instanceof V.Universe) {
+          return new go<[C.Core, number]>([theOut.value.expr, universe.level]);
+        }
+        return new stop(
+          type.location,
+          new Message(['Expected a type, but got an expression of type ', theOut.value.type]),
+          'type-mismatch'
+        );
+      }
     );
   }
 
   public static synthArrow(context: Context, r: Renaming, location: Location, arg1 : S.Source, arg2 : S.Source, args : S.Source[]): Perhaps<C.The> {
     if (args.length === 0) {
       const z = freshBinder(context, arg2, 'x');
-      const Aout = new PerhapsM<C.Core>("Aout");
-      const Bout = new PerhapsM<C.Core>('Bout');
+      const Aout = new PerhapsM<[C.Core, number]>("Aout");
+      const Bout = new PerhapsM<[C.Core, number]>('Bout');
       return goOn(
         [
           [Aout, () => 
-            arg1.check(context, r, new V.Universe())],
+            synthesizer.synthTypeLevel(context, r, arg1)],
           [Bout, () => 
-            arg2.check(
-              bindFree(context, z, valInContext(context, Aout.value)),
+            synthesizer.synthTypeLevel(
+              bindFree(context, z, valInContext(context, Aout.value[0])),
               r,
-              new V.Universe()
+              arg2
             )
           ],
         ],
         (() => {
           return new go<C.The>(
             new C.The(
-              new C.Universe(),
+              new C.Universe(Math.max(Aout.value[1], Bout.value[1])),
               new C.Pi(
                 z,
-                Aout.value,
-                Bout.value
+                Aout.value[0],
+                Bout.value[0]
               )))
         })
       );
     } else {
       const [first, ...rest] = args;
       const z = freshBinder(context, makeApp(arg2, first, rest), 'x');
-      const Aout = new PerhapsM<C.Core>("Aout");
-      const tout = new PerhapsM<C.Core>('tout');
+      const Aout = new PerhapsM<[C.Core, number]>("Aout");
+      const tout = new PerhapsM<[C.Core, number]>('tout');
       return goOn(
         [
-          [Aout, () => arg1.check(context, r, new V.Universe())],
+          [Aout, () => synthesizer.synthTypeLevel(context, r, arg1)],
           [tout, () =>
-            new S.Arrow(notForInfo(location), arg2, first, rest)
-                .check(
-                  bindFree(context, z, valInContext(context, Aout.value)),
-                  r,
-                  new V.Universe()
-                )
+            synthesizer.synthTypeLevel(
+              bindFree(context, z, valInContext(context, Aout.value[0])),
+              r,
+              new S.Arrow(notForInfo(location), arg2, first, rest)
+            )
           ]
         ],
         () => {
           return new go<C.The>(
             new C.The(
-              new C.Universe(),
+              new C.Universe(Math.max(Aout.value[1], tout.value[1])),
               new C.Pi(
                 z,
-                Aout.value,
-                tout.value
+                Aout.value[0],
+                tout.value[0]
               )
             )
           )
@@ -95,25 +126,26 @@ export class synthesizer {
       const [binder, type] = [binders[0].binder, binders[0].type];
       const xhat = fresh(context, binder.varName);
       const xloc = binder.location;
-      const Aout = new PerhapsM<C.Core>('Aout');
-      const Bout = new PerhapsM<C.Core>('Bout');
+      const Aout = new PerhapsM<[C.Core, number]>('Aout');
+      const Bout = new PerhapsM<[C.Core, number]>('Bout');
       return goOn(
         [
-          [Aout, () => type.check(context, r, new V.Universe())],
-          [Bout, () => body.check(
-            bindFree(context, xhat, valInContext(context, Aout.value)),
+          [Aout, () => synthesizer.synthTypeLevel(context, r, type)],
+          [Bout, () => synthesizer.synthTypeLevel(
+            bindFree(context, xhat, valInContext(context, Aout.value[0])),
             extendRenaming(r, binder.varName, xhat),
-            new V.Universe())],
+            body)],
         ],
         () => {
-          PieInfoHook(xloc, ['binding-site', Aout.value!]);
+          PieInfoHook(xloc, ['binding-site', Aout.value[0], binder.varName, location]);
           return new go<C.The>(
             new C.The(
-              new C.Universe(),
+              new C.Universe(Math.max(Aout.value[1], Bout.value[1])),
               new C.Pi(
                 xhat,
-                Aout.value,
-                Bout.value
+                Aout.value[0],
+                Bout.value[0],
+                binders[0].implicit
               )
             )
           )
@@ -125,29 +157,29 @@ export class synthesizer {
       const xloc = binder.location;
       const x = binder.varName;
       const xhat = fresh(context, x);
-      const Aout = new PerhapsM<C.Core>('Aout');
-      const Bout = new PerhapsM<C.Core>('Bout');
+      const Aout = new PerhapsM<[C.Core, number]>('Aout');
+      const Bout = new PerhapsM<[C.Core, number]>('Bout');
       return goOn(
         [
-          [Aout, () => type.check(context, r, new V.Universe())],
+          [Aout, () => synthesizer.synthTypeLevel(context, r, type)],
           [Bout, () =>
-            new S.Pi(notForInfo(location), rest, body)
-              .check(
-                bindFree(context, xhat, valInContext(context, Aout.value)),
-                extendRenaming(r, x, xhat),
-                new V.Universe()
-              )
+            synthesizer.synthTypeLevel(
+              bindFree(context, xhat, valInContext(context, Aout.value[0])),
+              extendRenaming(r, x, xhat),
+              new S.Pi(notForInfo(location), rest, body)
+            )
           ],
         ],
         () => {
-          PieInfoHook(xloc, ['binding-site', Aout.value!]);
+          PieInfoHook(xloc, ['binding-site', Aout.value[0], binder.varName, location]);
           return new go<C.The>(
             new C.The(
-              new C.Universe(),
+              new C.Universe(Math.max(Aout.value[1], Bout.value[1])),
               new C.Pi(
                 xhat,
-                Aout.value,
-                Bout.value
+                Aout.value[0],
+                Bout.value[0],
+                binders[0].implicit
               )
             )
           )
@@ -379,25 +411,25 @@ export class synthesizer {
 
   public static synthPair(context: Context, r: Renaming, first: S.Source, second: S.Source): Perhaps<C.The> {
     const a = fresh(context, 'a');
-    const Aout = new PerhapsM<C.Core>('Aout');
-    const Dout = new PerhapsM<C.Core>('Dout');
+    const Aout = new PerhapsM<[C.Core, number]>('Aout');
+    const Dout = new PerhapsM<[C.Core, number]>('Dout');
     return goOn(
       [
-        [Aout, () => first.check(context, r, new V.Universe())],
+        [Aout, () => synthesizer.synthTypeLevel(context, r, first)],
         [Dout, () => 
-          second.check(
-            bindFree(context, a, valInContext(context, Aout.value)),
+          synthesizer.synthTypeLevel(
+            bindFree(context, a, valInContext(context, Aout.value[0])),
             r,
-            new V.Universe()
+            second
         )],
       ],
       () => new go<C.The>(
         new C.The(
-          new C.Universe(),
+          new C.Universe(Math.max(Aout.value[1], Dout.value[1])),
           new C.Sigma(
             a,
-            Aout.value,
-            Dout.value
+            Aout.value[0],
+            Dout.value[0]
           )
         )
       )
@@ -410,26 +442,26 @@ export class synthesizer {
       const [bd, type] = [binders[0].binder, binders[0].type];
       const xhat = fresh(context, bd.varName);
       const xloc = bd.location;
-      const Aout = new PerhapsM<C.Core>('Aout');
-      const Dout = new PerhapsM<C.Core>('Dout');
+      const Aout = new PerhapsM<[C.Core, number]>('Aout');
+      const Dout = new PerhapsM<[C.Core, number]>('Dout');
       return goOn(
         [
-          [Aout, () => type.check(context, r, new V.Universe())],
-          [Dout, () => body.check(
-            bindFree(context, xhat, valInContext(context, Aout.value)),
+          [Aout, () => synthesizer.synthTypeLevel(context, r, type)],
+          [Dout, () => synthesizer.synthTypeLevel(
+            bindFree(context, xhat, valInContext(context, Aout.value[0])),
             extendRenaming(r, bd.varName, xhat),
-            new V.Universe()
+            body
           )],
         ],
         () => {
-          PieInfoHook(xloc, ['binding-site', Aout.value!]);
+          PieInfoHook(xloc, ['binding-site', Aout.value[0], bd.varName, location]);
           return new go<C.The>(
             new C.The(
-              new C.Universe(),
+              new C.Universe(Math.max(Aout.value[1], Dout.value[1])),
               new C.Sigma(
                 xhat,
-                Aout.value,
-                Dout.value
+                Aout.value[0],
+                Dout.value[0]
               )
             )
           )
@@ -441,32 +473,32 @@ export class synthesizer {
       const xloc = binder.location;
       const x = binder.varName;
       const xhat = fresh(context, x);
-      const Aout = new PerhapsM<C.Core>('Aout');
-      const Dout = new PerhapsM<C.Core>('Dout');
+      const Aout = new PerhapsM<[C.Core, number]>('Aout');
+      const Dout = new PerhapsM<[C.Core, number]>('Dout');
       return goOn(
         [
-          [Aout, () => type.check(context, r, new V.Universe())],
+          [Aout, () => synthesizer.synthTypeLevel(context, r, type)],
           [Dout, () => 
-            new S.Sigma(
-              notForInfo(location),
-              rest,
-              body
-            ).check(
-              bindFree(context, xhat, valInContext(context, Aout.value)),
+            synthesizer.synthTypeLevel(
+              bindFree(context, xhat, valInContext(context, Aout.value[0])),
               extendRenaming(r, x, xhat),
-              new V.Universe()
+              new S.Sigma(
+                notForInfo(location),
+                rest,
+                body
+              )
             )
           ],
         ],
         () => {
-          PieInfoHook(xloc, ['binding-site', Aout.value]);
+          PieInfoHook(xloc, ['binding-site', Aout.value[0], binder.varName, location]);
           return new go<C.The>(
             new C.The(
-              new C.Universe(),
+              new C.Universe(Math.max(Aout.value[1], Dout.value[1])),
               new C.Sigma(
                 xhat,
-                Aout.value,
-                Dout.value
+                Aout.value[0],
+                Dout.value[0]
               )
             )
           )
@@ -495,7 +527,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`car requires a Pair type, but was used as a: ${val}.`])
+            new Message([`car requires a Pair type, but was used as a: ${val}.`]),
+            'type-mismatch'
           );
         }
       }
@@ -523,7 +556,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`cdr requires a Pair type, but was used as a: ${val}.`])
+            new Message([`cdr requires a Pair type, but was used as a: ${val}.`]),
+            'type-mismatch'
           );
         }
       }
@@ -541,7 +575,8 @@ export class synthesizer {
     } else {
       return new stop(
         location,
-        new Message([`Invalid atom: ${atom}. Atoms consist of letters and hyphens.`])
+        new Message([`Invalid atom: ${atom}. Atoms consist of letters and hyphens.`]),
+        'invalid-atom'
       );
     }
   }
@@ -646,7 +681,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`Not a List: ${type.readBackType(context)}.`])
+            new Message(['Not a List: ', type.readBackType(context), '.']),
+            'type-mismatch'
           );
         }
       })
@@ -714,7 +750,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`Not a List: ${type.readBackType(context)}.`])
+            new Message(['Not a List: ', type.readBackType(context), '.']),
+            'type-mismatch'
           );
         }
       }
@@ -723,13 +760,13 @@ export class synthesizer {
 
 
   public static synthList(context: Context, r: Renaming, e: S.List): Perhaps<C.The> {
-    const Eout = new PerhapsM<C.Core>('Eout');
+    const Eout = new PerhapsM<[C.Core, number]>('Eout');
     return goOn(
-      [[Eout, () => e.entryType.check(context, r, new V.Universe())]],
+      [[Eout, () => synthesizer.synthTypeLevel(context, r, e.entryType)]],
       () => new go<C.The>(
         new C.The(
-          new C.Universe(),
-          new C.List(Eout.value)
+          new C.Universe(Eout.value[1]),
+          new C.List(Eout.value[0])
         )
       )
     );
@@ -796,22 +833,22 @@ export class synthesizer {
 
 
   public static synthEqual(context: Context, r: Renaming, type: S.Source, left: S.Source, right: S.Source): Perhaps<C.The> {
-    const Aout = new PerhapsM<C.Core>('Aout');
+    const Aout = new PerhapsM<[C.Core, number]>('Aout');
     const Av = new PerhapsM<V.Value>('Av');
     const from_out = new PerhapsM<C.Core>('from_out');
     const to_out = new PerhapsM<C.Core>('to_out');
     return goOn(
       [
-        [Aout, () => type.check(context, r, new V.Universe())],
-        [Av, () => new go(valInContext(context, Aout.value))],
+        [Aout, () => synthesizer.synthTypeLevel(context, r, type)],
+        [Av, () => new go(valInContext(context, Aout.value[0]))],
         [from_out, () => left.check(context, r, Av.value)],
         [to_out, () => right.check(context, r, Av.value)],
       ],
       () => new go<C.The>(
         new C.The(
-          new C.Universe(),
+          new C.Universe(Aout.value[1]),
           new C.Equal(
-            Aout.value,
+            Aout.value[0],
             from_out.value,
             to_out.value
           )
@@ -866,7 +903,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`Expected an expression with = type, but the type was: ${tgtout.value.type}.`])
+            new Message(['Expected an expression with = type, but the type was: ', tgtout.value.type, '.']),
+            'type-mismatch'
           );
         }
       }
@@ -907,7 +945,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`Expected =, got ${result1} and ${result2}.`])
+            new Message([`Expected =, got ${result1} and ${result2}.`]),
+            'type-mismatch'
           );
         }
       }
@@ -957,13 +996,15 @@ export class synthesizer {
           } else {
             return new stop(
               location,
-              new Message([`Expected a function type, got ${result2.readBackType(context)}.`])
+              new Message(['Expected a function type, got ', result2.readBackType(context), '.']),
+              'type-mismatch'
             );
           }
         } else {
           return new stop(
             location,
-            new Message([`Expected an = type, got ${result1.readBackType(context)}.`])
+            new Message(['Expected an = type, got ', result1.readBackType(context), '.']),
+            'type-mismatch'
           );
         }
       }
@@ -993,7 +1034,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`Expected an = type, got ${result.readBackType(context)}.`])
+            new Message(['Expected an = type, got ', result.readBackType(context), '.']),
+            'type-mismatch'
           );
         }
       }
@@ -1059,7 +1101,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`Expected evidence of equality, got ${result.readBackType(context)}.`])
+            new Message(['Expected evidence of equality, got ', result.readBackType(context), '.']),
+            'type-mismatch'
           );
         }
       }
@@ -1068,17 +1111,17 @@ export class synthesizer {
 
 
   public static synthVec(context: Context, r: Renaming, type: S.Source, len: S.Source): Perhaps<C.The> {
-    const tout = new PerhapsM<C.Core>('tout');
+    const tout = new PerhapsM<[C.Core, number]>('tout');
     const lenout = new PerhapsM<C.Core>('lenout');
     return goOn(
       [
-        [tout, () => type.check(context, r, new V.Universe())],
+        [tout, () => synthesizer.synthTypeLevel(context, r, type)],
         [lenout, () => len.check(context, r, new V.Nat())],
       ],
       () => new go<C.The>(
         new C.The(
-          new C.Universe(),
-          new C.Vec(tout.value, lenout.value)
+          new C.Universe(tout.value[1]),
+          new C.Vec(tout.value[0], lenout.value)
         )
       )
     );
@@ -1106,13 +1149,15 @@ export class synthesizer {
           } else {
             return new stop(
               location,
-              new Message([`Expected a Vec with add1 at the top of the length, got ${readBack(context, new V.Nat(), len)}.`])
+              new Message(['Expected a Vec with add1 at the top of the length, got ', readBack(context, new V.Nat(), len), '.']),
+              'type-mismatch'
             );
           }
         } else {
           return new stop(
             location,
-            new Message([`Expected a Vec, got ${result.readBackType(context)}.`])
+            new Message(['Expected a Vec, got ', result.readBackType(context), '.']),
+            'type-mismatch'
           );
         }
       }
@@ -1143,13 +1188,15 @@ export class synthesizer {
           } else {
             return new stop(
               location,
-              new Message([`Expected a Vec with add1 at the top of the length, got ${readBack(context, new V.Nat(), len)}.`])
+              new Message(['Expected a Vec with add1 at the top of the length, got ', readBack(context, new V.Nat(), len), '.']),
+              'type-mismatch'
             );
           }
         } else {
           return new stop(
             location,
-            new Message([`Expected a Vec, got ${result.readBackType(context)}.`])
+            new Message(['Expected a Vec, got ', result.readBackType(context), '.']),
+            'type-mismatch'
           );
         }
       }
@@ -1229,7 +1276,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`Expected a Vec, got ${result.readBackType(context)}.`])
+            new Message(['Expected a Vec, got ', result.readBackType(context), '.']),
+            'type-mismatch'
           );
         }
       }
@@ -1237,17 +1285,17 @@ export class synthesizer {
   }
 
   public static synthEither(context: Context, r: Renaming, left: S.Source, right: S.Source): Perhaps<C.The> {
-    const Lout = new PerhapsM<C.Core>('Lout');
-    const Rout = new PerhapsM<C.Core>('Rout');
+    const Lout = new PerhapsM<[C.Core, number]>('Lout');
+    const Rout = new PerhapsM<[C.Core, number]>('Rout');
     return goOn(
       [
-        [Lout, () => left.check(context, r, new V.Universe())],
-        [Rout, () => right.check(context, r, new V.Universe())],
+        [Lout, () => synthesizer.synthTypeLevel(context, r, left)],
+        [Rout, () => synthesizer.synthTypeLevel(context, r, right)],
       ],
       () => new go<C.The>(
         new C.The(
-          new C.Universe(),
-          new C.Either(Lout.value, Rout.value)
+          new C.Universe(Math.max(Lout.value[1], Rout.value[1])),
+          new C.Either(Lout.value[0], Rout.value[0])
         )
       )
     );
@@ -1324,7 +1372,8 @@ export class synthesizer {
         } else {
           return new stop(
             location,
-            new Message([`Expected an Either, but got a ${result.readBackType(context)}.`])
+            new Message(['Expected an Either, but got a ', result.readBackType(context), '.']),
+            'type-mismatch'
           );
         }
       }
@@ -1353,31 +1402,7 @@ export class synthesizer {
       const fout = new PerhapsM<C.The>('fout');
       return goOn(
         [[fout, () => fun.synth(context, r)]],
-        () => {
-          const result = valInContext(context, fout.value.type);
-          if (result instanceof V.Pi) {
-            const [_, A, c] = [result.argName, result.argType, result.resultType];
-            const argout = new PerhapsM<C.Core>('argout');
-            return goOn(
-              [[argout, () => arg.check(context, r, A)]],
-              () => 
-                new go(
-                  new C.The(
-                    c.valOfClosure(valInContext(context, argout.value)).readBackType(context),
-                    new C.Application(
-                      fout.value.expr,
-                      argout.value
-                    )
-                  )
-                )
-            );
-          } else {
-            return new stop(
-              location,
-              new Message([`Not a function type: ${result.readBackType(context)}.`])
-            );
-          }
-        }
+        () => synthesizer.synthArgument(context, r, location, fout.value, arg)
       );
     } else {
       const appout = new PerhapsM<C.The>('appout');
@@ -1390,35 +1415,53 @@ export class synthesizer {
             args.slice(0, args.length - 1)
           )
         ).synth(context, r)]],
-        () => {
-          const result = valInContext(context, appout.value.type);
-          if (result instanceof V.Pi) {
-            const [x, A, c] = [result.argName, result.argType, result.resultType];
-            const argout = new PerhapsM<C.Core>('fout');
-            return goOn(
-              [[argout, () => args[args.length - 1].check(context, r, A)]],
-              () => new go(
-                new C.The(
-                  c.valOfClosure(valInContext(context, argout.value)).readBackType(context),
-                  new C.Application(
-                    appout.value.expr,
-                    argout.value
-                  )
-                )
-              )
-            );
-          } else {
-            return new stop(
-              location,
-              new Message([`Not a function type: ${result.readBackType(context)}.`])
-            );
-          }
-        }
+        () => synthesizer.synthArgument(context, r, location, appout.value, args[args.length - 1])
       );
 
     }
 
   }
+
+  /*
+    Apply an elaborated function to one more argument. Unless the
+    argument is an implicit argument given in braces, metavariables are
+    first inserted for the function's implicit arguments.
+  */
+  private static synthArgument(context: Context, r: Renaming, location: Location, funOut: C.The, arg: S.Source): Perhaps<C.The> {
+    const implicit = arg instanceof S.ImplicitArgument;
+    const fout = implicit ? funOut : insertImplicitArguments(context, location, funOut);
+    const result = valInContext(context, fout.type).now();
+    if (result instanceof V.Pi && result.implicit === implicit) {
+      const [A, c] = [result.argType, result.resultType];
+      const argout = new PerhapsM<C.Core>('argout');
+      return goOn(
+        [[argout, () => (implicit ? (arg as S.ImplicitArgument).arg : arg).check(context, r, A)]],
+        () => new go(
+          new C.The(
+            c.valOfClosure(valInContext(context, argout.value)).readBackType(context),
+            new C.Application(
+              fout.expr,
+              argout.value,
+              implicit
+            )
+          )
+        )
+      );
+    } else if (result instanceof V.Pi) {
+      return new stop(
+        arg.location,
+        new Message(['The function type ', result.readBackType(context), ' does not expect an implicit argument.']),
+        'implicit-argument'
+      );
+    } else {
+      return new stop(
+        location,
+        new Message(['Not a function type: ', result.readBackType(context), '.']),
+        'type-mismatch'
+      );
+    }
+  }
+
   /*
   [x
         (cond [(and (symbol? x) (var-name? x))
@@ -1463,30 +1506,29 @@ export class synthesizer {
     );
   }
 
-  public static synthNumber(context: Context, r: Renaming, location: Location, value: number): Perhaps<C.The> {
-    if (value === 0) {
+  public static synthNumber(context: Context, r: Renaming, location: Location, value: bigint): Perhaps<C.The> {
+    if (value === 0n) {
       return new go(
         new C.The(
           new C.Nat(),
           new C.Zero()
         )
       );
-    } else if (value > 0) {
-      const n_minus_1_out = new PerhapsM<C.Core>('n_1_out');
-      return goOn(
-        [[n_minus_1_out, () => (new S.Number(location, value - 1)).check(context, r, new V.Nat())]],
-        () => new go(
-          new C.The(
-            new C.Nat(),
-            new C.Add1(n_minus_1_out.value)
-          )
+    } else if (value > 0n) {
+      // Numerals are elaborated directly into literals instead of
+      // value layers of add1.
+      return new go(
+        new C.The(
+          new C.Nat(),
+          new C.NatLit(value)
         )
       );
     } else {
       return new stop(
         location,
-        new Message([`Expected a positive number, got ${value}.`])
+        new Message([`Expected a positive number, got ${value}.`]),
+        'type-mismatch'
       );
     }
   }
-}
\ No newline at end of file
+}
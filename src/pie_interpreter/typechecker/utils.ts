@@ -1,28 +1,56 @@
+import * as V from "../types/value";
+import * as N from "../types/neutral";
 import { Value } from "../types/value";
 import { Source } from "../types/source";
 import { Application } from "../types/source";
 import { Core } from "../types/core";
 import { Location } from "../utils/locations";
-import { Context, SerializableContext } from "../utils/context";
-import { go, stop, Perhaps, Message } from "../types/utils";
-import { alphaEquiv } from "../utils/alphaeqv";
+import { bindFree, Context, SerializableContext } from "../utils/context";
+import { go, stop, Perhaps, Message, fresh } from "../types/utils";
+import { convertible, convertibleTypes } from "./conversion";
 import { readBack } from "../evaluator/utils";
 
 
-type What = 'definition'
-  | ['binding-site', Core]
+export type What = 'definition'
+  // The type of the variable bound at the site, its name, and its
+  // scope: the form whose body it is bound in.
+  | ['binding-site', Core, string, Location]
   | ['is-type', Core]
   | ['has-type', Core]
   | ['TODO', SerializableContext, Core];
 
 
-// TODO: Implement PieInfoHook
+/*
+  Information about a program, such as the goal at each TODO, is
+  reported through PieInfoHook while it is being checked. Whoever is
+  interested in it listens with withPieInfo.
 
-export function PieInfoHook(where: Location, what: What): void {
+  The expected type of every expression that is checked is reported,
+  so it is sent as a TypeInfo, which reads the type back only when it
+  is asked for, and not at all when nobody listens.
+*/
+export type TypeInfo = () => ['has-type', Core];
 
+export type PieInfoListener = (where: Location, what: What | TypeInfo) => void;
+
+const pieInfoListeners: PieInfoListener[] = [];
+
+export function PieInfoHook(where: Location, what: What | TypeInfo): void {
+  for (const listener of pieInfoListeners) {
+    listener(where, what);
+  }
+}
+
+export function withPieInfo<T>(listener: PieInfoListener, thunk: () => T): T {
+  pieInfoListeners.push(listener);
+  try {
+    return thunk();
+  } finally {
+    pieInfoListeners.splice(pieInfoListeners.indexOf(listener), 1);
+  }
 }
 
-export function SendPieInfo(where: Location, what: What): void {
+export function SendPieInfo(where: Location, what: What | TypeInfo): void {
   if (where.forInfo) {
     PieInfoHook(where, what);
   }
@@ -45,31 +73,84 @@ export function extendRenaming(renames: Renaming, from: string, to: string): Ren
 }
 
 // ### Check the form of judgment Γ ⊢ c ≡ c type
+// Because universes are cumulative, a given type in a smaller universe
+// is accepted where a larger one is expected.
 export function sameType(ctx: Context, where: Location, given: Value, expected: Value): Perhaps<undefined> {
+  if (subType(ctx, given, expected)) {
+    return new go(undefined);
+  }
   const givenE = given.readBackType(ctx);
   const expectedE = expected.readBackType(ctx);
-  if (alphaEquiv(givenE, expectedE)) {
-    return new go(undefined);
-  } else {
+  const givenNow = given.now();
+  const expectedNow = expected.now();
+  if (givenNow instanceof V.Universe && expectedNow instanceof V.Universe) {
     return new stop(
       where,
-      new Message([`Expected ${expectedE} but got ${givenE}`])
+      new Message([
+        'Expected ', expectedE, ' but got ', givenE, ': ',
+        `universe level ${givenNow.level} exceeds level ${expectedNow.level}`
+      ]),
+      'type-mismatch'
     );
   }
+  return new stop(
+    where,
+    new Message(['Expected ', expectedE, ' but got ', givenE]),
+    'type-mismatch'
+  );
+}
+
+/*
+  Γ ⊢ A ≤ B: A and B are the same type, except that universes in A may
+  be at lower levels than the corresponding universes in B. Π is
+  covariant in its result type and Σ is covariant in both parts, while
+  all other types must be the same.
+*/
+function subType(ctx: Context, given: Value, expected: Value): boolean {
+  const givenNow = given.now();
+  const expectedNow = expected.now();
+  if (givenNow instanceof V.Universe && expectedNow instanceof V.Universe) {
+    return givenNow.level <= expectedNow.level;
+  } else if (givenNow instanceof V.Pi && expectedNow instanceof V.Pi) {
+    if (!convertibleTypes(ctx, givenNow.argType, expectedNow.argType)) {
+      return false;
+    }
+    const x = fresh(ctx, givenNow.argName);
+    const xVal = new V.Neutral(givenNow.argType, new N.Variable(x));
+    return subType(
+      bindFree(ctx, x, givenNow.argType),
+      givenNow.resultType.valOfClosure(xVal),
+      expectedNow.resultType.valOfClosure(xVal)
+    );
+  } else if (givenNow instanceof V.Sigma && expectedNow instanceof V.Sigma) {
+    if (!subType(ctx, givenNow.carType, expectedNow.carType)) {
+      return false;
+    }
+    const x = fresh(ctx, givenNow.carName);
+    const xVal = new V.Neutral(givenNow.carType, new N.Variable(x));
+    return subType(
+      bindFree(ctx, x, givenNow.carType),
+      givenNow.cdrType.valOfClosure(xVal),
+      expectedNow.cdrType.valOfClosure(xVal)
+    );
+  }
+  return convertibleTypes(ctx, given, expected);
 }
 
 // ### Check the form of judgment Γ ⊢ c : A type
+// The terms are only read back to report that they are not the same.
 export function convert(ctx: Context, where: Location, type: Value, from: Value, to: Value): Perhaps<undefined> {
-  const fromE = readBack(ctx, type, from);
-  const toE = readBack(ctx, type, to);
-  if (alphaEquiv(fromE, toE)) {
+  if (convertible(ctx, type, from, to)) {
     return new go(undefined);
-  } else {
-    return new stop(
-      where,
-      new Message([`The terms ${from} and ${to} are not the same ${type}.`])
-    );
   }
+  return new stop(
+    where,
+    new Message([
+      'The terms ', readBack(ctx, type, from), ' and ', readBack(ctx, type, to),
+      ' are not the same ', type.readBackType(ctx), '.'
+    ]),
+    'not-the-same'
+  );
 }
 
 // ### Claims + defines ###
@@ -5,6 +5,8 @@ import * as Evaluator from '../evaluator/evaluator';
 import { Environment, getValueFromEnvironment} from '../utils/environment';
 import { SourceLocation } from '../utils/locations';
 import { FirstOrderClosure, isVarName } from './utils';
+import { DataDescription } from './data';
+import { MetaVariable } from '../typechecker/metas';
 
 
 
@@ -18,6 +20,14 @@ import { FirstOrderClosure, isVarName } from './utils';
 
 */
 
+/*
+  Implicit arguments, and the λs that bind them, are elaborated into
+  Core but are usually left out when printing it.
+*/
+export const printOptions = {
+  showImplicits: false,
+};
+
 export abstract class Core {
 
   public abstract valOf(env: Environment): V.Value;
@@ -33,6 +43,45 @@ export abstract class Core {
 
 }
 
+/*
+  add1s, pairs, lists and vectors can be nested more deeply than fit
+  on the stack, so a chain of them, each the last part of the one
+  before, is printed with a loop: first the beginning of each link,
+  then what the chain ends with, then the closing parentheses.
+*/
+function printChain(expr: Core): string {
+  const links: string[] = [];
+  let rest = expr;
+  for (;;) {
+    if (rest instanceof Add1) {
+      links.push('(add1 ');
+      rest = rest.n;
+    } else if (rest instanceof Cons) {
+      links.push(`(cons ${rest.first.prettyPrint()} `);
+      rest = rest.second;
+    } else if (rest instanceof ListCons) {
+      links.push(`(:: ${rest.head.prettyPrint()} `);
+      rest = rest.tail;
+    } else if (rest instanceof VecCons) {
+      links.push(`(vec:: ${rest.head.prettyPrint()} `);
+      rest = rest.tail;
+    } else {
+      break;
+    }
+  }
+  let end = rest.prettyPrint();
+  // add1 around a numeral is itself a numeral.
+  if (/^[0-9]+$/.test(end)) {
+    let n = BigInt(end);
+    while (links[links.length - 1] === '(add1 ') {
+      links.pop();
+      n += 1n;
+    }
+    end = `${n}`;
+  }
+  return links.join('') + end + ')'.repeat(links.length);
+}
+
 export class The extends Core {
 
   constructor(
@@ -53,14 +102,20 @@ export class The extends Core {
   }
 }
 
+/*
+  Universes are indexed by their level. U is the same as U0, and each
+  universe is a type in the next.
+*/
 export class Universe extends Core {
 
+  constructor(public level: number = 0) { super() }
+
   public valOf(env: Environment): V.Value {
-    return new V.Universe();
+    return new V.Universe(this.level);
   }
 
   public prettyPrint(): string {
-    return 'U';
+    return universeName(this.level);
   }
 
   public toString(): string {
@@ -113,10 +168,33 @@ export class Add1 extends Core {
   }
 
   public prettyPrint(): string {
-    if (!isNaN(Number(this.n.prettyPrint()))) {
-      return `${Number(this.n.prettyPrint()) + 1}`;
-    }
-    return `(add1 ${this.n.prettyPrint()})`;
+    return printChain(this);
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+
+}
+
+/*
+  A natural number literal. It stands for num layers of add1 around
+  zero, but is stored as a bigint so that large numerals do not need
+  to be built (or walked) one add1 at a time. num is always positive;
+  zero is represented by Zero.
+*/
+export class NatLit extends Core {
+
+  constructor(
+    public num: bigint
+  ) { super() }
+
+  public valOf(env: Environment): V.Value {
+    return new V.NatLit(this.num);
+  }
+
+  public prettyPrint(): string {
+    return `${this.num}`;
   }
 
   public toString(): string {
@@ -248,19 +326,24 @@ export class Pi extends Core {
   constructor(
     public name: string,
     public type: Core,
-    public body: Core
+    public body: Core,
+    public implicit: boolean = false
   ) { super() }
 
 
   public valOf(env: Environment): V.Value {
     const typeVal = this.type.toLazy(env);
     return new V.Pi(this.name, typeVal, 
-      new FirstOrderClosure(env, this.name, this.body)
+      new FirstOrderClosure(env, this.name, this.body),
+      this.implicit
     );
   }
 
   public prettyPrint(): string {
-    return `(Π (${this.name} ${this.type.prettyPrint()}) 
+    const binder = this.implicit
+      ? `{${this.name} ${this.type.prettyPrint()}}`
+      : `(${this.name} ${this.type.prettyPrint()})`;
+    return `(Π ${binder} 
           ${this.body.prettyPrint()})`;
   }
 
@@ -274,7 +357,8 @@ export class Lambda extends Core {
 
   constructor(
     public param: string,
-    public body: Core
+    public body: Core,
+    public implicit: boolean = false
   ) { super() }
 
   public valOf(env: Environment): V.Value {
@@ -283,7 +367,11 @@ export class Lambda extends Core {
   }
 
   public prettyPrint(): string {
-    return `(λ (${this.param}) ${this.body.prettyPrint()})`;
+    if (this.implicit && !printOptions.showImplicits) {
+      return this.body.prettyPrint();
+    }
+    const param = this.implicit ? `{${this.param}}` : this.param;
+    return `(λ (${param}) ${this.body.prettyPrint()})`;
   }
 
   public toString(): string {
@@ -366,7 +454,7 @@ export class Cons extends Core {
   }
 
   public prettyPrint(): string {
-    return `(cons ${this.first.prettyPrint()} ${this.second.prettyPrint()})`;
+    return printChain(this);
   }
 
   public toString(): string {
@@ -428,7 +516,7 @@ export class ListCons extends Core {
   }
 
   public prettyPrint(): string {
-    return `(:: ${this.head.prettyPrint()} ${this.tail.prettyPrint()})`;
+    return printChain(this);
   }
 
   public toString(): string {
@@ -820,7 +908,7 @@ export class VecCons extends Core {
   }
 
   public prettyPrint(): string {
-    return `(vec:: ${this.head.prettyPrint()} ${this.tail.prettyPrint()})`;
+    return printChain(this);
   }
 
   public toString(): string {
@@ -1011,6 +1099,151 @@ export class IndEither extends Core {
 
 }
 
+/*
+  The type constructor, constructors and eliminator of a
+  user-declared datatype, applied to all of their arguments. See
+  types/data.ts.
+*/
+export class Datatype extends Core {
+
+  constructor(
+    public desc: DataDescription,
+    public params: Core[],
+    public indices: Core[]
+  ) { super() }
+
+  public valOf(env: Environment): V.Value {
+    return new V.Datatype(
+      this.desc,
+      this.params.map(p => p.toLazy(env)),
+      this.indices.map(i => i.toLazy(env))
+    );
+  }
+
+  public prettyPrint(): string {
+    return prettyPrintSpine(
+      this.desc.name,
+      this.params.concat(this.indices)
+    );
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+
+}
+
+export class Constructor extends Core {
+
+  constructor(
+    public desc: DataDescription,
+    public index: number,
+    public params: Core[],
+    public fields: Core[]
+  ) { super() }
+
+  public valOf(env: Environment): V.Value {
+    return new V.Constructor(
+      this.desc,
+      this.index,
+      this.params.map(p => p.toLazy(env)),
+      this.fields.map(f => f.toLazy(env))
+    );
+  }
+
+  public prettyPrint(): string {
+    return prettyPrintSpine(
+      this.desc.constructors[this.index].name,
+      this.params.concat(this.fields)
+    );
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+
+}
+
+export class IndData extends Core {
+
+  constructor(
+    public desc: DataDescription,
+    public params: Core[],
+    public indices: Core[],
+    public target: Core,
+    public motive: Core,
+    public methods: Core[]
+  ) { super() }
+
+  public valOf(env: Environment): V.Value {
+    return Evaluator.doIndData(
+      this.desc,
+      this.params.map(p => p.toLazy(env)),
+      this.indices.map(i => i.toLazy(env)),
+      this.target.toLazy(env),
+      this.motive.toLazy(env),
+      this.methods.map(m => m.toLazy(env))
+    );
+  }
+
+  public prettyPrint(): string {
+    return prettyPrintSpine(
+      this.desc.eliminatorName(),
+      this.params.concat(
+        this.indices,
+        [this.target, this.motive],
+        this.methods
+      )
+    );
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+
+}
+
+export function universeName(level: number): string {
+  return level === 0 ? 'U' : `U${level}`;
+}
+
+function prettyPrintSpine(head: string, args: Core[]): string {
+  if (args.length === 0) {
+    return head;
+  }
+  return `(${head} ${args.map(arg => arg.prettyPrint()).join(' ')})`;
+}
+
+/*
+  A metavariable stands for an implicit argument that is found by
+  unification during elaboration. Once it is solved, it behaves
+  exactly like its solution.
+*/
+export class Meta extends Core {
+  constructor(
+    public meta: MetaVariable
+  ) { super() }
+
+  public valOf(env: Environment): V.Value {
+    if (this.meta.solution !== null) {
+      return this.meta.solution.valOf(env);
+    }
+    return new V.Neutral(this.meta.type, new N.Meta(this.meta));
+  }
+
+  public prettyPrint(): string {
+    if (this.meta.solution !== null) {
+      return this.meta.solution.prettyPrint();
+    }
+    return `?${this.meta.name}`;
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+
+}
+
 export class TODO extends Core {
   constructor(
     public loc: SourceLocation,
@@ -1038,7 +1271,8 @@ export class Application extends Core {
 
   constructor(
     public fun: Core,
-    public arg: Core
+    public arg: Core,
+    public implicit: boolean = false
   ) { super() }
 
   public valOf(env: Environment): V.Value {
@@ -1049,7 +1283,11 @@ export class Application extends Core {
   }
 
   public prettyPrint(): string {
-    return `(${this.fun.prettyPrint()} ${this.arg.prettyPrint()})`;
+    if (this.implicit && !printOptions.showImplicits) {
+      return this.fun.prettyPrint();
+    }
+    const arg = this.implicit ? `{${this.arg.prettyPrint()}}` : this.arg.prettyPrint();
+    return `(${this.fun.prettyPrint()} ${arg})`;
   }
 
   public toString(): string {
@@ -0,0 +1,330 @@
+import * as C from './core';
+import * as V from './value';
+
+import { Environment, extendEnvironment } from '../utils/environment';
+import { HigherOrderClosure } from './utils';
+import { doApp, doIndData } from '../evaluator/evaluator';
+
+/*
+  ## User-declared inductive datatypes ##
+
+  A declaration
+
+    (data Name ((p P) ...) ((i I) ...)
+      (c ((x X) ...) (Name p ... j ...))
+      ...)
+
+  introduces a type constructor Name, one constructor for each c and
+  a dependent eliminator ind-Name. After type checking, the
+  declaration is described by a DataDescription. Every Core type in
+  the description is closed by the environment in which the
+  declaration was checked, extended with Name itself, so that the
+  types of constructors, motives and methods can be found again
+  whenever they are needed during evaluation and read-back.
+
+  Parameters are the same for the whole family, while indices may
+  differ from constructor to constructor. Both are passed explicitly
+  to the type constructor, the constructors and the eliminator.
+*/
+
+// A telescope is a sequence of binders, each of whose types may
+// refer to the names bound before it.
+export type Telescope = [string, C.Core][];
+
+export class ConstructorDescription {
+  constructor(
+    public name: string,
+    // The fields, in scope of the parameters.
+    public fields: Telescope,
+    // For each field, null if the field is not recursive, or
+    // otherwise the number of Π binders in front of the occurrence
+    // of Name in its type.
+    public recursive: (number | null)[],
+    // The indices of the constructed value, in scope of the
+    // parameters and the fields.
+    public indices: C.Core[],
+  ) { }
+}
+
+export class DataDescription {
+  constructor(
+    public name: string,
+    public params: Telescope,
+    public indices: Telescope,
+    public constructors: ConstructorDescription[],
+    public env: Environment,
+  ) { }
+
+  public eliminatorName(): string {
+    return `ind-${this.name}`;
+  }
+
+  public paramTypes(params: V.Value[]): V.Value[] {
+    return telescopeTypes(this.env, this.params, params);
+  }
+
+  public indexTypes(params: V.Value[], indices: V.Value[]): V.Value[] {
+    return telescopeTypes(
+      bindTelescope(this.env, this.params, params),
+      this.indices,
+      indices
+    );
+  }
+
+  public fieldTypes(ctor: number, params: V.Value[], fields: V.Value[]): V.Value[] {
+    return telescopeTypes(
+      bindTelescope(this.env, this.params, params),
+      this.constructors[ctor].fields,
+      fields
+    );
+  }
+
+  // Π ((p P) ... (i I) ...) U
+  public typeConstructorType(): V.Value {
+    return telescopePi(this.env, this.params.concat(this.indices),
+      (_) => new V.Universe()
+    );
+  }
+
+  public typeConstructorValue(): V.Value {
+    const np = this.params.length;
+    return telescopeLambda(this.params.concat(this.indices),
+      (args) => new V.Datatype(this, args.slice(0, np), args.slice(np))
+    );
+  }
+
+  // Π ((p P) ... (x X) ...) (Name p ... j ...)
+  public constructorType(ctor: number): V.Value {
+    const c = this.constructors[ctor];
+    return telescopePi(this.env, this.params.concat(c.fields),
+      (env) => new V.Datatype(
+        this,
+        this.params.map(([p, _]) => env.get(p)!),
+        c.indices.map(j => j.valOf(env))
+      )
+    );
+  }
+
+  public constructorValue(ctor: number): V.Value {
+    const np = this.params.length;
+    return telescopeLambda(
+      this.params.concat(this.constructors[ctor].fields),
+      (args) => new V.Constructor(this, ctor, args.slice(0, np), args.slice(np))
+    );
+  }
+
+  // Π ((i I) ...) (→ (Name p ... i ...) U)
+  public motiveType(params: V.Value[]): V.Value {
+    return telescopePi(
+      bindTelescope(this.env, this.params, params),
+      this.indices,
+      (env) => new V.Pi(
+        'target',
+        new V.Datatype(this, params, this.indices.map(([i, _]) => env.get(i)!)),
+        new HigherOrderClosure((_) => new V.Universe())
+      )
+    );
+  }
+
+  /*
+    The type of the method for a constructor takes each field, then an
+    inductive hypothesis for each recursive field, and produces the
+    motive at the constructed value.
+  */
+  public methodType(params: V.Value[], motive: V.Value, ctor: number): V.Value {
+    const c = this.constructors[ctor];
+    return telescopePi(
+      bindTelescope(this.env, this.params, params),
+      c.fields,
+      (env) => {
+        const fields = c.fields.map(([x, _]) => env.get(x)!);
+        const hypotheses: V.Value[] = [];
+        c.recursive.forEach((arity, k) => {
+          if (arity !== null) {
+            hypotheses.push(
+              this.inductiveHypothesisType(arity, c.fields[k][1].valOf(env), fields[k], motive)
+            );
+          }
+        });
+        return hypothesesPi(
+          hypotheses,
+          applyMotive(
+            motive,
+            c.indices.map(j => j.valOf(env)),
+            new V.Constructor(this, ctor, params, fields)
+          )
+        );
+      }
+    );
+  }
+
+  /*
+    A recursive field of type (Π ((y Y) ...) (Name p ... j ...)) has
+    the inductive hypothesis (Π ((y Y) ...) (mot j ... (field y ...))).
+  */
+  public inductiveHypothesisType(arity: number, type: V.Value, field: V.Value, motive: V.Value): V.Value {
+    const typeNow = type.now();
+    if (arity === 0 && typeNow instanceof V.Datatype) {
+      return applyMotive(motive, typeNow.indices, field);
+    } else if (arity > 0 && typeNow instanceof V.Pi) {
+      return new V.Pi(
+        typeNow.argName,
+        typeNow.argType,
+        new HigherOrderClosure(
+          (y) => this.inductiveHypothesisType(
+            arity - 1,
+            typeNow.resultType.valOfClosure(y),
+            doApp(field, y),
+            motive
+          )
+        )
+      );
+    }
+    throw new Error(`Not a recursive field of ${this.name}: ${type}`);
+  }
+
+  /*
+    The type of ind-Name:
+    (Π ((p P) ... (i I) ...
+        (target (Name p ... i ...))
+        (mot (Π ((i I) ...) (→ (Name p ... i ...) U)))
+        (step-c (method type for c)) ...)
+      (mot i ... target))
+  */
+  public eliminatorType(): V.Value {
+    return telescopePi(this.env, this.params.concat(this.indices),
+      (env) => {
+        const params = this.params.map(([p, _]) => env.get(p)!);
+        const indices = this.indices.map(([i, _]) => env.get(i)!);
+        return new V.Pi(
+          'target',
+          new V.Datatype(this, params, indices),
+          new HigherOrderClosure(
+            (target) => new V.Pi(
+              'mot',
+              this.motiveType(params),
+              new HigherOrderClosure(
+                (motive) => this.methodsPi(
+                  params,
+                  motive,
+                  0,
+                  applyMotive(motive, indices, target)
+                )
+              )
+            )
+          )
+        );
+      }
+    );
+  }
+
+  public eliminatorValue(): V.Value {
+    const np = this.params.length;
+    const ni = this.indices.length;
+    const nc = this.constructors.length;
+    const arity: Telescope = this.params.concat(this.indices);
+    return telescopeLambda(arity, (args) => {
+      const collect = (k: number, rest: V.Value[]): V.Value => {
+        if (k === 2 + nc) {
+          const [target, motive, ...methods] = rest;
+          return doIndData(
+            this,
+            args.slice(0, np),
+            args.slice(np, np + ni),
+            target,
+            motive,
+            methods
+          );
+        }
+        return new V.Lambda(
+          k === 0 ? 'target' : k === 1 ? 'mot' : `step-${this.constructors[k - 2].name}`,
+          new HigherOrderClosure((v) => collect(k + 1, rest.concat([v])))
+        );
+      };
+      return collect(0, []);
+    });
+  }
+
+  private methodsPi(params: V.Value[], motive: V.Value, ctor: number, result: V.Value): V.Value {
+    if (ctor === this.constructors.length) {
+      return result;
+    }
+    return new V.Pi(
+      `step-${this.constructors[ctor].name}`,
+      this.methodType(params, motive, ctor),
+      new HigherOrderClosure(
+        (_) => this.methodsPi(params, motive, ctor + 1, result)
+      )
+    );
+  }
+
+}
+
+// Bind the names of a telescope to values, in order.
+export function bindTelescope(env: Environment, tele: Telescope, values: V.Value[]): Environment {
+  return tele.reduce(
+    (acc, [x, _], k) => extendEnvironment(acc, x, values[k]),
+    env
+  );
+}
+
+// Find the type of each entry of a telescope, given values for the
+// entries before it.
+export function telescopeTypes(env: Environment, tele: Telescope, values: V.Value[]): V.Value[] {
+  const types: V.Value[] = [];
+  let current = env;
+  tele.forEach(([x, type], k) => {
+    types.push(type.valOf(current));
+    current = extendEnvironment(current, x, values[k]);
+  });
+  return types;
+}
+
+// Build a Π type over a telescope, with the body found by k in the
+// environment that binds every name in the telescope.
+export function telescopePi(env: Environment, tele: Telescope, k: (env: Environment) => V.Value): V.Value {
+  if (tele.length === 0) {
+    return k(env);
+  }
+  const [[x, type], ...rest] = tele;
+  return new V.Pi(
+    x,
+    type.valOf(env),
+    new HigherOrderClosure(
+      (v) => telescopePi(extendEnvironment(env, x, v), rest, k)
+    )
+  );
+}
+
+// Build a curried function that collects one argument for each entry
+// of a telescope and passes them all to k.
+export function telescopeLambda(tele: Telescope, k: (args: V.Value[]) => V.Value): V.Value {
+  const collect = (k0: number, args: V.Value[]): V.Value => {
+    if (k0 === tele.length) {
+      return k(args);
+    }
+    return new V.Lambda(
+      tele[k0][0],
+      new HigherOrderClosure((v) => collect(k0 + 1, args.concat([v])))
+    );
+  };
+  return collect(0, []);
+}
+
+// A non-dependent Π over each hypothesis in turn.
+function hypothesesPi(hypotheses: V.Value[], result: V.Value): V.Value {
+  if (hypotheses.length === 0) {
+    return result;
+  }
+  const [first, ...rest] = hypotheses;
+  return new V.Pi(
+    'ih',
+    first,
+    new HigherOrderClosure((_) => hypothesesPi(rest, result))
+  );
+}
+
+// Apply a motive to indices and then to a target.
+export function applyMotive(motive: V.Value, indices: V.Value[], target: V.Value): V.Value {
+  return doApp(indices.reduce((mot, i) => doApp(mot, i), motive), target);
+}
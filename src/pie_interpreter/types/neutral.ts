@@ -4,6 +4,8 @@ import { Value, Pi, Absurd } from "./value";
 import { SourceLocation } from "../utils/locations";
 import { Context } from "../utils/context";
 import { readBack } from "../evaluator/utils";
+import { DataDescription } from "./data";
+import { MetaVariable } from "../typechecker/metas";
 
 /*
     Normal forms consist of syntax that is produced by read-back,
@@ -71,6 +73,23 @@ export class TODO extends Neutral {
   }
 }
 
+export class Meta extends Neutral {
+  constructor(public meta: MetaVariable) {
+    super();
+  }
+
+  public readBackNeutral(context: Context): C.Core {
+    if (this.meta.value !== null) {
+      return readBack(context, this.meta.type, this.meta.value);
+    }
+    return new C.Meta(this.meta);
+  }
+
+  public prettyPrint() {
+    return `N-Meta-${this.meta.name}`;
+  }
+}
+
 export class WhichNat extends Neutral {
   constructor(public target: Neutral, public base: Norm, public step: Norm) {
     super();
@@ -236,7 +255,7 @@ export class IndAbsurd extends Neutral {
   }
 
   public readBackNeutral(context: Context): C.Core {
-    // Here's some Absurd η. The rest is in α-equiv?.
+    // Here's some Absurd η. The rest is in conversion.
     return new C.IndAbsurd(
       new C.The(
         new C.Absurd(),
@@ -517,16 +536,45 @@ export class IndEither extends Neutral {
   }
 }
 
+export class IndData extends Neutral {
+  constructor(
+    public desc: DataDescription,
+    public params: Norm[],
+    public indices: Norm[],
+    public target: Neutral,
+    public motive: Norm,
+    public methods: Norm[]
+  ) {
+    super();
+  }
+
+  public readBackNeutral(context: Context): C.Core {
+    return new C.IndData(
+      this.desc,
+      this.params.map(p => readBack(context, p.type, p.value)),
+      this.indices.map(i => readBack(context, i.type, i.value)),
+      this.target.readBackNeutral(context),
+      readBack(context, this.motive.type, this.motive.value),
+      this.methods.map(m => readBack(context, m.type, m.value))
+    );
+  }
+
+  public prettyPrint() {
+    return `N-IndData`;
+  }
+}
+
 export class Application extends Neutral {
 
-  constructor(public operator: Neutral, public operand: Norm) {
+  constructor(public operator: Neutral, public operand: Norm, public implicit: boolean = false) {
     super();
   }
 
   public readBackNeutral(context: Context): C.Core {
     return new C.Application(
       this.operator.readBackNeutral(context),
-      readBack(context, this.operand.type, this.operand.value)
+      readBack(context, this.operand.type, this.operand.value),
+      this.implicit
     );
   }
 
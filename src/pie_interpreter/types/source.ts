@@ -15,6 +15,9 @@ import { readBack } from '../evaluator/utils';
 import { synthesizer as Synth } from '../typechecker/synthesizer';
 import { fresh } from './utils';
 import { varType } from '../utils/context';
+import { checkInferredMotive, inferMotive } from '../typechecker/motives';
+import { bindImplicitArgument, insertImplicitArguments } from '../typechecker/metas';
+import { stopAtLimit } from '../evaluator/limits';
 
 export abstract class Source {
 
@@ -45,37 +48,28 @@ export abstract class Source {
     );
   }
 
+  /*
+    A type may be in any universe, so it is synthesized and its type
+    must be one of them.
+  */
   public getType(ctx: Context, renames: Renaming): Perhaps<C.Core> {
-    const checkType = this.check(ctx, renames, new V.Universe());
-    if (checkType instanceof go) {
-      return checkType;
-    } else if (checkType instanceof stop) {
-      if (this instanceof Name && isVarName(this.name)) {
-        const otherTv = new PerhapsM<V.Value>("other-tv");
-        return new goOn(
-          [
-            [otherTv, 
-              () => varType(ctx, this.location, this.name)]
-          ],
-          () => {
-            new stop(this.location, new Message([`Expected , but given ${otherTv.value.readBackType(ctx)}`]));
-          }
-        );
-      } else {
-        return new stop(this.location, new Message([`not a type`]));
-      }
-    } else {
-      throw new Error('Invalid checkType');
-    }
+    const typeOut = new PerhapsM<[C.Core, number]>("typeOut");
+    return goOn(
+      [[typeOut, () => Synth.synthTypeLevel(ctx, renames, this)]],
+      () => new go(typeOut.value[0])
+    );
   }
 
   public check(ctx: Context, renames: Renaming, type: V.Value): Perhaps<C.Core> {
     const ok = new PerhapsM<C.Core>("ok");
-    const out = this.checkOut(ctx, renames, type);
-    // SendPieInfo(srcLoc(input), ['has-type', readBackType(Γ, tv)!]);
+    // An evaluation that exceeds its limits is reported at the innermost expression.
+    const out = stopAtLimit(this.location, () => this.checkOut(ctx, renames, type));
     return goOn(
       [[ok, () => out]],
-      () => new go(ok.value)
+      () => {
+        SendPieInfo(this.location, () => ['has-type', type.readBackType(ctx)]);
+        return new go(ok.value);
+      }
     );
   }
 
@@ -83,9 +77,9 @@ export abstract class Source {
     const ok = new PerhapsM<C.The>("ok");
     
     return goOn(
-      [[ok, () => this.synthHelper(ctx, renames)]],
+      [[ok, () => stopAtLimit(this.location, () => this.synthHelper(ctx, renames))]],
       () => {
-        SendPieInfo(this.location, ['is-type', ok.value.type]);
+        SendPieInfo(this.location, ['has-type', ok.value.type]);
         return new go(ok.value)
       }
     );
@@ -93,17 +87,30 @@ export abstract class Source {
 
   protected abstract synthHelper(ctx: Context, renames: Renaming): Perhaps<C.The>;
 
+  /*
+    An expression that is expected to have implicit arguments is
+    checked under a λ that binds them, while the implicit arguments of
+    the type that it synthesizes are found by unification.
+  */
   protected checkOut(ctx: Context, renames: Renaming, type: V.Value): Perhaps<C.Core> {
+    const typeNow = type.now();
+    if (typeNow instanceof V.Pi && typeNow.implicit) {
+      return bindImplicitArgument(ctx, typeNow,
+        (bodyCtx, bodyType) => this.check(bodyCtx, renames, bodyType)
+      );
+    }
     const theT = new PerhapsM<C.The>("theT");
+    const implicitT = new PerhapsM<C.The>("implicitT");
     return goOn(
       [
         [theT, () => this.synth(ctx, renames)],
+        [implicitT, () => new go(insertImplicitArguments(ctx, this.location, theT.value))],
         [
           new PerhapsM<undefined>("_"),
-          () => sameType(ctx, this.location, valInContext(ctx, theT.value.type), type)
+          () => sameType(ctx, this.location, valInContext(ctx, implicitT.value.type), type)
         ],
       ],
-      () => new go(theT.value.expr)
+      () => new go(implicitT.value.expr)
     );
   }
 }
@@ -142,10 +149,11 @@ export class Universe extends Source {
 
   constructor(
     public location: Location,
+    public level: number = 0,
   ) { super(location); }
 
   protected synthHelper(ctx: Context, renames: Renaming): Perhaps<C.The> {
-    return Synth.synthUniverse(ctx, renames, this.location);
+    return Synth.synthUniverse(ctx, renames, this.level);
   }
 
   public findNames(): string[] {
@@ -153,11 +161,11 @@ export class Universe extends Source {
   }
 
   public getType(ctx: Context, renames: Renaming): Perhaps<C.Core> {
-    return new go(new C.Universe());
+    return new go(new C.Universe(this.level));
   }
 
   public prettyPrint(): string {
-    return 'U';
+    return C.universeName(this.level);
   }
 
   public toString(): string {
@@ -339,31 +347,91 @@ export class RecNat extends Source {
 
 }
 
+/*
+  A motive that was found from the expected type of an eliminator
+  rather than written in the program. See inferMotive.
+*/
+export class InferredMotive extends Source {
+
+  constructor(
+    public location: Location,
+    public motive: C.Core,
+  ) { super(location); }
+
+  protected synthHelper(ctx: Context, renames: Renaming): Perhaps<C.The> {
+    throw new Error('An inferred motive is only ever checked.');
+  }
+
+  protected checkOut(ctx: Context, renames: Renaming, type: V.Value): Perhaps<C.Core> {
+    return checkInferredMotive(ctx, this.location, this.motive, type);
+  }
+
+  public findNames(): string[] {
+    return [];
+  }
+
+  public prettyPrint(): string {
+    return this.motive.prettyPrint();
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+
+}
+
+function missingMotive(location: Location, eliminator: string): stop {
+  return new stop(
+    location,
+    new Message([
+      `The motive of ${eliminator} can only be left out when its type is known. ` +
+      `Please write the motive, or use the expression where its type is known.`
+    ]),
+    'motive'
+  );
+}
+
 export class IndNat extends Source {
 
   constructor(
     public location: Location,
     public target: Source,
-    public motive: Source,
+    // The motive may be left out when the type is known.
+    public motive: Source | null,
     public base: Source,
     public step: Source,
   ) { super(location); }
 
   
   protected synthHelper(ctx: Context, renames: Renaming): Perhaps<C.The> {
+    if (this.motive === null) {
+      return missingMotive(this.location, 'ind-Nat');
+    }
     return Synth.synthIndNat(ctx, renames, this.target, this.motive, this.base, this.step);
   }
 
+  protected checkOut(ctx: Context, renames: Renaming, type: V.Value): Perhaps<C.Core> {
+    if (this.motive !== null) {
+      return super.checkOut(ctx, renames, type);
+    }
+    const motive = new PerhapsM<Source>('motive');
+    return goOn(
+      [[motive, () => inferMotive(ctx, renames, 'ind-Nat', [this.target], type)]],
+      () => new IndNat(this.location, this.target, motive.value, this.base, this.step)
+        .check(ctx, renames, type)
+    );
+  }
+
   public findNames(): string[] {
     return this.target.findNames()
-      .concat(this.motive.findNames())
+      .concat(this.motive ? this.motive.findNames() : [])
       .concat(this.base.findNames())
       .concat(this.step.findNames());
   }
 
   public prettyPrint(): string {
     return `(ind-nat ${this.target.prettyPrint()} 
-              ${this.motive.prettyPrint()} 
+              ${this.motive ? this.motive.prettyPrint() : ''} 
               ${this.base.prettyPrint()} 
               ${this.step.prettyPrint()})`;
   }
@@ -495,12 +563,13 @@ export class Pi extends Source {
           ],
         ],
         () => {
-          PieInfoHook(xloc, ['binding-site', Aout.value]);
+          PieInfoHook(xloc, ['binding-site', Aout.value, bd.varName, this.location]);
           return new go(
             new C.Pi(
               y,
               Aout.value,
-              Bout.value
+              Bout.value,
+              binders[0].implicit
             )
           )
         }
@@ -531,12 +600,13 @@ export class Pi extends Source {
           ]
         ],
         () => {
-          PieInfoHook(xloc, ['binding-site', Aout.value]);
+          PieInfoHook(xloc, ['binding-site', Aout.value, bd.binder.varName, this.location]);
           return new go(
             new C.Pi(
               z,
               Aout.value,
-              Bout.value
+              Bout.value,
+              bd.implicit
             )
           );
         }
@@ -547,7 +617,9 @@ export class Pi extends Source {
   }
 
   public prettyPrint(): string {
-    return `(Π ${this.binders.map(binder => `(${binder.binder.varName} ${binder.type.prettyPrint()})`).join(' ')} 
+    return `(Π ${this.binders.map(binder => binder.implicit
+      ? `{${binder.binder.varName} ${binder.type.prettyPrint()}}`
+      : `(${binder.binder.varName} ${binder.type.prettyPrint()})`).join(' ')} 
             ${this.body.prettyPrint()})`;
   }
 
@@ -583,7 +655,22 @@ export class Lambda extends Source {
       const x = binder.varName;
       const xLoc = binder.location;
       const typeNow = type.now();
-      if (typeNow instanceof V.Pi) {
+      if (typeNow instanceof V.Pi && typeNow.implicit && !binder.implicit) {
+        // The implicit argument is not named, so it is bound by a λ
+        // that is inserted here.
+        return bindImplicitArgument(ctx, typeNow,
+          (bodyCtx, bodyType) => this.check(bodyCtx, renames, bodyType)
+        );
+      } else if (typeNow instanceof V.Pi && binder.implicit && !typeNow.implicit) {
+        return new stop(
+          xLoc,
+          new Message([
+            `The argument ${x} is implicit, but `, typeNow.readBackType(ctx),
+            ' expects an explicit argument.'
+          ]),
+          'implicit-argument'
+        );
+      } else if (typeNow instanceof V.Pi) {
         const A = typeNow.argType;
         const closure = typeNow.resultType;
         const xRenamed = rename(renames, x);
@@ -605,14 +692,15 @@ export class Lambda extends Source {
             ]
           ],
           () => {
-            PieInfoHook(xLoc, ['binding-site', A.readBackType(ctx)]);
-            return new go(new C.Lambda(xRenamed, bout.value));
+            PieInfoHook(xLoc, ['binding-site', A.readBackType(ctx), binder.varName, this.location]);
+            return new go(new C.Lambda(xRenamed, bout.value, typeNow.implicit));
           }
         );
       } else {
         return new stop(
           xLoc, 
-          new Message([`Not a function type: ${typeNow.readBackType(ctx)}.`])
+          new Message(['Not a function type: ', typeNow.readBackType(ctx), '.']),
+          'type-mismatch'
         );
       }
     } else { // xBinding.length > 1
@@ -628,7 +716,7 @@ export class Lambda extends Source {
   }
 
   public prettyPrint(): string {
-    return `(lambda ${this.binders.map(binder => binder.varName).join(' ')} ${this.body.prettyPrint()})`;
+    return `(lambda ${this.binders.map(binder => binder.implicit ? `{${binder.varName}}` : binder.varName).join(' ')} ${this.body.prettyPrint()})`;
   }
 
   public toString(): string {
@@ -677,7 +765,7 @@ export class Sigma extends Source {
           ]
         ],
         () => {
-          PieInfoHook(xloc, ['binding-site', Aout.value]);
+          PieInfoHook(xloc, ['binding-site', Aout.value, bd.varName, this.location]);
           return new go(
             new C.Sigma(y, Aout.value, Dout.value)
           );
@@ -705,7 +793,7 @@ export class Sigma extends Source {
           ]
         ],
         () => {
-          PieInfoHook(xloc, ['binding-site', Aout.value]);
+          PieInfoHook(xloc, ['binding-site', Aout.value, bd.varName, this.location]);
           return new go(
             new C.Sigma(z, Aout.value, Dout.value)
           );
@@ -893,7 +981,8 @@ export class Cons extends Source {
     } else {
       return new stop(
         this.location,
-        new Message([`cons requires a Pair or Σ type, but was used as a: ${typeNow.readBackType(ctx)}.`])
+        new Message(['cons requires a Pair or Σ type, but was used as a: ', typeNow.readBackType(ctx), '.']),
+        'type-mismatch'
       );
     }
   }
@@ -1030,7 +1119,8 @@ export class Nil extends Source {
     } else {
       return new stop(
         this.location, 
-        new Message([`nil requires a List type, but was used as a: ${typeNow.readBackType(ctx)}.`])
+        new Message(['nil requires a List type, but was used as a: ', typeNow.readBackType(ctx), '.']),
+        'type-mismatch'
       );
     }
   }
@@ -1049,7 +1139,7 @@ export class Number extends Source {
 
   constructor(
     public location: Location,
-    public value: number,
+    public value: bigint,
   ) { super(location); }
   
   protected synthHelper(ctx: Context, renames: Renaming): Perhaps<C.The> {
@@ -1168,25 +1258,41 @@ export class IndList extends Source {
   constructor(
     public location: Location,
     public target: Source,
-    public motive: Source,
+    // The motive may be left out when the type is known.
+    public motive: Source | null,
     public base: Source,
     public step: Source,
   ) { super(location); }
   
   protected synthHelper(ctx: Context, renames: Renaming): Perhaps<C.The> {
+    if (this.motive === null) {
+      return missingMotive(this.location, 'ind-List');
+    }
     return Synth.synthIndList(ctx, renames, this.location, this.target, this.motive, this.base, this.step);
   }
+
+  protected checkOut(ctx: Context, renames: Renaming, type: V.Value): Perhaps<C.Core> {
+    if (this.motive !== null) {
+      return super.checkOut(ctx, renames, type);
+    }
+    const motive = new PerhapsM<Source>('motive');
+    return goOn(
+      [[motive, () => inferMotive(ctx, renames, 'ind-List', [this.target], type)]],
+      () => new IndList(this.location, this.target, motive.value, this.base, this.step)
+        .check(ctx, renames, type)
+    );
+  }
   
   public findNames(): string[] {
     return this.target.findNames()
-      .concat(this.motive.findNames())
+      .concat(this.motive ? this.motive.findNames() : [])
       .concat(this.base.findNames())
       .concat(this.step.findNames());
   }
 
   public prettyPrint(): string {
     return `(ind-list ${this.target.prettyPrint()} 
-              ${this.motive.prettyPrint()} 
+              ${this.motive ? this.motive.prettyPrint() : ''} 
               ${this.base.prettyPrint()} 
               ${this.step.prettyPrint()})`;
   }
@@ -1349,7 +1455,8 @@ export class Same extends Source {
     } else {
       return new stop(
         this.location,
-        new Message([`same requires an Equal type, but was used as a: ${typeNow.readBackType(ctx)}.`])
+        new Message(['same requires an Equal type, but was used as a: ', typeNow.readBackType(ctx), '.']),
+        'type-mismatch'
       );
     }
   }
@@ -1565,13 +1672,16 @@ export class VecNil extends Source {
         return new go(new C.VecNil());
       } else {
         return new stop(this.location,
-          new Message([`vecnil requires a Vec type with length ZERO, but was used as a: 
-          ${readBack(ctx, new V.Nat(), typeNow.length)}.`]));
+          new Message([
+            'vecnil requires a Vec type with length ZERO, but was used as a: ',
+            readBack(ctx, new V.Nat(), typeNow.length), '.'
+          ]), 'type-mismatch');
       }
     } else {
       return new stop(
         this.location,
-        new Message([`vecnil requires a Vec type, but was used as a: ${typeNow.readBackType(ctx)}.`])
+        new Message(['vecnil requires a Vec type, but was used as a: ', typeNow.readBackType(ctx), '.']),
+        'type-mismatch'
       );
     }
   }
@@ -1622,14 +1732,18 @@ export class VecCons extends Source {
       } else {
         return new stop(
           this.location,
-          new Message([`vec:: requires a Vec type with length Add1, but was used with a: 
-          ${readBack(ctx, new V.Nat(), typeNow.length)}.`])
+          new Message([
+            'vec:: requires a Vec type with length Add1, but was used with a: ',
+            readBack(ctx, new V.Nat(), typeNow.length), '.'
+          ]),
+          'type-mismatch'
         );
       }
     } else {
       return new stop(
         this.location,
-        new Message([`vec:: requires a Vec type, but was used as a: ${typeNow.readBackType(ctx)}.`])
+        new Message(['vec:: requires a Vec type, but was used as a: ', typeNow.readBackType(ctx), '.']),
+        'type-mismatch'
       );
     }
   }
@@ -1701,20 +1815,37 @@ export class IndVec extends Source {
     public location: Location,
     public length: Source,
     public target: Source,
-    public motive: Source,
+    // The motive may be left out when the type is known.
+    public motive: Source | null,
     public base: Source,
     public step: Source,
   ) { super(location); }
 
   protected synthHelper(ctx: Context, renames: Renaming): Perhaps<C.The> {
+    if (this.motive === null) {
+      return missingMotive(this.location, 'ind-Vec');
+    }
     return Synth.synthIndVec(ctx, renames, this.location, 
       this.length, this.target, this.motive, this.base, this.step);
   }
+
+  // Both the length and the target are abstracted out of the type.
+  protected checkOut(ctx: Context, renames: Renaming, type: V.Value): Perhaps<C.Core> {
+    if (this.motive !== null) {
+      return super.checkOut(ctx, renames, type);
+    }
+    const motive = new PerhapsM<Source>('motive');
+    return goOn(
+      [[motive, () => inferMotive(ctx, renames, 'ind-Vec', [this.length, this.target], type)]],
+      () => new IndVec(this.location, this.length, this.target, motive.value, this.base, this.step)
+        .check(ctx, renames, type)
+    );
+  }
   
   public findNames(): string[] {
     return this.length.findNames()
       .concat(this.target.findNames())
-      .concat(this.motive.findNames())
+      .concat(this.motive ? this.motive.findNames() : [])
       .concat(this.base.findNames())
       .concat(this.step.findNames());
   }
@@ -1722,7 +1853,7 @@ export class IndVec extends Source {
   public prettyPrint(): string {
     return `ind-Vec ${this.length.prettyPrint()}
               ${this.target.prettyPrint()}
-              ${this.motive.prettyPrint()}
+              ${this.motive ? this.motive.prettyPrint() : ''}
               ${this.base.prettyPrint()}
               ${this.step.prettyPrint()}`;
   }
@@ -1800,7 +1931,8 @@ export class Left extends Source {
     } else {
       return new stop(
         this.location,
-        new Message([`left requires an Either type, but was used as a: ${typeNow.readBackType(ctx)}.`])
+        new Message(['left requires an Either type, but was used as a: ', typeNow.readBackType(ctx), '.']),
+        'type-mismatch'
       );
     }
   }
@@ -1842,7 +1974,8 @@ export class Right extends Source {
     } else {
       return new stop(
         this.location,
-        new Message([`right requires an Either type, but was used as a: ${typeNow.readBackType(ctx)}.`])
+        new Message(['right requires an Either type, but was used as a: ', typeNow.readBackType(ctx), '.']),
+        'type-mismatch'
       );
     }
   }
@@ -1861,25 +1994,41 @@ export class IndEither extends Source {
   constructor(
     public location: Location,
     public target: Source,
-    public motive: Source,
+    // The motive may be left out when the type is known.
+    public motive: Source | null,
     public baseLeft: Source,
     public baseRight: Source,
   ) { super(location); }
   
   protected synthHelper(ctx: Context, renames: Renaming): Perhaps<C.The> {
+    if (this.motive === null) {
+      return missingMotive(this.location, 'ind-Either');
+    }
     return Synth.synthIndEither(ctx, renames, this.location, this.target, this.motive, this.baseLeft, this.baseRight);
   }  
 
+  protected checkOut(ctx: Context, renames: Renaming, type: V.Value): Perhaps<C.Core> {
+    if (this.motive !== null) {
+      return super.checkOut(ctx, renames, type);
+    }
+    const motive = new PerhapsM<Source>('motive');
+    return goOn(
+      [[motive, () => inferMotive(ctx, renames, 'ind-Either', [this.target], type)]],
+      () => new IndEither(this.location, this.target, motive.value, this.baseLeft, this.baseRight)
+        .check(ctx, renames, type)
+    );
+  }
+
   public findNames(): string[] {
     return this.target.findNames()
-      .concat(this.motive.findNames())
+      .concat(this.motive ? this.motive.findNames() : [])
       .concat(this.baseLeft.findNames())
       .concat(this.baseRight.findNames());
   }
 
   public prettyPrint(): string {
     return `(ind-Either ${this.target.prettyPrint()} 
-              ${this.motive.prettyPrint()} 
+              ${this.motive ? this.motive.prettyPrint() : ''} 
               ${this.baseLeft.prettyPrint()} 
               ${this.baseRight.prettyPrint()})`;
   }
@@ -1921,6 +2070,37 @@ export class TODO extends Source {
 }
 
 // Application
+/*
+  An implicit argument that is given explicitly, written in braces as
+  in (f {Atom} 'a). It may only occur as an argument in an application.
+*/
+export class ImplicitArgument extends Source {
+  constructor(
+    public location: Location,
+    public arg: Source,
+  ) { super(location); }
+
+  protected synthHelper(ctx: Context, renames: Renaming): Perhaps<C.The> {
+    return new stop(
+      this.location,
+      new Message([`The implicit argument ${this.prettyPrint()} must be an argument to a function.`]),
+      'implicit-argument'
+    );
+  }
+
+  public findNames(): string[] {
+    return this.arg.findNames();
+  }
+
+  public prettyPrint(): string {
+    return `{${this.arg.prettyPrint()}}`;
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+}
+
 export class Application extends Source {
   constructor(
     public location: Location,
@@ -1,10 +1,11 @@
 import { Source } from "./source"
 import { Core } from "./core"
-import { Location } from "../utils/locations";
+import { Location, SourceLocation } from "../utils/locations";
 import { Value } from "./value";
 import { Environment, extendEnvironment} from "../utils/environment";
 import { Context } from "../utils/context";
 import { freshen } from "../utils/fresh";
+import { prettyPrintCore } from "../unparser/pretty";
 
 
 // A SiteBinder is a variable name and its location, substitute BindingSite in original code.
@@ -13,6 +14,8 @@ export class SiteBinder {
   constructor(
     public location: Location,
     public varName: string,
+    // Whether the binder was written in braces, as an implicit argument.
+    public implicit: boolean = false,
   ) { }
 }
 
@@ -23,10 +26,14 @@ export class TypedBinder {
     public binder: SiteBinder,
     public type: Source,
   ) {}
+
+  public get implicit(): boolean {
+    return this.binder.implicit;
+  }
 }
 
 export function isPieKeywords(str : string) : boolean {
-  return str === 'U' ? true : 
+  return /^U[0-9]*$/.test(str) ? true : 
     str === 'Nat' ? true :
     str === 'zero' ? true :
     str === 'add1' ? true :
@@ -83,6 +90,67 @@ export function isPieKeywords(str : string) : boolean {
 
 export class Message {
   constructor(public message: Array<String|Core>) { }
+
+  // The expressions are resugared, and kept on one line with the text around them.
+  public toString(): string {
+    return this.message
+      .map(part => part instanceof Core ? prettyPrintCore(part, { width: Infinity }) : part)
+      .join('');
+  }
+}
+
+/*
+  ## Diagnostics ##
+
+  A Diagnostic is a failure as it is reported to whoever embeds the
+  interpreter. Its message keeps the Core expressions that it mentions,
+  so that they can be printed in whatever way suits the reader. The
+  code identifies the kind of failure, and the related locations point
+  at other parts of the program that contributed to it.
+*/
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'type-error'
+  | 'type-mismatch'
+  | 'not-the-same'
+  | 'unknown-variable'
+  | 'name-in-use'
+  | 'already-defined'
+  | 'no-claim'
+  | 'invalid-atom'
+  | 'implicit-argument'
+  | 'unsolved-implicit'
+  | 'motive'
+  | 'data-declaration'
+  | 'syntax-error'
+  | 'module'
+  | 'evaluation-limit'
+  | 'skipped';
+
+export class RelatedInformation {
+  constructor(
+    public location: SourceLocation,
+    public message: Message,
+  ) { }
+}
+
+export class Diagnostic {
+  constructor(
+    public severity: Severity,
+    public code: DiagnosticCode,
+    public message: Message,
+    public location: SourceLocation,
+    public related: RelatedInformation[] = [],
+  ) { }
+
+  public toString(): string {
+    const at = (loc: SourceLocation) => `${loc.source}:${loc.startLine}:${loc.startColumn}`;
+    return [`${at(this.location)}: ${this.severity} [${this.code}]: ${this.message}`]
+      .concat(this.related.map(info => `  ${at(info.location)}: ${info.message}`))
+      .join('\n');
+  }
 }
 
 export abstract class Perhaps<T> { 
@@ -97,8 +165,36 @@ export class go<T> extends Perhaps<T> {
 export class stop extends Perhaps<undefined> {
   constructor(
     public where: Location,
-    public message: Message
+    public message: Message,
+    public code: DiagnosticCode = 'type-error',
+    public related: RelatedInformation[] = [],
   ) { super() }
+
+  public get diagnostic(): Diagnostic {
+    return new Diagnostic('error', this.code, this.message, this.where.locationToSrcLoc(), this.related);
+  }
+}
+
+/*
+  A stop that is met by goOn cannot be returned from the expression
+  that goOn is evaluating, so it is thrown as a StopError instead.
+  Top-level forms catch it with recoverStop and return the stop.
+*/
+export class StopError extends Error {
+  constructor(public stop: stop) {
+    super(`${stop.message} at ${stop.where}`);
+  }
+}
+
+export function recoverStop<T>(thunk: () => Perhaps<T>): Perhaps<T> {
+  try {
+    return thunk();
+  } catch (e) {
+    if (e instanceof StopError) {
+      return e.stop;
+    }
+    throw e;
+  }
 }
 
 export class PerhapsM<T> {
@@ -121,7 +217,7 @@ export function goOn<T>(
     if (val instanceof go) {
       meta.value = (val as go<any>).result;
     } else {
-      throw new Error(`Encountered stop when evaluating the sequence ${bindings}. Error message: ${(val as stop).message.message} at ${(val as stop).where}`);
+      throw new StopError(val as stop);
     }
   }
   return finalExpr();
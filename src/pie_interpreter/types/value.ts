@@ -6,6 +6,8 @@ import { Environment } from "../utils/environment";
 import { Closure } from "./utils";
 import { fresh } from "./utils";
 import { readBack } from "../evaluator/utils";
+import { spendStep } from "../evaluator/limits";
+import { DataDescription } from "./data";
 
 /*
     ## Values ##
@@ -64,6 +66,7 @@ export class DelayClosure {
     DELAY-CLOS closure by invoking the evaluator.
   */
   public undelay(): Value {
+    spendStep();
     return this.expr.valOf(this.env).now();
   }
 
@@ -100,7 +103,8 @@ export class Delay extends Value {
       this.val.set(theValue);
       return theValue;
     } else { // content is a Value (content instanceof Value).
-      return boxContent as Value;
+      // The value may be a metavariable that has been solved since.
+      return (boxContent as Value).now();
     }
   }
 
@@ -118,6 +122,34 @@ export class Delay extends Value {
 
 }
 
+/*
+  A chain of add1s, pairs, lists and vectors, each the last part of
+  the one before, is printed with a loop, as it can be nested more
+  deeply than fits on the stack.
+*/
+function printChain(value: Value): string {
+  const links: string[] = [];
+  let rest = value.now();
+  for (;;) {
+    if (rest instanceof Add1 && !(rest instanceof NatLit)) {
+      links.push('(add1 ');
+      rest = rest.smaller.now();
+    } else if (rest instanceof Cons) {
+      links.push(`(cons ${rest.car.prettyPrint()} `);
+      rest = rest.cdr.now();
+    } else if (rest instanceof ListCons) {
+      links.push(`(:: ${rest.head.prettyPrint()} `);
+      rest = rest.tail.now();
+    } else if (rest instanceof VecCons) {
+      links.push(`(vec:: ${rest.head.prettyPrint()} `);
+      rest = rest.tail.now();
+    } else {
+      break;
+    }
+  }
+  return links.join('') + rest.prettyPrint() + ')'.repeat(links.length);
+}
+
 export class Quote extends Value {
   constructor(public name: string) { super() }
 
@@ -178,7 +210,38 @@ export class Add1 extends Value {
   }
 
   public prettyPrint(): string {
-    return `(add1 ${this.smaller.prettyPrint()})`;
+    return printChain(this);
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+
+}
+
+/*
+  A natural number literal is a compact Add1: it behaves exactly like
+  num layers of add1 around zero, so every eliminator and pattern that
+  looks for Add1 also accepts it. Its smaller value is a delayed
+  literal, so only the layers that are actually inspected get peeled
+  off. num is always positive.
+*/
+export class NatLit extends Add1 {
+
+  constructor(public num: bigint) {
+    super(
+      num === 1n
+        ? new Zero()
+        : new C.NatLit(num - 1n).toLazy(new Map())
+    );
+  }
+
+  public readBackType(context: Context): C.Core {
+    throw new Error("No readBackType for NatLit.");
+  }
+
+  public prettyPrint(): string {
+    return `${this.num}`;
   }
 
   public toString(): string {
@@ -192,7 +255,8 @@ export class Pi extends Value {
   constructor(
     public argName: string,
     public argType: Value,
-    public resultType: Closure
+    public resultType: Closure,
+    public implicit: boolean = false
   ) { super() }
 
   public readBackType(context: Context): C.Core {
@@ -206,7 +270,8 @@ export class Pi extends Value {
         .valOfClosure(
           new Neutral(this.argType, new N.Variable(freshedName))
         )
-        .readBackType(excludeNameCtx)
+        .readBackType(excludeNameCtx),
+      this.implicit
     );
   }
 
@@ -285,7 +350,7 @@ export class Cons extends Value {
   }
 
   public prettyPrint(): string {
-    return `(cons ${this.car.prettyPrint()} ${this.cdr.prettyPrint()})`;
+    return printChain(this);
   }
 
   public toString(): string {
@@ -341,7 +406,7 @@ export class ListCons extends Value {
   }
 
   public prettyPrint(): string {
-    return `(:: ${this.head.prettyPrint()} ${this.tail.prettyPrint()})`;
+    return printChain(this);
   }
 
   public toString(): string {
@@ -445,7 +510,7 @@ export class VecCons extends Value {
   }
 
   public prettyPrint(): string {
-    return `(vec:: ${this.head.prettyPrint()} ${this.tail.prettyPrint()})`;
+    return printChain(this);
   }
 
   public toString(): string {
@@ -513,12 +578,78 @@ export class Right extends Value {
 
 }
 
+export class Datatype extends Value {
+
+  constructor(
+    public desc: DataDescription,
+    public params: Value[],
+    public indices: Value[]
+  ) { super() }
+
+  public readBackType(context: Context): C.Core {
+    const paramTypes = this.desc.paramTypes(this.params);
+    const indexTypes = this.desc.indexTypes(this.params, this.indices);
+    return new C.Datatype(
+      this.desc,
+      this.params.map((p, k) => readBack(context, paramTypes[k], p)),
+      this.indices.map((i, k) => readBack(context, indexTypes[k], i))
+    );
+  }
+
+  public prettyPrint(): string {
+    const args = this.params.concat(this.indices);
+    return args.length === 0
+      ? this.desc.name
+      : `(${this.desc.name} ${args.map(arg => arg.prettyPrint()).join(' ')})`;
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+
+}
+
+export class Constructor extends Value {
+
+  constructor(
+    public desc: DataDescription,
+    public index: number,
+    public params: Value[],
+    public fields: Value[]
+  ) { super() }
+
+  public readBackType(context: Context): C.Core {
+    throw new Error("No readBackType for Constructor.");
+  }
+
+  public prettyPrint(): string {
+    const name = this.desc.constructors[this.index].name;
+    const args = this.params.concat(this.fields);
+    return args.length === 0
+      ? name
+      : `(${name} ${args.map(arg => arg.prettyPrint()).join(' ')})`;
+  }
+
+  public toString(): string {
+    return this.prettyPrint();
+  }
+
+}
+
 export class Neutral extends Value {
   constructor(
     public type: Value,
     public neutral: N.Neutral
   ) { super() }
 
+  // A solved metavariable is no longer neutral.
+  public now(): Value {
+    if (this.neutral instanceof N.Meta && this.neutral.meta.value !== null) {
+      return this.neutral.meta.value.now();
+    }
+    return this;
+  }
+
   public readBackType(context: Context): C.Core {
     return this.neutral.readBackNeutral(context);
   }
@@ -535,14 +666,14 @@ export class Neutral extends Value {
 
 export class Universe extends Value {
 
-  constructor() { super() }
+  constructor(public level: number = 0) { super() }
 
   public readBackType(context: Context): C.Core {
-    return new C.Universe();
+    return new C.Universe(this.level);
   }
 
   public prettyPrint(): string {
-    return 'U';
+    return C.universeName(this.level);
   }
 
   public toString(): string {
@@ -0,0 +1,125 @@
+/*
+  ## Documents ##
+
+  A document describes the layouts of some text, in the style of
+  Wadler's "A prettier printer". A line is printed as a space when the
+  group that contains it fits on the rest of the line, and as a
+  newline followed by the current indentation otherwise. Groups are
+  laid out from the outside in, so an expression is broken across
+  lines only as far as is needed for it to fit in the width.
+*/
+
+export abstract class Doc { }
+
+export class Text extends Doc {
+  constructor(public text: string) { super() }
+}
+
+export class Line extends Doc { }
+
+export class Nest extends Doc {
+  constructor(
+    public indent: number,
+    public doc: Doc
+  ) { super() }
+}
+
+export class Concat extends Doc {
+  constructor(public docs: Doc[]) { super() }
+}
+
+export class Group extends Doc {
+  constructor(public doc: Doc) { super() }
+}
+
+export function text(str: string): Doc {
+  return new Text(str);
+}
+
+export const line: Doc = new Line();
+
+export function nest(indent: number, doc: Doc): Doc {
+  return new Nest(indent, doc);
+}
+
+export function concat(...docs: Doc[]): Doc {
+  return new Concat(docs);
+}
+
+export function group(doc: Doc): Doc {
+  return new Group(doc);
+}
+
+// The docs, separated by lines.
+export function lines(docs: Doc[]): Doc {
+  return concat(...docs.flatMap((doc, k) => k === 0 ? [doc] : [line, doc]));
+}
+
+// A document to be laid out, with its indentation and whether its
+// lines are printed as spaces.
+type Item = [number, boolean, Doc];
+
+export function render(doc: Doc, width: number): string {
+  const out: string[] = [];
+  let column = 0;
+  const items: Item[] = [[0, false, doc]];
+  while (items.length > 0) {
+    const [indent, flat, d] = items.pop()!;
+    if (d instanceof Text) {
+      out.push(d.text);
+      column += d.text.length;
+    } else if (d instanceof Line) {
+      if (flat) {
+        out.push(' ');
+        column += 1;
+      } else {
+        out.push('\n' + ' '.repeat(indent));
+        column = indent;
+      }
+    } else if (d instanceof Nest) {
+      items.push([indent + d.indent, flat, d.doc]);
+    } else if (d instanceof Concat) {
+      for (let k = d.docs.length - 1; k >= 0; k--) {
+        items.push([indent, flat, d.docs[k]]);
+      }
+    } else if (d instanceof Group) {
+      items.push([indent, flat || fits(width - column, d.doc, items), d.doc]);
+    }
+  }
+  return out.join('');
+}
+
+/*
+  Whether doc fits in space when it is printed flat. What follows doc
+  up to the next line that will be broken must fit as well.
+*/
+function fits(space: number, doc: Doc, rest: Item[]): boolean {
+  const docs: [boolean, Doc][] = [[true, doc]];
+  let next = rest.length - 1;
+  while (space >= 0) {
+    if (docs.length === 0) {
+      if (next < 0) {
+        return true;
+      }
+      const [_, flat, d] = rest[next--];
+      docs.push([flat, d]);
+      continue;
+    }
+    const [flat, d] = docs.pop()!;
+    if (d instanceof Text) {
+      space -= d.text.length;
+    } else if (d instanceof Line) {
+      if (!flat) {
+        return true;
+      }
+      space -= 1;
+    } else if (d instanceof Nest || d instanceof Group) {
+      docs.push([flat, d.doc]);
+    } else if (d instanceof Concat) {
+      for (let k = d.docs.length - 1; k >= 0; k--) {
+        docs.push([flat, d.docs[k]]);
+      }
+    }
+  }
+  return false;
+}
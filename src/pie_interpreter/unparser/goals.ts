@@ -0,0 +1,70 @@
+import { Core } from "../types/core";
+import { SerializableContext } from "../utils/context";
+import { Location } from "../utils/locations";
+import { PieInfoListener } from "../typechecker/utils";
+import { prettyPrintCore } from "./pretty";
+
+/*
+  ## Goals ##
+
+  Every TODO in a program is a goal: an expression of some type that
+  remains to be written. A goal is reported with the hypotheses that
+  are available at the TODO, in the style of Racket Pie:
+
+    3:12: TODO:
+     n : Nat
+    ----------
+     (= Nat n n)
+*/
+export class Goal {
+  constructor(
+    public location: Location,
+    public context: SerializableContext,
+    public type: Core,
+  ) { }
+}
+
+// Collect the goal at each TODO that is checked.
+export function goalListener(goals: Goal[]): PieInfoListener {
+  return (where, what) => {
+    if (typeof what !== 'function' && what !== 'definition' && what[0] === 'TODO') {
+      goals.push(new Goal(where, what[1], what[2]));
+    }
+  };
+}
+
+/*
+  The hypotheses of a goal are the variables bound within the
+  top-level form that contains it. Because the context is extended as
+  each binder is checked, they are the variables from the first free
+  variable onwards.
+*/
+export function localHypotheses(ctx: SerializableContext): string[] {
+  const entries = [...ctx];
+  const first = entries.findIndex(([_, binder]) => binder[0] === 'free');
+  if (first === -1) {
+    return [];
+  }
+  return entries.slice(first).flatMap(([x, binder]) => {
+    if (binder[0] === 'free') {
+      return [`${x} : ${prettyPrintCore(binder[1])}`];
+    } else if (binder[0] === 'def') {
+      return [`${x} : ${prettyPrintCore(binder[1])} = ${prettyPrintCore(binder[2])}`];
+    }
+    return [];
+  });
+}
+
+export function prettyPrintGoal(goal: Goal): string {
+  const start = goal.location.syntax.start;
+  const hypotheses = localHypotheses(goal.context).map(h => ` ${h}`);
+  const type = ` ${prettyPrintCore(goal.type)}`;
+  const width = Math.max(
+    10,
+    ...hypotheses.concat([type]).flatMap(line => line.split('\n')).map(line => line.length)
+  );
+  return [`${start.line}:${start.column}: TODO:`]
+    .concat(hypotheses)
+    .concat(['-'.repeat(width), type])
+    .join('\n') + '\n';
+}
@@ -1,12 +1,35 @@
-import { Core } from "../types/core";
+import * as C from "../types/core";
+import { Core, printOptions, universeName } from "../types/core";
 import { Value } from "../types/value";
 import { Source } from "../types/source";
+import { mentions } from "../typechecker/motives";
+import { concat, Doc, group, lines, nest, render, text, line } from "./document";
+
+export interface PrintOptions {
+  // Show implicit arguments and the λs that bind them.
+  showImplicits?: boolean;
+  // The width that lines are broken to fit in.
+  width?: number;
+  // A subexpression to mark with ⟦ and ⟧, where it first occurs.
+  highlight?: Core;
+}
+
+// The subexpression that is yet to be marked.
+let highlighted: Core | null = null;
 
 /**
  * Pretty print the Normalized Expression tree to a string.
  */
-export function prettyPrintCore(expr: Core): string {
-  return expr.prettyPrint();
+export function prettyPrintCore(expr: Core, options: PrintOptions = {}): string {
+  const showImplicits = printOptions.showImplicits;
+  printOptions.showImplicits = options.showImplicits ?? false;
+  highlighted = options.highlight ?? null;
+  try {
+    return render(coreToDoc(expr), options.width ?? 80);
+  } finally {
+    printOptions.showImplicits = showImplicits;
+    highlighted = null;
+  }
 }
 
 export function prettyPrintValue(expr: Value): string {
@@ -15,4 +38,301 @@ export function prettyPrintValue(expr: Value): string {
 
 export function prettyPrintSource(expr: Source): string {
   return expr.prettyPrint();
-}
\ No newline at end of file
+}
+
+/*
+  ## Resugaring ##
+
+  Core expressions are printed the way that they would be written:
+  numerals are folded, nested λs, Πs and Σs are written with one list
+  of binders, a Π whose variable is not used is written with →, and a
+  Σ whose variable is not used is written with Pair.
+*/
+export function coreToDoc(expr: Core): Doc {
+  if (expr === highlighted) {
+    highlighted = null;
+    return concat(text('⟦'), unmarkedToDoc(expr), text('⟧'));
+  }
+  return unmarkedToDoc(expr);
+}
+
+function unmarkedToDoc(expr: Core): Doc {
+  if (expr instanceof C.The) {
+    return form('the', [expr.type, expr.expr]);
+  } else if (expr instanceof C.Universe) {
+    return text(universeName(expr.level));
+  } else if (expr instanceof C.Zero) {
+    return text('0');
+  } else if (expr instanceof C.NatLit) {
+    return text(`${expr.num}`);
+  } else if (expr instanceof C.Add1) {
+    const n = numeral(expr);
+    return n !== null ? text(`${n}`) : add1sToDoc(expr);
+  } else if (expr instanceof C.WhichNat) {
+    return form('which-Nat', [expr.target, expr.base, expr.step]);
+  } else if (expr instanceof C.IterNat) {
+    return form('iter-Nat', [expr.target, expr.base, expr.step]);
+  } else if (expr instanceof C.RecNat) {
+    return form('rec-Nat', [expr.target, expr.base, expr.step]);
+  } else if (expr instanceof C.IndNat) {
+    return form('ind-Nat', [expr.target, expr.motive, expr.base, expr.step]);
+  } else if (expr instanceof C.Pi) {
+    return piToDoc(expr);
+  } else if (expr instanceof C.Lambda) {
+    return lambdaToDoc(expr);
+  } else if (expr instanceof C.Quote) {
+    return text(`'${expr.sym}`);
+  } else if (expr instanceof C.Sigma) {
+    return sigmaToDoc(expr);
+  } else if (expr instanceof C.Cons) {
+    return chainToDoc(expr);
+  } else if (expr instanceof C.Car) {
+    return form('car', [expr.pair]);
+  } else if (expr instanceof C.Cdr) {
+    return form('cdr', [expr.pair]);
+  } else if (expr instanceof C.ListCons) {
+    return chainToDoc(expr);
+  } else if (expr instanceof C.List) {
+    return form('List', [expr.elemType]);
+  } else if (expr instanceof C.RecList) {
+    return form('rec-List', [expr.target, expr.base, expr.step]);
+  } else if (expr instanceof C.IndList) {
+    return form('ind-List', [expr.target, expr.motive, expr.base, expr.step]);
+  } else if (expr instanceof C.IndAbsurd) {
+    return form('ind-Absurd', [expr.target, expr.motive]);
+  } else if (expr instanceof C.Equal) {
+    return form('=', [expr.type, expr.left, expr.right]);
+  } else if (expr instanceof C.Same) {
+    return form('same', [expr.type]);
+  } else if (expr instanceof C.Replace) {
+    return form('replace', [expr.target, expr.motive, expr.base]);
+  } else if (expr instanceof C.Trans) {
+    return form('trans', [expr.left, expr.right]);
+  } else if (expr instanceof C.Cong) {
+    return form('cong', [expr.target, expr.fun]);
+  } else if (expr instanceof C.Symm) {
+    return form('symm', [expr.equality]);
+  } else if (expr instanceof C.IndEqual) {
+    return form('ind-=', [expr.target, expr.motive, expr.base]);
+  } else if (expr instanceof C.Vec) {
+    return form('Vec', [expr.type, expr.length]);
+  } else if (expr instanceof C.VecCons) {
+    return chainToDoc(expr);
+  } else if (expr instanceof C.Head) {
+    return form('head', [expr.vec]);
+  } else if (expr instanceof C.Tail) {
+    return form('tail', [expr.vec]);
+  } else if (expr instanceof C.IndVec) {
+    return form('ind-Vec', [expr.length, expr.target, expr.motive, expr.base, expr.step]);
+  } else if (expr instanceof C.Either) {
+    return form('Either', [expr.left, expr.right]);
+  } else if (expr instanceof C.Left) {
+    return form('left', [expr.value]);
+  } else if (expr instanceof C.Right) {
+    return form('right', [expr.value]);
+  } else if (expr instanceof C.IndEither) {
+    return form('ind-Either', [expr.target, expr.motive, expr.baseLeft, expr.baseRight]);
+  } else if (expr instanceof C.Datatype) {
+    return form(expr.desc.name, expr.params.concat(expr.indices));
+  } else if (expr instanceof C.Constructor) {
+    return form(expr.desc.constructors[expr.index].name, expr.params.concat(expr.fields));
+  } else if (expr instanceof C.IndData) {
+    return form(
+      expr.desc.eliminatorName(),
+      expr.params.concat(expr.indices, [expr.target, expr.motive], expr.methods)
+    );
+  } else if (expr instanceof C.Meta) {
+    return expr.meta.solution !== null
+      ? coreToDoc(expr.meta.solution)
+      : text(`?${expr.meta.name}`);
+  } else if (expr instanceof C.TODO) {
+    return text('TODO');
+  } else if (expr instanceof C.Application) {
+    return applicationToDoc(expr);
+  }
+  return text(expr.prettyPrint());
+}
+
+// The number that expr stands for, if it is a numeral.
+function numeral(expr: Core): bigint | null {
+  let n = 0n;
+  while (expr instanceof C.Add1) {
+    n += 1n;
+    expr = expr.n;
+  }
+  if (expr instanceof C.Zero) {
+    return n;
+  } else if (expr instanceof C.NatLit) {
+    return n + expr.num;
+  }
+  return null;
+}
+
+// (add1 (add1 ... n)), with a loop, as there can be more add1s than fit on the stack.
+function add1sToDoc(expr: C.Add1): Doc {
+  let count = 0;
+  let n: Core = expr;
+  // A marked add1 is kept apart from the ones around it.
+  while (n instanceof C.Add1 && (count === 0 || n !== highlighted)) {
+    count++;
+    n = n.n;
+  }
+  let doc = coreToDoc(n);
+  for (let k = 0; k < count; k++) {
+    doc = formOfDocs(text('add1'), [doc]);
+  }
+  return doc;
+}
+
+// The name, the first part and the rest of a pair, a list or a vector.
+function link(expr: Core): [string, Core, Core] | null {
+  if (expr instanceof C.Cons) {
+    return ['cons', expr.first, expr.second];
+  } else if (expr instanceof C.ListCons) {
+    return ['::', expr.head, expr.tail];
+  } else if (expr instanceof C.VecCons) {
+    return ['vec::', expr.head, expr.tail];
+  }
+  return null;
+}
+
+/*
+  A chain of pairs, lists and vectors, each the rest of the one
+  before, such as (:: a (:: b nil)). The rest of each link is at the
+  same indentation as the link around it, rather than further in, so
+  that a long list takes no more columns than a short one. Chains are
+  printed with loops, as they can be longer than fit on the stack.
+*/
+function chainToDoc(expr: Core): Doc {
+  const links: [string, Doc][] = [];
+  let rest: Core = expr;
+  let next = link(rest);
+  while (next !== null) {
+    const [name, first, more] = next;
+    links.push([name, coreToDoc(first)]);
+    rest = more;
+    // A marked link is kept apart from the ones around it.
+    next = rest === highlighted ? null : link(rest);
+  }
+  let doc = coreToDoc(rest);
+  for (let k = links.length - 1; k >= 0; k--) {
+    const [name, first] = links[k];
+    const more = concat(line, doc);
+    doc = group(concat(
+      text(`(${name} `),
+      first,
+      k === 0 ? nest(2, more) : more,
+      text(')')
+    ));
+  }
+  return doc;
+}
+
+/*
+  (head arg ...). If it does not fit on one line, the first argument
+  stays with the head and each of the others is on a line of its own.
+*/
+function form(head: string, args: Core[]): Doc {
+  return formOfDocs(text(head), args.map(coreToDoc));
+}
+
+function formOfDocs(head: Doc, args: Doc[]): Doc {
+  if (args.length === 0) {
+    return head;
+  }
+  return group(concat(
+    text('('),
+    head,
+    text(' '),
+    args[0],
+    nest(2, concat(...args.slice(1).map(arg => concat(line, arg)))),
+    text(')')
+  ));
+}
+
+// (head (binder ...) body)
+function binding(head: string, binders: Doc[], body: Doc): Doc {
+  return group(concat(
+    text(`(${head} `),
+    group(concat(text('('), nest(head.length + 3, lines(binders)), text(')'))),
+    nest(2, concat(line, body)),
+    text(')')
+  ));
+}
+
+function binder(name: string, type: Core, implicit: boolean): Doc {
+  const [open, close] = implicit ? ['{', '}'] : ['(', ')'];
+  return group(concat(text(`${open}${name}`), nest(2, concat(line, coreToDoc(type))), text(close)));
+}
+
+function isArrow(expr: Core): boolean {
+  return expr instanceof C.Pi && !expr.implicit && !mentions(expr.body, expr.name);
+}
+
+function piToDoc(expr: C.Pi): Doc {
+  if (isArrow(expr)) {
+    const args: Core[] = [];
+    let body: Core = expr;
+    while (isArrow(body)) {
+      args.push((body as C.Pi).type);
+      body = (body as C.Pi).body;
+    }
+    return form('→', args.concat([body]));
+  }
+  const binders: Doc[] = [];
+  let body: Core = expr;
+  while (body instanceof C.Pi && !isArrow(body)) {
+    binders.push(binder(body.name, body.type, body.implicit));
+    body = body.body;
+  }
+  return binding('Π', binders, coreToDoc(body));
+}
+
+function sigmaToDoc(expr: C.Sigma): Doc {
+  if (!mentions(expr.body, expr.name)) {
+    return form('Pair', [expr.type, expr.body]);
+  }
+  const binders: Doc[] = [];
+  let body: Core = expr;
+  while (body instanceof C.Sigma && mentions(body.body, body.name)) {
+    binders.push(binder(body.name, body.type, false));
+    body = body.body;
+  }
+  return binding('Σ', binders, coreToDoc(body));
+}
+
+function lambdaToDoc(expr: C.Lambda): Doc {
+  const params: string[] = [];
+  let body: Core = expr;
+  while (body instanceof C.Lambda) {
+    if (!body.implicit) {
+      params.push(body.param);
+    } else if (printOptions.showImplicits) {
+      params.push(`{${body.param}}`);
+    }
+    body = body.body;
+  }
+  if (params.length === 0) {
+    return coreToDoc(body);
+  }
+  return group(concat(
+    text(`(λ (${params.join(' ')})`),
+    nest(2, concat(line, coreToDoc(body))),
+    text(')')
+  ));
+}
+
+function applicationToDoc(expr: C.Application): Doc {
+  const args: Doc[] = [];
+  let fun: Core = expr;
+  // A marked application is kept apart from the one around it.
+  while (fun instanceof C.Application && fun !== highlighted) {
+    if (!fun.implicit) {
+      args.unshift(coreToDoc(fun.arg));
+    } else if (printOptions.showImplicits) {
+      args.unshift(concat(text('{'), coreToDoc(fun.arg), text('}')));
+    }
+    fun = fun.fun;
+  }
+  return formOfDocs(coreToDoc(fun), args);
+}
@@ -7,6 +7,7 @@ import { Environment } from './environment';
 import { readBack } from '../evaluator/utils';
 import { Source } from '../types/source';
 import { Variable } from '../types/neutral';
+import { withMetas } from '../typechecker/metas';
 /*
     ## Contexts ##
     A context maps free variable names to binders.
@@ -52,7 +53,8 @@ export function nameNotUsed(ctx: Context, where: Location, name: string) {
   if (ctx.has(name)) {
     return new stop(
       where,
-      new Message([`The name "${name}" is already in use in the context.`])
+      new Message([`The name "${name}" is already in use in the context.`]),
+      'name-in-use'
     );
   } else return new go<boolean>(true);
 }
@@ -61,18 +63,18 @@ export function getClaim(ctx: Context, where: Location, name: string): Perhaps<V
   for (const [x, binder] of ctx) {
     if (x === name) {
       if (binder instanceof Define) {
-        return new stop(where, new Message([`The name "${name}" is already defined.`]))
+        return new stop(where, new Message([`The name "${name}" is already defined.`]), 'already-defined');
       } else if (binder instanceof Claim) {
         return new go<Value>(binder.type);
       }
     }
   }
-  return new stop(where, new Message([`No claim: ${name}`]));
+  return new stop(where, new Message([`No claim: ${name}`]), 'no-claim');
 }
 
 export function addClaimToContext(ctx: Context, fun: string, funLoc: Location, type: Source): Perhaps<Context> {
   const typeOut = new PerhapsM<C.Core>("typeOut")
-  return goOn(
+  return withMetas(() => goOn(
     [
       [new PerhapsM("_"), () => nameNotUsed(ctx, funLoc, fun)],
       [typeOut, () => type.isType(ctx, new Map())]
@@ -84,18 +86,21 @@ export function addClaimToContext(ctx: Context, fun: string, funLoc: Location, t
         new Claim(valInContext(ctx, typeOut.value))
       )
     )
-  )
+  ))
 }
 
+// Contexts are shared, for instance by the history of a REPL session,
+// so the claim is removed from a copy.
 export function removeClaimFromContext(ctx: Context, name: string): Context {
-  ctx.delete(name);
-  return ctx;
+  const result = new Map(ctx);
+  result.delete(name);
+  return result;
 }
 
 export function addDefineToContext(ctx: Context, fun: string, funLoc: Location, expr: Source): Perhaps<Context> {
   const typeOut = new PerhapsM<Value>("typeOut");
   const exprOut = new PerhapsM<C.Core>("exprOut");
-  return goOn(
+  return withMetas(() => goOn(
     [
       [typeOut, () => getClaim(ctx, funLoc, fun)],
       [exprOut,
@@ -110,10 +115,11 @@ export function addDefineToContext(ctx: Context, fun: string, funLoc: Location,
         removeClaimFromContext(ctx, fun),
         fun,
         typeOut.value,
-        valInContext(ctx, exprOut.value)
+        valInContext(ctx, exprOut.value),
+        exprOut.value
       )
     )
-  )
+  ))
 }
 
 export function contextToEnvironment(ctx: Context): Environment {
@@ -151,7 +157,14 @@ export class Claim extends Binder {
 }
 
 export class Define extends Binder {
-  constructor(public type: Value, public value: Value) { super() }
+  constructor(
+    public type: Value,
+    public value: Value,
+    // The definition as it was elaborated, which is unfolded when
+    // its steps are shown. Definitions made by the implementation,
+    // such as those of datatypes, have none.
+    public expr: C.Core | null = null,
+  ) { super() }
 }
 
 export class Free extends Binder {
@@ -159,9 +172,6 @@ export class Free extends Binder {
 }
 
 export function varType(ctx: Context, where: Location, x: string): Perhaps<Value> {
-  if (ctx.size === 0) {
-    throw new Error(`Unknown variable ${x}`);
-  }
   for (const [y, binder] of ctx.entries()) {
     if (binder instanceof Claim) {
       continue;
@@ -169,7 +179,7 @@ export function varType(ctx: Context, where: Location, x: string): Perhaps<Value
       return new go(binder.type);
     }
   }
-  throw new Error(`Unknown variable ${x}`);
+  return new stop(where, new Message([`Unknown variable ${x}`]), 'unknown-variable');
 }
 
 // Function to bind a free variable in a context
@@ -190,8 +200,8 @@ export function bindFree(ctx: Context, varName: string, tv: Value): Context {
 }
 
 // Function to bind a value in a context
-export function bindVal(ctx: Context, varName: string, type: Value, value: Value): Context {
-  return extendContext(ctx, varName, new Define(type, value));
+export function bindVal(ctx: Context, varName: string, type: Value, value: Value, expr: C.Core | null = null): Context {
+  return extendContext(ctx, varName, new Define(type, value, expr));
 }
 
 
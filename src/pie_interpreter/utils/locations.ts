@@ -43,3 +43,10 @@ export class Location {
 export function notForInfo(loc: Location): Location {
   return new Location(loc.syntax, false);
 }
+
+export function sameLocation(e1: SourceLocation, e2: SourceLocation): boolean {
+  return e1.startLine === e2.startLine &&
+         e1.startColumn === e2.startColumn &&
+         e1.endLine === e2.endLine &&
+         e1.endColumn === e2.endColumn;
+}
@@ -0,0 +1,207 @@
+import { readdirSync, statSync, watch } from 'fs';
+import { basename, dirname, join } from 'path';
+import { checkPie, PieReport } from './main';
+import { CliIO, fileModules } from './cli';
+import { parseFailure } from './parser/parser-error';
+import { prettyPrintCore } from './unparser/pretty';
+
+/*
+  ## Watch mode ##
+
+  A PieWatcher keeps the report on each file that it watches. When a
+  file is saved, it is checked again only if its text has changed, and
+  then only from the first declaration that was edited; the reports on
+  the declarations before it are reused. After each save, a compact
+  summary of the file's errors and remaining goals is printed,
+  followed by the totals over every watched file:
+
+    proofs.pie: 1 error, 1 goal (checked 2 of 5 declarations)
+      proofs.pie:12:3: error [type-mismatch]: Expected Nat but got Atom
+      proofs.pie:20:18: goal (= Nat n n)
+    1 error and 1 goal in 2 files.
+
+  When a watched file is saved, created or removed, the watched files
+  that require it, whether directly or through other modules, are
+  checked again too.
+*/
+
+class WatchedFile {
+  constructor(
+    public text: string,
+    // The report on the text, or null if it is not a Pie program.
+    public report: PieReport | null,
+    // Where and why the text is not a Pie program.
+    public failure: string | null,
+    // The modules that the file requires, directly or not.
+    public requires: Set<string>,
+  ) { }
+
+  public get errors(): number {
+    if (this.report === null) {
+      return 1;
+    }
+    return this.report.diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  }
+
+  public get goals(): number {
+    return this.report?.goals.length ?? 0;
+  }
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+export class PieWatcher {
+  private files = new Map<string, WatchedFile>();
+
+  constructor(private io: CliIO) { }
+
+  /*
+    Check the file again if it has changed since it was last checked,
+    and print the summary. Then, unless dependents is false, check the
+    files that require it. Gives whether it was checked.
+  */
+  public update(path: string, text: string, dependents: boolean = true): boolean {
+    const before = this.files.get(path);
+    if (before !== undefined && before.text === text) {
+      return false;
+    }
+    this.check(path, text);
+    if (dependents) {
+      this.checkDependents(path);
+    }
+    return true;
+  }
+
+  // Stop watching a file that has been deleted.
+  public forget(path: string): void {
+    if (this.files.delete(path)) {
+      this.io.stdout(`${path}: removed\n` + this.totals());
+      this.checkDependents(path);
+    }
+  }
+
+  private check(path: string, text: string): void {
+    const before = this.files.get(path);
+    let file: WatchedFile;
+    let checked = '';
+    const modules = fileModules(this.io);
+    try {
+      const previous = before?.report ?? null;
+      const report = checkPie(text, { previous, source: path, modules });
+      const reused = report.declarations
+        .filter((decl, k) => decl === previous?.declarations[k]).length;
+      const count = report.declarations.length;
+      checked = ` (checked ${count - reused} of ${plural(count, 'declaration')})`;
+      file = new WatchedFile(text, report, null, modules.required);
+    } catch (e) {
+      const { line, column, message } = parseFailure(e);
+      file = new WatchedFile(text, null, `${path}:${line}:${column}: error: ${message}`, new Set());
+    }
+    this.files.set(path, file);
+    this.io.stdout(this.summarize(path, file, checked) + this.totals());
+  }
+
+  // Check the files that require the module at path again, as it has changed.
+  private checkDependents(path: string): void {
+    for (const [other, file] of [...this.files]) {
+      if (other !== path && file.requires.has(path)) {
+        this.check(other, file.text);
+      }
+    }
+  }
+
+  private summarize(path: string, file: WatchedFile, checked: string): string {
+    if (file.report === null) {
+      return `${path}: 1 error\n  ${file.failure!.replace(/\s+/g, ' ').trim()}\n`;
+    }
+    const { errors, goals } = file;
+    const counts = errors === 0 && goals === 0
+      ? 'ok'
+      : [plural(errors, 'error'), plural(goals, 'goal')].join(', ');
+    let out = `${path}: ${counts}${checked}\n`;
+    for (const diagnostic of file.report.diagnostics) {
+      if (diagnostic.severity === 'error') {
+        out += `  ${diagnostic}\n`;
+      }
+    }
+    for (const goal of file.report.goals) {
+      const { line, column } = goal.location.syntax.start;
+      out += `  ${path}:${line}:${column}: goal ${prettyPrintCore(goal.type, { width: Infinity })}\n`;
+    }
+    return out;
+  }
+
+  private totals(): string {
+    let errors = 0;
+    let goals = 0;
+    for (const file of this.files.values()) {
+      errors += file.errors;
+      goals += file.goals;
+    }
+    return `${plural(errors, 'error')} and ${plural(goals, 'goal')} `
+      + `in ${plural(this.files.size, 'file')}.\n`;
+  }
+}
+
+// The milliseconds to wait for a file to settle before it is checked,
+// as one save may change it several times.
+const settleTime = 100;
+
+/*
+  Watch a Pie file, or the Pie files in a directory, checking each one
+  at the start and whenever it is saved. Gives a function that stops
+  watching.
+
+  A single file is watched through its directory, because many editors
+  save a file by replacing it, after which a watch on the file itself
+  no longer sees it change.
+*/
+export function watchPie(target: string, io: CliIO): () => void {
+  const watcher = new PieWatcher(io);
+  const isDirectory = statSync(target).isDirectory();
+  const visit = (path: string, dependents: boolean = true) => {
+    let text: string;
+    try {
+      text = io.readFile(path);
+    } catch {
+      watcher.forget(path);
+      return;
+    }
+    watcher.update(path, text, dependents);
+  };
+  // Every file is read at the start, so none needs to be checked again then.
+  if (isDirectory) {
+    for (const name of readdirSync(target).filter(name => name.endsWith('.pie')).sort()) {
+      visit(join(target, name), false);
+    }
+  } else {
+    visit(target, false);
+  }
+  const pending = new Map<string, NodeJS.Timeout>();
+  const settle = (path: string) => {
+    clearTimeout(pending.get(path));
+    pending.set(path, setTimeout(() => {
+      pending.delete(path);
+      visit(path);
+    }, settleTime));
+  };
+  const fsWatcher = watch(isDirectory ? target : dirname(target), (_, name) => {
+    if (name === null) {
+      return;
+    } else if (!isDirectory) {
+      if (name === basename(target)) {
+        settle(target);
+      }
+    } else if (name.endsWith('.pie')) {
+      settle(join(target, name));
+    }
+  });
+  return () => {
+    fsWatcher.close();
+    for (const timeout of pending.values()) {
+      clearTimeout(timeout);
+    }
+  };
+}
@@ -30,3 +30,10 @@ export class UnexpectedEOFError extends LexerError {
     this.name = "UnexpectedEOFError";
   }
 }
+
+export class UnterminatedCommentError extends LexerError {
+  constructor(line: number, col: number) {
+    super(`Unterminated block comment (${line}:${col})`, line, col);
+    this.name = "UnterminatedCommentError";
+  }
+}
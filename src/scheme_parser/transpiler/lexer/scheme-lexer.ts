@@ -38,10 +38,17 @@ export class SchemeLexer implements Lexer {
   private current: number = 0;
   private line: number = 1;
   private col: number = 0;
+  // The position of the first character of the current token.
+  private startLine: number = 1;
+  private startCol: number = 1;
 
-  constructor(source: string) {
+  // The source may begin elsewhere than at the start of a file, at line
+  // and column.
+  constructor(source: string, line: number = 1, column: number = 1) {
     this.source = source;
     this.tokens = [];
+    this.line = line;
+    this.col = column - 1;
   }
 
   private isAtEnd(): boolean {
@@ -50,17 +57,28 @@ export class SchemeLexer implements Lexer {
 
   private advance(): string {
     // get the next character
-    this.col++;
-    return this.source.charAt(this.current++);
+    const c = this.source.charAt(this.current++);
+    this.step(c);
+    return c;
   }
 
   private jump(): void {
     // when you want to ignore a character
+    this.step(this.source.charAt(this.current));
     this.start = this.current;
-    this.col++;
     this.current++;
   }
 
+  // Move the line and column past a character.
+  private step(c: string): void {
+    if (c === "\n") {
+      this.line++;
+      this.col = 0;
+    } else {
+      this.col++;
+    }
+  }
+
   private addToken(type: TokenType): void;
   private addToken(type: TokenType, literal: any): void;
   private addToken(type: TokenType, literal: any = null): void {
@@ -72,8 +90,8 @@ export class SchemeLexer implements Lexer {
         literal,
         this.start,
         this.current,
-        this.line,
-        this.col
+        this.startLine,
+        this.startCol
       )
     );
   }
@@ -81,6 +99,8 @@ export class SchemeLexer implements Lexer {
   public scanTokens(): Token[] {
     while (!this.isAtEnd()) {
       this.start = this.current;
+      this.startLine = this.line;
+      this.startCol = this.col + 1;
       this.scanToken();
     }
 
@@ -92,7 +112,7 @@ export class SchemeLexer implements Lexer {
         this.start,
         this.current,
         this.line,
-        this.col
+        this.col + 1
       )
     );
     return this.tokens;
@@ -113,6 +133,12 @@ export class SchemeLexer implements Lexer {
       case "]":
         this.addToken(TokenType.RIGHT_BRACKET);
         break;
+      case "{":
+        this.addToken(TokenType.LEFT_BRACE);
+        break;
+      case "}":
+        this.addToken(TokenType.RIGHT_BRACE);
+        break;
       case "'":
         this.addToken(TokenType.APOSTROPHE);
         break;
@@ -159,8 +185,6 @@ export class SchemeLexer implements Lexer {
         // ignore whitespace
         break;
       case "\n":
-        this.line++;
-        this.col = 0;
         break;
       case '"':
         this.stringToken();
@@ -194,20 +218,25 @@ export class SchemeLexer implements Lexer {
   }
 
   private comment(): void {
-    while (!(this.peek() == "|" && this.peekNext() == "#") && !this.isAtEnd()) {
-      if (this.peek() === "\n") {
-        this.line++;
-        this.col = 0;
+    // block comments nest, as they do in Racket
+    let depth = 1;
+    while (depth > 0 && !this.isAtEnd()) {
+      if (this.peek() == "|" && this.peekNext() == "#") {
+        depth--;
+        this.jump();
+        this.jump();
+      } else if (this.peek() == "#" && this.peekNext() == "|") {
+        depth++;
+        this.jump();
+        this.jump();
+      } else {
+        this.advance();
       }
-      this.advance();
     }
 
-    if (this.isAtEnd()) {
-      throw new LexerError.UnexpectedEOFError(this.line, this.col);
+    if (depth > 0) {
+      throw new LexerError.UnterminatedCommentError(this.startLine, this.startCol);
     }
-
-    this.jump();
-    this.jump();
   }
 
   private identifierToken(): void {
@@ -220,10 +249,6 @@ export class SchemeLexer implements Lexer {
     // add the first |
     this.advance();
     while (this.peek() != "|" && !this.isAtEnd()) {
-      if (this.peek() === "\n") {
-        this.line++;
-        this.col = 0;
-      }
       this.advance();
     }
 
@@ -260,10 +285,6 @@ export class SchemeLexer implements Lexer {
 
   private stringToken(): void {
     while (this.peek() != '"' && !this.isAtEnd()) {
-      if (this.peek() === "\n") {
-        this.line++;
-        this.col = 0;
-      }
       this.advance();
     }
 
@@ -286,7 +307,7 @@ export class SchemeLexer implements Lexer {
   private match(expected: string): boolean {
     if (this.isAtEnd()) return false;
     if (this.source.charAt(this.current) != expected) return false;
-    this.current++;
+    this.advance();
     return true;
   }
 
@@ -311,7 +332,8 @@ export class SchemeLexer implements Lexer {
 
   private isSpecialSyntax(c: string): boolean {
     return (
-      c === "(" || c === ")" || c === "[" || c === "]" || c === ";" || c === "|"
+      c === "(" || c === ")" || c === "[" || c === "]" ||
+      c === "{" || c === "}" || c === ";" || c === "|"
     );
   }
 
@@ -135,6 +135,7 @@ export class SchemeParser implements Parser {
       switch (c.type) {
         case TokenType.LEFT_PAREN:
         case TokenType.LEFT_BRACKET:
+        case TokenType.LEFT_BRACE:
           // the next group is not empty, especially because it
           // has an open parenthesis
           const innerGroup = this.grouping(c) as Group;
@@ -142,6 +143,7 @@ export class SchemeParser implements Parser {
           break;
         case TokenType.RIGHT_PAREN:
         case TokenType.RIGHT_BRACKET:
+        case TokenType.RIGHT_BRACE:
           if (!inList) {
             throw new ParserError.UnexpectedFormError(this.source, c.pos, c);
           }
@@ -538,7 +540,7 @@ export class SchemeParser implements Parser {
     // check if the group is a list of length 1
     if (group.length() === 1) {
       const elem = [this.parseExpression(group.unwrap()[0])];
-      return new Extended.List(group.location, elem);
+      return new Extended.List(group.location, elem, undefined, group.isBraced());
     }
 
     // we now know that the group is at least of length 2
@@ -547,7 +549,12 @@ export class SchemeParser implements Parser {
 
     const [listElements, cdrElement] = this.destructureList(groupElements);
 
-    return new Extended.List(group.location, listElements, cdrElement);
+    return new Extended.List(
+      group.location,
+      listElements,
+      cdrElement,
+      group.isBraced()
+    );
   }
 
   // _____________________CHAPTER 1_____________________
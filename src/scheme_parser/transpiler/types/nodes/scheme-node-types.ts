@@ -741,14 +741,18 @@ export namespace Extended {
     location: Location;
     elements: Expression[];
     terminator: Expression | undefined;
+    // Whether the list was written with braces rather than parentheses.
+    braced: boolean;
     constructor(
       location: Location,
       elements: Expression[],
-      terminator: Expression | undefined = undefined
+      terminator: Expression | undefined = undefined,
+      braced: boolean = false
     ) {
       this.location = location;
       this.elements = elements;
       this.terminator = terminator;
+      this.braced = braced;
     }
     accept(visitor: Visitor): any {
       return visitor.visitList(this);
@@ -32,7 +32,9 @@ export class Group {
         (lParen.type === TokenType.LEFT_PAREN &&
           rParen.type === TokenType.RIGHT_PAREN) ||
         (lParen.type === TokenType.LEFT_BRACKET &&
-          rParen.type === TokenType.RIGHT_BRACKET)
+          rParen.type === TokenType.RIGHT_BRACKET) ||
+        (lParen.type === TokenType.LEFT_BRACE &&
+          rParen.type === TokenType.RIGHT_BRACE)
       );
     }
 
@@ -154,7 +156,7 @@ export class Group {
 
   // Get the ending position of the last element of the group.
   lastPos(): Position {
-    return this.lastToken().pos;
+    return this.lastToken().endPos;
   }
 
   /**
@@ -169,10 +171,19 @@ export class Group {
     return (
       isToken(firstElement) &&
       (firstElement.type === TokenType.LEFT_PAREN ||
-        firstElement.type === TokenType.LEFT_BRACKET)
+        firstElement.type === TokenType.LEFT_BRACKET ||
+        firstElement.type === TokenType.LEFT_BRACE)
     );
   }
 
+  /**
+   * Check if the current group is enclosed in braces.
+   */
+  public isBraced(): boolean {
+    const firstElement = this.first();
+    return isToken(firstElement) && firstElement.type === TokenType.LEFT_BRACE;
+  }
+
   /**
    * Using the invariants, we can determine if a group actually
    * represents a singular identifier.
@@ -9,6 +9,8 @@ export enum TokenType {
   RIGHT_PAREN,
   LEFT_BRACKET,
   RIGHT_BRACKET,
+  LEFT_BRACE,
+  RIGHT_BRACE,
   DOT,
 
   // Datum comments
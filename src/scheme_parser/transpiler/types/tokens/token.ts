@@ -28,8 +28,12 @@ export class Token {
     this.literal = literal;
     this.start = start;
     this.end = end;
+    // The positions of the first and the last characters of the token.
     this.pos = new Position(line, col);
-    this.endPos = new Position(line, col + lexeme.length - 1);
+    const lines = String(lexeme).split("\n");
+    this.endPos = lines.length === 1
+      ? new Position(line, col + lexeme.length - 1)
+      : new Position(line + lines.length - 1, lines[lines.length - 1].length);
   }
 
   /**